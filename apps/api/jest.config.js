@@ -0,0 +1,13 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/*.test.ts'],
+  // Test against the workspace packages' sources rather than their builds
+  moduleNameMapper: {
+    '^@aarovia/(database|types|web3)$': '<rootDir>/../../packages/$1/src',
+    // The generated contract bindings import each other with ESM `.js` extensions
+    '^(\\.{1,2}/.*)\\.js$': '$1'
+  }
+};
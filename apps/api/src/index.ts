@@ -3,13 +3,15 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import dotenv from 'dotenv';
-import { authRoutes } from './routes/auth';
-import { patientRoutes } from './routes/patients';
-import { recordRoutes } from './routes/records';
-import { providerRoutes } from './routes/providers';
-import { web3Routes } from './routes/web3';
+import { apiRoutes } from './routes';
 import { errorHandler } from './middleware/errorHandler';
 import { rateLimitMiddleware } from './middleware/rateLimiter';
+import { startScheduler } from './services/scheduler';
+import { createExpiryJob } from './services/expiry';
+import { createAuditAnchorJob } from './services/auditChain';
+import { createChainIndexerJob } from './services/chainIndexer';
+import { createTransactionTrackerJob } from './services/transactions';
+import { createRecordAnchorJob } from './services/records';
 
 // Load environment variables
 dotenv.config();
@@ -44,11 +46,9 @@ app.get('/health', (req, res) => {
 });
 
 // API routes
-app.use('/api/auth', authRoutes);
-app.use('/api/patients', patientRoutes);
-app.use('/api/records', recordRoutes);
-app.use('/api/providers', providerRoutes);
-app.use('/api/web3', web3Routes);
+for (const [path, router] of apiRoutes) {
+  app.use(path, router);
+}
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -64,6 +64,11 @@ app.use(errorHandler);
 app.listen(PORT, () => {
   console.log(`🚀 Medical Records API server running on port ${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/health`);
+
+  // Background jobs can also run in a separate process (npm run start:worker)
+  if (process.env.RUN_JOBS_IN_API !== 'false') {
+    startScheduler([createExpiryJob(), createAuditAnchorJob(), createChainIndexerJob(), createTransactionTrackerJob(), createRecordAnchorJob()]);
+  }
 });
 
 export default app;
@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from 'express';
+import { NewAuditLog } from '@aarovia/database';
+import { AuthenticatedRequest } from './auth';
+import { queueAuditLog } from '../services/audit';
+
+type AuditContext = Partial<Pick<NewAuditLog, 'userId' | 'recordId' | 'resourceId' | 'details'>>;
+
+export interface AuditOptions {
+  resourceType: string;
+  // Route parameter holding the resource ID, e.g. 'recordId'
+  resourceParam?: string;
+  // Set when the resource is a medical record, so the entry links to it
+  isRecord?: boolean;
+  // Also log failed attempts (status >= 400) as `<action>_failed`, e.g. logins
+  logFailures?: boolean;
+}
+
+/**
+ * Route middleware carrying the audit action it writes, so tests can check
+ * every route is audited
+ */
+export type AuditMiddleware = ((req: Request, res: Response, next: NextFunction) => void) & {
+  auditAction: string;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const isUuid = (value: unknown): value is string => {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+};
+
+/**
+ * Add to the entry the audit middleware writes for this request, e.g. the ID
+ * of a resource the handler just created or the user who just logged in
+ */
+export const setAuditContext = (res: Response, context: AuditContext): void => {
+  res.locals.audit = { ...res.locals.audit, ...context };
+};
+
+/**
+ * Write an audit entry once the response is done (or the client went away
+ * mid-download). Place it first in the route so failures are seen too.
+ */
+export const audit = (action: string, options: AuditOptions): AuditMiddleware => {
+  const middleware = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    res.once('close', () => {
+      const failed = res.statusCode >= 400;
+      if (failed && !options.logFailures) {
+        return;
+      }
+
+      const context: AuditContext = res.locals.audit ?? {};
+      const paramId = options.resourceParam ? req.params[options.resourceParam] : undefined;
+      const resourceId = context.resourceId ?? (isUuid(paramId) ? paramId : undefined);
+
+      queueAuditLog({
+        userId: context.userId ?? req.user?.id,
+        recordId: context.recordId ?? (options.isRecord ? resourceId : undefined),
+        action: failed ? `${action}_failed` : action,
+        severity: failed ? 'warning' : 'info',
+        resourceType: options.resourceType,
+        resourceId,
+        details: {
+          method: req.method,
+          path: req.originalUrl.split('?')[0],
+          status: res.statusCode,
+          ...(res.writableFinished ? {} : { aborted: true }),
+          ...(context.details as object | undefined)
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      });
+    });
+    next();
+  };
+
+  return Object.assign(middleware, { auditAction: action }) as AuditMiddleware;
+};
+
+/**
+ * Marks a route whose service writes its own, richer audit entry (e.g. inside
+ * the same transaction), so the middleware does not log it twice
+ */
+export const auditedByService = (action: string): AuditMiddleware => {
+  const middleware = (req: Request, res: Response, next: NextFunction) => next();
+  return Object.assign(middleware, { auditAction: action });
+};
@@ -1,17 +1,22 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { createError } from './errorHandler';
+import { AccessTokenPayload, getActiveSessionUser } from '../services/sessions';
+import { PolicyDecision } from '../services/policy';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
     address: string;
     role: 'patient' | 'provider' | 'admin';
+    sessionId: string;
+    emailVerified: boolean;
   };
   file?: Express.Multer.File;
+  authorization?: Extract<PolicyDecision, { allowed: true }>;
 }
 
-export const authenticateToken = (
+export const authenticateToken = async (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
@@ -23,25 +28,49 @@ export const authenticateToken = (
     return next(createError('Access token required', 401));
   }
 
+  let decoded: AccessTokenPayload;
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-    req.user = decoded;
-    next();
+    decoded = jwt.verify(token, process.env.JWT_SECRET!) as AccessTokenPayload;
   } catch (error) {
     return next(createError('Invalid token', 403));
   }
-};
 
-export const requireRole = (allowedRoles: string[]) => {
-  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-    if (!req.user) {
-      return next(createError('Authentication required', 401));
+  if (!decoded.sid) {
+    return next(createError('Invalid token', 403));
+  }
+
+  try {
+    const session = await getActiveSessionUser(decoded.id, decoded.sid);
+
+    if (!session) {
+      return next(createError('Session has been revoked', 401, 'SESSION_REVOKED'));
     }
 
-    if (!allowedRoles.includes(req.user.role)) {
-      return next(createError('Insufficient permissions', 403));
+    if (!session.isActive) {
+      return next(createError('Account is deactivated', 403, 'ACCOUNT_DISABLED'));
     }
 
+    req.user = {
+      id: decoded.id,
+      address: decoded.address,
+      role: decoded.role,
+      sessionId: decoded.sid,
+      emailVerified: session.emailVerified
+    };
     next();
-  };
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const requireVerifiedEmail = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return next(createError('Authentication required', 401));
+  }
+
+  if (!req.user.emailVerified) {
+    return next(createError('Email verification required', 403, 'EMAIL_NOT_VERIFIED'));
+  }
+
+  next();
 };
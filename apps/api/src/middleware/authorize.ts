@@ -0,0 +1,49 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth';
+import { ApiError, createError } from './errorHandler';
+import { isUuid } from './audit';
+import { Action, Resource, enforce } from '../services/policy';
+import { queueAuditLog } from '../services/audit';
+
+type ResourceResolver = (req: AuthenticatedRequest) => Resource;
+
+/**
+ * Resolve a resource from a route parameter, e.g. fromParam('record', 'recordId')
+ */
+export const fromParam = (type: Resource['type'], param: string): ResourceResolver => {
+  return (req) => ({ type, id: req.params[param] });
+};
+
+/**
+ * Route middleware backed by the policy engine. The allowing decision is
+ * stored on `req.authorization` for handlers that need the matched grant;
+ * denials are written to the audit log.
+ */
+export const authorize = (action: Action, resolveResource?: ResourceResolver) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(createError('Authentication required', 401));
+    }
+
+    const resource = resolveResource?.(req);
+    try {
+      req.authorization = await enforce(req.user, action, resource);
+      next();
+    } catch (error) {
+      const { statusCode, code } = error as ApiError;
+      if (statusCode === 403 || statusCode === 404) {
+        queueAuditLog({
+          userId: req.user.id,
+          action: 'access_denied',
+          severity: 'warning',
+          resourceType: resource?.type ?? 'route',
+          resourceId: isUuid(resource?.id) ? resource.id : undefined,
+          details: { action, reason: code, method: req.method, path: req.originalUrl.split('?')[0] },
+          ipAddress: req.ip,
+          userAgent: req.get('user-agent')
+        });
+      }
+      next(error);
+    }
+  };
+};
@@ -3,12 +3,16 @@ import { Request, Response, NextFunction } from 'express';
 export interface ApiError extends Error {
   statusCode: number;
   isOperational: boolean;
+  code?: string;
 }
 
-export const createError = (message: string, statusCode: number = 500): ApiError => {
+export const createError = (message: string, statusCode: number = 500, code?: string): ApiError => {
   const error = new Error(message) as ApiError;
   error.statusCode = statusCode;
   error.isOperational = true;
+  if (code) {
+    error.code = code;
+  }
   return error;
 };
 
@@ -18,7 +22,7 @@ export const errorHandler = (
   res: Response,
   next: NextFunction
 ) => {
-  const { statusCode = 500, message, stack } = err;
+  const { statusCode = 500, message, stack, code } = err;
 
   console.error(`Error ${statusCode}: ${message}`);
   
@@ -29,6 +33,7 @@ export const errorHandler = (
   res.status(statusCode).json({
     error: {
       message: statusCode === 500 ? 'Internal Server Error' : message,
+      ...(statusCode !== 500 && code && { code }),
       ...(process.env.NODE_ENV === 'development' && { stack })
     },
     timestamp: new Date().toISOString(),
@@ -0,0 +1,49 @@
+import type { Request, Response } from 'express';
+import { createRateLimiter } from './rateLimiter';
+
+describe('keyed rate limiter', () => {
+  const request = (key: string) => ({ params: { key } }) as unknown as Request;
+
+  const call = (limiter: ReturnType<typeof createRateLimiter>, key: string): number => {
+    let status = 200;
+    const res = {
+      set: () => res,
+      status: (code: number) => {
+        status = code;
+        return res;
+      },
+      json: () => res
+    } as unknown as Response;
+
+    limiter(request(key), res, () => undefined);
+    return status;
+  };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('limits each key on its own', () => {
+    const limiter = createRateLimiter({ windowMs: 60000, max: 2, keyFor: req => req.params.key });
+
+    expect([call(limiter, 'a'), call(limiter, 'a'), call(limiter, 'a')]).toEqual([200, 200, 429]);
+    expect(call(limiter, 'b')).toBe(200);
+  });
+
+  it('starts a new window once the old one has passed', () => {
+    jest.useFakeTimers();
+    const limiter = createRateLimiter({ windowMs: 60000, max: 1, keyFor: req => req.params.key });
+
+    expect([call(limiter, 'a'), call(limiter, 'a')]).toEqual([200, 429]);
+    jest.advanceTimersByTime(60001);
+    expect(call(limiter, 'a')).toBe(200);
+  });
+
+  it('tracks at most maxKeys keys, dropping the oldest', () => {
+    const limiter = createRateLimiter({ windowMs: 60000, max: 1, keyFor: req => req.params.key, maxKeys: 2 });
+
+    expect([call(limiter, 'a'), call(limiter, 'b'), call(limiter, 'c')]).toEqual([200, 200, 200]);
+    expect(call(limiter, 'c')).toBe(429);
+    expect(call(limiter, 'a')).toBe(200);
+  });
+});
@@ -47,3 +47,64 @@ export const rateLimitMiddleware = (
   clientData.requests++;
   next();
 };
+
+interface KeyedRateLimitOptions {
+  windowMs: number;
+  max: number;
+  // Requests are counted per key, e.g. per token instead of per client
+  keyFor: (req: Request) => string;
+  // Most keys tracked at once; keys can come from the client, so the oldest are dropped beyond it
+  maxKeys?: number;
+}
+
+/**
+ * Rate limiter with its own window, limit and request key. Expired keys are
+ * swept once per window.
+ */
+export const createRateLimiter = ({ windowMs, max, keyFor, maxKeys = 10000 }: KeyedRateLimitOptions) => {
+  const limits = new Map<string, RateLimitStore[string]>();
+  let nextSweep = Date.now() + windowMs;
+
+  const sweep = (currentTime: number) => {
+    for (const [key, entry] of limits) {
+      if (currentTime > entry.resetTime) {
+        limits.delete(key);
+      }
+    }
+    nextSweep = currentTime + windowMs;
+  };
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = keyFor(req);
+    const currentTime = Date.now();
+    if (currentTime >= nextSweep) {
+      sweep(currentTime);
+    }
+
+    const entry = limits.get(key);
+
+    if (!entry || currentTime > entry.resetTime) {
+      limits.delete(key);
+      if (limits.size >= maxKeys) {
+        sweep(currentTime);
+      }
+      if (limits.size >= maxKeys) {
+        limits.delete(limits.keys().next().value!);
+      }
+      limits.set(key, { requests: 1, resetTime: currentTime + windowMs });
+      return next();
+    }
+
+    if (entry.requests >= max) {
+      const retryAfter = Math.ceil((entry.resetTime - currentTime) / 1000);
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({
+        error: 'Too many requests',
+        retryAfter
+      });
+    }
+
+    entry.requests++;
+    next();
+  };
+};
@@ -0,0 +1,127 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { audit, auditedByService, setAuditContext } from '../middleware/audit';
+import { authorize } from '../middleware/authorize';
+import { createError } from '../middleware/errorHandler';
+import { proveAuditEntry, verifyAuditChain } from '../services/auditChain';
+import { listBreakGlassEvents, reviewBreakGlassEvent } from '../services/breakGlass';
+import { getChainReconciliation } from '../services/chainIndexer';
+
+const router = Router();
+
+const breakGlassQueueSchema = z.object({
+  status: z.enum(['pending', 'justified', 'escalated']).default('pending'),
+  patientId: z.string().uuid('Invalid patient ID').optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+const reviewBreakGlassSchema = z.object({
+  decision: z.enum(['justified', 'escalated']),
+  notes: z.string().trim().max(2000).optional()
+}).refine(review => review.decision !== 'escalated' || review.notes, 'Notes are required when escalating');
+
+const verifyAuditSchema = z.object({
+  from: z.coerce.number().int().min(1).optional(),
+  to: z.coerce.number().int().min(1).optional()
+}).refine(range => !range.from || !range.to || range.from <= range.to, 'from must not be after to');
+
+// Break-glass review queue (pending events by default)
+router.get('/break-glass', authenticateToken, authorize('admin:review'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { status, ...query } = breakGlassQueueSchema.parse(req.query);
+
+    const events = await listBreakGlassEvents({ ...query, reviewStatus: status });
+
+    res.json({
+      success: true,
+      ...events
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Mark a break-glass event justified, or escalate it (which ends the emergency access)
+router.post('/break-glass/:eventId/review', auditedByService('break_glass_review'), authenticateToken, authorize('admin:review'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const eventId = z.string().uuid('Invalid event ID').parse(req.params.eventId);
+    const { decision, notes } = reviewBreakGlassSchema.parse(req.body);
+
+    const event = await reviewBreakGlassEvent(req.user!.id, eventId, decision, notes);
+
+    res.json({
+      success: true,
+      data: event
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Re-walk the audit log hash chain and recheck batch roots (?from=&to= sequence numbers)
+router.get('/audit/verify', audit('audit_verify', { resourceType: 'audit_log' }), authenticateToken, authorize('admin:audit'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { from, to } = verifyAuditSchema.parse(req.query);
+
+    const verification = await verifyAuditChain({ fromSequence: from, toSequence: to });
+
+    setAuditContext(res, {
+      details: { fromSequence: from ?? null, toSequence: to ?? null, valid: verification.valid, problems: verification.problems.length }
+    });
+    res.json({
+      success: true,
+      data: verification
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Merkle proof that an audit entry is part of an anchored batch
+router.get('/audit/entries/:entryId/proof', audit('audit_proof', { resourceType: 'audit_log', resourceParam: 'entryId' }), authenticateToken, authorize('admin:audit'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const entryId = z.string().uuid('Invalid audit entry ID').parse(req.params.entryId);
+
+    const proof = await proveAuditEntry(entryId);
+
+    res.json({
+      success: true,
+      data: proof
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Indexed contract events checked against records, grants and audit batches
+router.get('/chain/reconciliation', audit('chain_reconcile', { resourceType: 'chain_event' }), authenticateToken, authorize('admin:audit'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const reconciliation = await getChainReconciliation();
+
+    setAuditContext(res, {
+      details: { consistent: reconciliation.consistent, problems: reconciliation.problems.length }
+    });
+    res.json({
+      success: true,
+      data: reconciliation
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as adminRoutes };
@@ -0,0 +1,180 @@
+import type { Router } from 'express';
+
+type RouteLayer = {
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+    stack: Array<{ handle: { auditAction?: string } }>;
+  };
+};
+
+// The audit action each route writes; null for routes that touch nothing sensitive
+const EXPECTED_ACTIONS: Record<string, string | null> = {
+  'POST /api/auth/login': 'login',
+  'POST /api/auth/refresh': 'token_refresh',
+  'POST /api/auth/logout': 'logout',
+  'POST /api/auth/logout-all': 'logout_all',
+  'POST /api/auth/register': 'register',
+  'POST /api/auth/verify-email': 'email_verify',
+  'PUT /api/auth/encryption-key': 'encryption_key_update',
+  'POST /api/auth/verify-email/resend': null,
+  'GET /api/auth/nonce/:address': null,
+
+  'GET /api/patients/profile': 'profile_read',
+  'PUT /api/patients/profile': 'profile_update',
+  'GET /api/patients/ice/:token': 'ice_lookup',
+  'GET /api/patients/ice-tokens': null,
+  'POST /api/patients/ice-tokens': 'ice_token_create',
+  'GET /api/patients/ice-tokens/:tokenId/card': 'ice_card_export',
+  'GET /api/patients/ice-tokens/:tokenId/qr': 'ice_card_export',
+  'DELETE /api/patients/ice-tokens/:tokenId': 'ice_token_revoke',
+  'GET /api/patients/ice-lookups': null,
+  'GET /api/patients/access-requests': null,
+  'POST /api/patients/access-requests/:requestId/approve': 'access_request_approve',
+  'POST /api/patients/access-requests/:requestId/deny': 'access_request_deny',
+  'GET /api/patients/grants': null,
+  'POST /api/patients/grants': 'share',
+  'DELETE /api/patients/grants/:grantId': 'revoke',
+  'GET /api/patients/share-links': null,
+  'POST /api/patients/share-links': 'share_link_create',
+  'GET /api/patients/share-links/:linkId/qr': 'share_link_export',
+  'DELETE /api/patients/share-links/:linkId': 'share_link_revoke',
+  'GET /api/patients/break-glass': null,
+  'GET /api/patients/access-history': null,
+  'GET /api/patients/dashboard': null,
+
+  'POST /api/records/upload': 'upload',
+  'GET /api/records/': null,
+  'GET /api/records/:recordId': 'read',
+  'GET /api/records/:recordId/content': 'download',
+  'POST /api/records/:recordId/share': 'share',
+  'DELETE /api/records/:recordId/share/:shareId': 'revoke',
+
+  'POST /api/providers/register': 'provider_register',
+  'GET /api/providers/profile': null,
+  'GET /api/providers/patients': null,
+  'POST /api/providers/request-access': 'access_request_create',
+  'GET /api/providers/records/:patientId': 'read',
+  'POST /api/providers/break-glass': 'break_glass',
+  'GET /api/providers/search': null,
+
+  'GET /api/web3/wallet': null,
+  'GET /api/web3/contracts': null,
+  'POST /api/web3/verify-signature': null,
+  'GET /api/web3/gas-estimates': null,
+  'GET /api/web3/ipfs-stats': null,
+  'POST /api/web3/submit-transaction': 'transaction_submit',
+  'GET /api/web3/relay': null,
+  'POST /api/web3/relay/prepare': null,
+  'POST /api/web3/relay': 'transaction_relay',
+
+  'POST /api/share/:token/open': 'share_link_view',
+  'GET /api/share/:token/records/:recordId/content': 'download',
+
+  'GET /api/admin/break-glass': null,
+  'POST /api/admin/break-glass/:eventId/review': 'break_glass_review',
+  'GET /api/admin/audit/verify': 'audit_verify',
+  'GET /api/admin/audit/entries/:entryId/proof': 'audit_proof',
+  'GET /api/admin/chain/reconciliation': 'chain_reconcile'
+};
+
+/**
+ * Every route of every mounted router with the audit actions its middleware declares
+ */
+const collectRoutes = (apiRoutes: Array<[string, Router]>) => {
+  const routes = new Map<string, string[]>();
+
+  for (const [mountPath, router] of apiRoutes) {
+    for (const layer of router.stack as RouteLayer[]) {
+      if (!layer.route) {
+        continue;
+      }
+
+      const actions = layer.route.stack
+        .map(handler => handler.handle.auditAction)
+        .filter((action): action is string => Boolean(action));
+
+      for (const method of Object.keys(layer.route.methods)) {
+        routes.set(`${method.toUpperCase()} ${mountPath}${layer.route.path}`, actions);
+      }
+    }
+  }
+
+  return routes;
+};
+
+describe('route audit coverage', () => {
+  let routes: Map<string, string[]>;
+
+  beforeAll(async () => {
+    // Routes pull in the database client, which only needs a URL until the first query
+    process.env.DATABASE_URL ??= 'postgres://localhost:5432/aarovia_test';
+    const { apiRoutes } = await import('./index');
+    routes = collectRoutes(apiRoutes);
+  });
+
+  it('lists every route in the expected audit actions', () => {
+    expect([...routes.keys()].sort()).toEqual(Object.keys(EXPECTED_ACTIONS).sort());
+  });
+
+  it.each(Object.entries(EXPECTED_ACTIONS))('%s emits %p', (route, expected) => {
+    expect(routes.get(route)).toEqual(expected ? [expected] : []);
+  });
+});
+
+describe('audit middleware', () => {
+  it('writes the entry after the response without blocking it', async () => {
+    jest.resetModules();
+    const insertValues = jest.fn().mockRejectedValue(new Error('database unavailable'));
+    const tx = {
+      execute: jest.fn().mockResolvedValue([]),
+      select: () => ({ from: () => ({ orderBy: () => ({ limit: () => Promise.resolve([]) }) }) }),
+      insert: () => ({ values: insertValues })
+    };
+    jest.doMock('@aarovia/database', () => ({
+      db: { transaction: (work: (executor: typeof tx) => Promise<void>) => work(tx) },
+      auditLogs: {}
+    }));
+
+    const { audit, setAuditContext } = await import('../middleware/audit');
+    const { EventEmitter } = await import('events');
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const recordId = '0b7c3a4e-8a52-4c1e-9a0c-2d7c1f3e5a11';
+    const req = {
+      method: 'GET',
+      originalUrl: `/api/records/${recordId}?download=true`,
+      params: { recordId },
+      ip: '203.0.113.7',
+      user: { id: 'user-1' },
+      get: (header: string) => (header === 'user-agent' ? 'jest' : undefined)
+    };
+    const res = Object.assign(new EventEmitter(), { statusCode: 200, locals: {}, writableFinished: true });
+    const next = jest.fn();
+
+    const middleware = audit('read', { resourceType: 'medical_record', resourceParam: 'recordId', isRecord: true });
+    middleware(req as never, res as never, next);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(insertValues).not.toHaveBeenCalled();
+
+    setAuditContext(res as never, { details: { range: { start: 0, end: 99 } } });
+    res.emit('close');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(insertValues).toHaveBeenCalledWith([expect.objectContaining({
+      userId: 'user-1',
+      recordId,
+      resourceId: recordId,
+      action: 'read',
+      ipAddress: '203.0.113.7',
+      userAgent: 'jest',
+      details: expect.objectContaining({ path: `/api/records/${recordId}`, status: 200, range: { start: 0, end: 99 } }),
+      sequence: 1,
+      previousHash: '0'.repeat(64),
+      hash: expect.stringMatching(/^[0-9a-f]{64}$/)
+    })]);
+    expect(consoleError).toHaveBeenCalledWith('Failed to write audit log:', expect.any(Error));
+
+    consoleError.mockRestore();
+  });
+});
@@ -1,71 +1,95 @@
 import { Router } from 'express';
-import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { z } from 'zod';
-// import { db } from '@medical-records/database';
-// import { users } from '@medical-records/database/schema';
+import { eq } from 'drizzle-orm';
+import { db, users } from '@aarovia/database';
+import { getPublicKeyFingerprint, isValidRecipientPublicKey } from '@aarovia/web3';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { audit, setAuditContext } from '../middleware/audit';
 import { createError } from '../middleware/errorHandler';
+import { issueNonce, verifySiweMessage } from '../services/siwe';
+import { createSession, revokeAllSessions, revokeSession, rotateRefreshToken } from '../services/sessions';
+import { registerUser } from '../services/users';
+import { syncUserRecordKeys } from '../services/recordKeys';
+import { resendVerificationEmail, sendVerificationEmail, verifyEmailToken } from '../services/emailVerification';
 
 const router = Router();
 
 const loginSchema = z.object({
-  address: z.string().min(1, 'Wallet address is required'),
+  message: z.string().min(1, 'Message is required'),
+  signature: z.string().min(1, 'Signature is required')
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required')
+});
+
+const profileSchema = z.object({
+  firstName: z.string().min(1),
+  lastName: z.string().min(1),
+  phone: z.string().optional(),
+  dateOfBirth: z.string().optional()
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required')
+});
+
+const encryptionKeySchema = z.object({
+  publicKey: z.string().refine(isValidRecipientPublicKey, 'Invalid P-256 public key')
+});
+
+// The signed SIWE message proves ownership of the wallet being registered
+const registerBaseSchema = z.object({
+  message: z.string().min(1, 'Message is required'),
   signature: z.string().min(1, 'Signature is required'),
-  message: z.string().min(1, 'Message is required')
+  email: z.string().email('Invalid email format')
 });
 
-const registerSchema = z.object({
-  address: z.string().min(1, 'Wallet address is required'),
-  email: z.string().email('Invalid email format'),
-  role: z.enum(['patient', 'provider']),
-  profile: z.object({
-    firstName: z.string().min(1),
-    lastName: z.string().min(1),
-    phone: z.string().optional(),
-    dateOfBirth: z.string().optional()
+const registerSchema = z.discriminatedUnion('role', [
+  registerBaseSchema.extend({
+    role: z.literal('patient'),
+    profile: profileSchema
+  }),
+  registerBaseSchema.extend({
+    role: z.literal('provider'),
+    profile: profileSchema.optional()
   })
-});
+]);
 
-// Wallet-based authentication
-router.post('/login', async (req, res, next) => {
+// Sign-In with Ethereum (EIP-4361)
+router.post('/login', audit('login', { resourceType: 'user', logFailures: true }), async (req, res, next) => {
   try {
-    const { address, signature, message } = loginSchema.parse(req.body);
-
-    // TODO: Verify signature with ethers.js
-    // const isValidSignature = await verifySignature(address, message, signature);
-    // if (!isValidSignature) {
-    //   return next(createError('Invalid signature', 401));
-    // }
-
-    // TODO: Find user in database
-    // const user = await db.select().from(users).where(eq(users.address, address));
-    // if (!user.length) {
-    //   return next(createError('User not found', 404));
-    // }
-
-    // Mock user for now
-    const user = {
-      id: '1',
-      address,
-      role: 'patient',
-      email: 'user@example.com'
-    };
-
-    const token = jwt.sign(
-      { 
-        id: user.id, 
-        address: user.address, 
-        role: user.role 
-      },
-      process.env.JWT_SECRET!,
-      { expiresIn: '7d' }
-    );
+    const { message, signature } = loginSchema.parse(req.body);
+
+    const siwe = await verifySiweMessage(message, signature);
+    setAuditContext(res, { details: { address: siwe.address } });
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.address, siwe.address)
+    });
+
+    if (user) {
+      setAuditContext(res, { userId: user.id, resourceId: user.id });
+    }
+
+    if (!user) {
+      return next(createError('User not found', 404, 'USER_NOT_FOUND'));
+    }
+
+    if (!user.isActive) {
+      return next(createError('Account is deactivated', 403, 'ACCOUNT_DISABLED'));
+    }
+
+    const tokens = await createSession(user, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
 
     res.json({
       success: true,
       data: {
         user,
-        token
+        ...tokens
       }
     });
   } catch (error) {
@@ -76,48 +100,135 @@ router.post('/login', async (req, res, next) => {
   }
 });
 
+// Exchange a refresh token for a new access/refresh token pair
+router.post('/refresh', audit('token_refresh', { resourceType: 'session', logFailures: true }), async (req, res, next) => {
+  try {
+    const { refreshToken } = refreshSchema.parse(req.body);
+
+    const tokens = await rotateRefreshToken(refreshToken, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    res.json({
+      success: true,
+      data: tokens
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Log out the current session
+router.post('/logout', audit('logout', { resourceType: 'session' }), authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    await revokeSession(req.user!.sessionId);
+
+    res.json({
+      success: true,
+      message: 'Logged out'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Log out of every device
+router.post('/logout-all', audit('logout_all', { resourceType: 'session' }), authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const revokedSessions = await revokeAllSessions(req.user!.id);
+    setAuditContext(res, { details: { revokedSessions } });
+
+    res.json({
+      success: true,
+      data: { revokedSessions },
+      message: 'Logged out of all devices'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Register new user
-router.post('/register', async (req, res, next) => {
+router.post('/register', audit('register', { resourceType: 'user' }), async (req, res, next) => {
   try {
-    const userData = registerSchema.parse(req.body);
-
-    // TODO: Check if user already exists
-    // const existingUser = await db.select().from(users)
-    //   .where(eq(users.address, userData.address));
-    
-    // if (existingUser.length > 0) {
-    //   return next(createError('User already exists', 409));
-    // }
-
-    // TODO: Create user in database
-    // const newUser = await db.insert(users).values({
-    //   ...userData,
-    //   createdAt: new Date(),
-    //   updatedAt: new Date()
-    // }).returning();
-
-    const newUser = {
-      id: '1',
+    const { message, signature, ...userData } = registerSchema.parse(req.body);
+
+    const siwe = await verifySiweMessage(message, signature);
+
+    const { user, patient } = await registerUser({
       ...userData,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
-
-    const token = jwt.sign(
-      { 
-        id: newUser.id, 
-        address: newUser.address, 
-        role: newUser.role 
-      },
-      process.env.JWT_SECRET!,
-      { expiresIn: '7d' }
-    );
+      address: siwe.address
+    });
+    setAuditContext(res, { userId: user.id, resourceId: user.id, details: { role: user.role } });
+
+    const tokens = await createSession(user, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    // Registration succeeds even if the mail cannot be delivered; the user can resend it
+    sendVerificationEmail(user).catch((error) => {
+      console.error('Failed to send verification email:', error);
+    });
 
     res.status(201).json({
       success: true,
       data: {
-        user: newUser,
-        token
+        user,
+        ...(patient && { patient }),
+        ...tokens
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Confirm an email address from a verification link
+router.post('/verify-email', audit('email_verify', { resourceType: 'user' }), async (req, res, next) => {
+  try {
+    const { token } = verifyEmailSchema.parse(req.body);
+
+    const user = await verifyEmailToken(token);
+    setAuditContext(res, { userId: user.id, resourceId: user.id });
+
+    res.json({
+      success: true,
+      data: { user },
+      message: 'Email verified'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Register the public key that record data keys are wrapped for
+router.put('/encryption-key', audit('encryption_key_update', { resourceType: 'user' }), authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { publicKey } = await encryptionKeySchema.parseAsync(req.body);
+
+    await db.update(users)
+      .set({ encryptionPublicKey: publicKey, updatedAt: new Date() })
+      .where(eq(users.id, req.user!.id));
+
+    const rewrapped = await syncUserRecordKeys(req.user!.id);
+    setAuditContext(res, { resourceId: req.user!.id, details: { rewrapped } });
+
+    res.json({
+      success: true,
+      data: {
+        fingerprint: await getPublicKeyFingerprint(publicKey),
+        rewrapped
       }
     });
   } catch (error) {
@@ -128,17 +239,30 @@ router.post('/register', async (req, res, next) => {
   }
 });
 
-// Get nonce for wallet signature
+// Send a new verification link
+router.post('/verify-email/resend', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    await resendVerificationEmail(req.user!.id);
+
+    res.json({
+      success: true,
+      message: 'Verification email sent'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a single-use nonce to embed in the SIWE message
 router.get('/nonce/:address', async (req, res, next) => {
   try {
     const { address } = req.params;
-    
-    // Generate a unique nonce for signature verification
-    const nonce = `Please sign this message to authenticate: ${Date.now()}`;
-    
+
+    const nonce = await issueNonce(address);
+
     res.json({
       success: true,
-      data: { nonce }
+      data: nonce
     });
   } catch (error) {
     next(error);
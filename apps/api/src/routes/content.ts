@@ -0,0 +1,54 @@
+import { Request, Response } from 'express';
+import { Readable } from 'stream';
+import { ReadableStream as NodeReadableStream } from 'stream/web';
+import { pipeline } from 'stream/promises';
+import { MedicalRecord } from '@aarovia/database';
+import { setAuditContext } from '../middleware/audit';
+import { createError } from '../middleware/errorHandler';
+import { openRecordContent } from '../services/records';
+
+// RFC 6266 header with an ASCII fallback and the UTF-8 file name
+const contentDisposition = (type: 'inline' | 'attachment', fileName: string) => {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+/**
+ * Stream a record's decrypted content, honouring single byte-range requests.
+ * Shared by authenticated downloads and share links.
+ */
+export const sendRecordContent = async (req: Request, res: Response, record: MedicalRecord): Promise<void> => {
+  const ranges = record.fileSize > 0 ? req.range(record.fileSize, { combine: true }) : undefined;
+  if (ranges === -1) {
+    res.set('Content-Range', `bytes */${record.fileSize}`);
+    throw createError('Requested range not satisfiable', 416, 'RANGE_NOT_SATISFIABLE');
+  }
+
+  // Malformed and multi-range requests get the whole file
+  const range = Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1 ? ranges[0] : undefined;
+  const content = await openRecordContent(record, range);
+
+  if (range) {
+    setAuditContext(res, { details: { range: { start: range.start, end: range.end } } });
+  }
+
+  res.status(range ? 206 : 200).set({
+    'Content-Type': record.fileMimeType,
+    'Content-Length': String(range ? range.end - range.start + 1 : record.fileSize),
+    'Content-Disposition': contentDisposition(req.query.download === 'true' ? 'attachment' : 'inline', record.fileName),
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'private, no-store',
+    ...(range && { 'Content-Range': `bytes ${range.start}-${range.end}/${record.fileSize}` })
+  });
+
+  try {
+    await pipeline(Readable.fromWeb(content as NodeReadableStream<Uint8Array>), res);
+  } catch (error) {
+    if (!res.headersSent) {
+      throw error;
+    }
+    // Decryption failed mid-stream; the truncated response has already been aborted
+    console.error('Record content stream failed:', error);
+  }
+};
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { authRoutes } from './auth';
+import { patientRoutes } from './patients';
+import { recordRoutes } from './records';
+import { providerRoutes } from './providers';
+import { web3Routes } from './web3';
+import { shareRoutes } from './share';
+import { adminRoutes } from './admin';
+
+// Every API router and where it is mounted
+export const apiRoutes: Array<[path: string, router: Router]> = [
+  ['/api/auth', authRoutes],
+  ['/api/patients', patientRoutes],
+  ['/api/records', recordRoutes],
+  ['/api/providers', providerRoutes],
+  ['/api/web3', web3Routes],
+  ['/api/share', shareRoutes],
+  ['/api/admin', adminRoutes]
+];
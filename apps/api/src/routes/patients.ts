@@ -1,7 +1,17 @@
 import { Router } from 'express';
 import { z } from 'zod';
-import { authenticateToken, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { authenticateToken, requireVerifiedEmail, AuthenticatedRequest } from '../middleware/auth';
+import { audit, auditedByService, setAuditContext } from '../middleware/audit';
+import { authorize } from '../middleware/authorize';
 import { createError } from '../middleware/errorHandler';
+import { createRateLimiter } from '../middleware/rateLimiter';
+import { approveAccessRequest, denyAccessRequest, listAccessRequests } from '../services/accessRequests';
+import { createScopedGrant, listPatientGrants, revokeGrant } from '../services/sharing';
+import { createShareLink, listShareLinks, renderShareLinkQrCode, revokeShareLink } from '../services/shareLinks';
+import { listBreakGlassEvents } from '../services/breakGlass';
+import { exportAccessHistory, listAccessHistory, toAccessHistoryCsv } from '../services/accessHistory';
+import { createIceToken, listIceLookups, listIceTokens, lookupIce, renderIceCard, renderIceQrCode, revokeIceToken } from '../services/ice';
+import { getPatientForUser } from '../services/users';
 
 const router = Router();
 
@@ -24,8 +34,85 @@ const updateProfileSchema = z.object({
   }).optional()
 });
 
+const listAccessRequestsSchema = z.object({
+  status: z.enum(['pending', 'approved', 'denied', 'expired']).default('pending')
+});
+
+const respondToAccessRequestSchema = z.object({
+  responseMessage: z.string().trim().max(1000).optional()
+});
+
+const grantBaseSchema = z.object({
+  providerId: z.string().uuid('Invalid provider ID'),
+  permissions: z.array(z.enum(['read', 'write'])).min(1).default(['read'])
+    .transform(permissions => [...new Set(permissions)]),
+  expiresAt: z.coerce.date().refine(date => date > new Date(), 'expiresAt must be in the future').optional(),
+  recordDateFrom: z.coerce.date().optional(),
+  recordDateTo: z.coerce.date().optional()
+});
+
+const scopedGrantSchema = z.discriminatedUnion('scope', [
+  grantBaseSchema.extend({ scope: z.literal('patient') }),
+  grantBaseSchema.extend({
+    scope: z.literal('category'),
+    category: z.enum(['lab-report', 'imaging', 'prescription', 'consultation', 'other'])
+  }),
+  grantBaseSchema.extend({ scope: z.literal('tag'), tag: z.string().trim().min(1).max(100) })
+]).refine(
+  grant => !grant.recordDateFrom || !grant.recordDateTo || grant.recordDateFrom <= grant.recordDateTo,
+  'recordDateFrom must be before recordDateTo'
+);
+
+const paginationSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10)
+});
+
+const accessHistorySchema = paginationSchema.extend({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  recordId: z.string().uuid('Invalid record ID').optional(),
+  providerId: z.string().uuid('Invalid provider ID').optional(),
+  // One action or a comma-separated list, e.g. read,download
+  action: z.string().trim().min(1).max(500).optional()
+    .transform(actions => actions?.split(',').map(action => action.trim()).filter(Boolean)),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  format: z.enum(['csv', 'json']).optional()
+}).refine(query => !query.from || !query.to || query.from <= query.to, 'from must be before to');
+
+const SHARE_LINK_MAX_TTL_MS = Number(process.env.SHARE_LINK_MAX_TTL_DAYS || 30) * 24 * 60 * 60 * 1000;
+
+const shareLinkSchema = z.object({
+  recordIds: z.array(z.string().uuid('Invalid record ID')).min(1).max(50),
+  expiresAt: z.coerce.date()
+    .refine(date => date > new Date(), 'expiresAt must be in the future')
+    .refine(date => date.getTime() <= Date.now() + SHARE_LINK_MAX_TTL_MS, 'expiresAt is too far in the future')
+    .default(() => new Date(Date.now() + 24 * 60 * 60 * 1000)),
+  pin: z.string().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits').optional(),
+  maxViews: z.number().int().min(1).max(1000).optional(),
+  label: z.string().trim().min(1).max(255).optional()
+});
+
+const iceTokenSchema = z.object({
+  label: z.string().trim().min(1).max(255).optional()
+});
+
+// Emergency staff may scan a card a few times. Lookups are counted per token and
+// client, so someone who has seen a card cannot use up its lookups for responders;
+// guessing tokens is held back by the per-client limit on every route.
+const iceRateLimit = createRateLimiter({
+  windowMs: 15 * 60 * 1000,
+  max: Number(process.env.ICE_LOOKUP_LIMIT || 20),
+  keyFor: req => `ice:${req.params.token}:${req.ip}`
+});
+
+const qrCodeSchema = z.object({
+  format: z.enum(['png', 'svg']).default('png'),
+  size: z.coerce.number().int().min(64).max(1024).default(256)
+});
+
 // Get patient profile
-router.get('/profile', authenticateToken, requireRole(['patient']), async (req: AuthenticatedRequest, res, next) => {
+router.get('/profile', audit('profile_read', { resourceType: 'patient' }), authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
   try {
     const userId = req.user!.id;
 
@@ -66,10 +153,11 @@ router.get('/profile', authenticateToken, requireRole(['patient']), async (req:
 });
 
 // Update patient profile
-router.put('/profile', authenticateToken, requireRole(['patient']), async (req: AuthenticatedRequest, res, next) => {
+router.put('/profile', audit('profile_update', { resourceType: 'patient' }), authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
   try {
     const userId = req.user!.id;
     const profileData = updateProfileSchema.parse(req.body);
+    setAuditContext(res, { details: { fields: Object.keys(profileData) } });
 
     // TODO: Update in database
     // const updatedProfile = await db.update(patients)
@@ -95,37 +183,394 @@ router.put('/profile', authenticateToken, requireRole(['patient']), async (req:
   }
 });
 
-// Get ICE (In Case of Emergency) information
-router.get('/ice/:patientId', async (req, res, next) => {
+// Get ICE (In Case of Emergency) information. Public, but only through an
+// emergency card token; limited per token and client and recorded for the patient.
+router.get('/ice/:token', auditedByService('ice_lookup'), iceRateLimit, async (req, res, next) => {
   try {
-    const { patientId } = req.params;
+    const iceData = await lookupIce(req.params.token, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
 
-    // TODO: Fetch ICE data from database
-    // Only return if ICE mode is enabled
-    const iceData = {
-      patientId,
-      bloodType: 'O+',
-      allergies: ['Penicillin'],
-      chronicConditions: ['Hypertension'],
-      medications: ['Lisinopril 10mg'],
-      emergencyContact: {
-        name: 'Jane Doe',
-        phone: '+1234567891',
-        relation: 'Spouse'
-      }
-    };
+    res.set('Cache-Control', 'no-store').json({
+      success: true,
+      data: iceData
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List the patient's emergency cards
+router.get('/ice-tokens', authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const patient = await getPatientForUser(req.user!.id);
 
     res.json({
       success: true,
-      data: iceData
+      data: await listIceTokens(patient.id)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Issue a new emergency card token
+router.post('/ice-tokens', audit('ice_token_create', { resourceType: 'ice_token' }), authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { label } = iceTokenSchema.parse(req.body);
+    const patient = await getPatientForUser(req.user!.id);
+
+    const token = await createIceToken(patient.id, label);
+    setAuditContext(res, { resourceId: token.id });
+
+    res.status(201).json({
+      success: true,
+      data: token,
+      message: patient.iceMode?.enabled ? undefined : 'ICE mode is disabled, so the card will not show anything until it is enabled'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Printable emergency card (PDF)
+router.get('/ice-tokens/:tokenId/card', audit('ice_card_export', { resourceType: 'ice_token', resourceParam: 'tokenId' }), authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const tokenId = z.string().uuid('Invalid token ID').parse(req.params.tokenId);
+    const patient = await getPatientForUser(req.user!.id);
+
+    const card = await renderIceCard(patient, tokenId);
+
+    res.set({
+      'Content-Disposition': 'attachment; filename="emergency-card.pdf"',
+      'Cache-Control': 'private, no-store'
+    }).type('application/pdf').send(card);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// QR code of an emergency card token (?format=png|svg&size=256)
+router.get('/ice-tokens/:tokenId/qr', audit('ice_card_export', { resourceType: 'ice_token', resourceParam: 'tokenId' }), authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const tokenId = z.string().uuid('Invalid token ID').parse(req.params.tokenId);
+    const { format, size } = qrCodeSchema.parse(req.query);
+    const patient = await getPatientForUser(req.user!.id);
+
+    const qrCode = await renderIceQrCode(patient.id, tokenId, format, size);
+
+    res.set('Cache-Control', 'private, no-store')
+      .type(format === 'svg' ? 'image/svg+xml' : 'image/png')
+      .send(qrCode);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Revoke an emergency card, e.g. when it is lost
+router.delete('/ice-tokens/:tokenId', audit('ice_token_revoke', { resourceType: 'ice_token', resourceParam: 'tokenId' }), authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const tokenId = z.string().uuid('Invalid token ID').parse(req.params.tokenId);
+    const patient = await getPatientForUser(req.user!.id);
+
+    const token = await revokeIceToken(patient.id, tokenId);
+
+    res.json({
+      success: true,
+      data: token,
+      message: 'Emergency card revoked'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Every lookup of the patient's emergency cards
+router.get('/ice-lookups', authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { page, limit } = paginationSchema.parse(req.query);
+    const patient = await getPatientForUser(req.user!.id);
+
+    const lookups = await listIceLookups(patient.id, page, limit);
+
+    res.json({
+      success: true,
+      ...lookups
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// List access requests sent to the patient (pending by default)
+router.get('/access-requests', authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { status } = listAccessRequestsSchema.parse(req.query);
+    const patient = await getPatientForUser(req.user!.id);
+
+    const requests = await listAccessRequests(patient.id, status);
+
+    res.json({
+      success: true,
+      data: requests
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Approve an access request, granting the provider read access to the requested record types
+router.post('/access-requests/:requestId/approve', audit('access_request_approve', { resourceType: 'access_request', resourceParam: 'requestId' }), authenticateToken, authorize('patient:self'), requireVerifiedEmail, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const requestId = z.string().uuid('Invalid request ID').parse(req.params.requestId);
+    const { responseMessage } = respondToAccessRequestSchema.parse(req.body);
+    const patient = await getPatientForUser(req.user!.id);
+
+    const result = await approveAccessRequest(patient.id, requestId, responseMessage);
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Access request approved'
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Deny an access request
+router.post('/access-requests/:requestId/deny', audit('access_request_deny', { resourceType: 'access_request', resourceParam: 'requestId' }), authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const requestId = z.string().uuid('Invalid request ID').parse(req.params.requestId);
+    const { responseMessage } = respondToAccessRequestSchema.parse(req.body);
+    const patient = await getPatientForUser(req.user!.id);
+
+    const request = await denyAccessRequest(patient.id, requestId, responseMessage);
+
+    res.json({
+      success: true,
+      data: request,
+      message: 'Access request denied'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// List the grants the patient has given (active only unless ?includeInactive=true)
+router.get('/grants', authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const patient = await getPatientForUser(req.user!.id);
+
+    const grants = await listPatientGrants(patient.id, req.query.includeInactive === 'true');
+
+    res.json({
+      success: true,
+      data: grants
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Give a provider standing access to all records, a category or a tag
+router.post('/grants', audit('share', { resourceType: 'access_grant' }), authenticateToken, authorize('patient:self'), requireVerifiedEmail, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const input = scopedGrantSchema.parse(req.body);
+    const patient = await getPatientForUser(req.user!.id);
+
+    const grant = await createScopedGrant(patient.id, input);
+    setAuditContext(res, { resourceId: grant.id, details: { providerId: grant.providerId, scope: grant.scope } });
+
+    res.status(201).json({
+      success: true,
+      data: grant
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Revoke any of the patient's grants
+router.delete('/grants/:grantId', audit('revoke', { resourceType: 'access_grant', resourceParam: 'grantId' }), authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const grantId = z.string().uuid('Invalid grant ID').parse(req.params.grantId);
+    const patient = await getPatientForUser(req.user!.id);
+
+    const grant = await revokeGrant(patient.id, grantId);
+
+    res.json({
+      success: true,
+      data: grant,
+      message: 'Access revoked'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// List the patient's share links
+router.get('/share-links', authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const patient = await getPatientForUser(req.user!.id);
+
+    res.json({
+      success: true,
+      data: await listShareLinks(patient.id)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create an expiring, optionally PIN-protected link to one or more records
+router.post('/share-links', audit('share_link_create', { resourceType: 'share_link' }), authenticateToken, authorize('patient:self'), requireVerifiedEmail, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const input = shareLinkSchema.parse(req.body);
+    const patient = await getPatientForUser(req.user!.id);
+
+    const link = await createShareLink(patient.id, input);
+    setAuditContext(res, { resourceId: link.id, details: { recordIds: link.recordIds, expiresAt: link.expiresAt } });
+
+    res.status(201).json({
+      success: true,
+      data: link
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// QR code of a share link (?format=png|svg&size=256)
+router.get('/share-links/:linkId/qr', audit('share_link_export', { resourceType: 'share_link', resourceParam: 'linkId' }), authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const linkId = z.string().uuid('Invalid share link ID').parse(req.params.linkId);
+    const { format, size } = qrCodeSchema.parse(req.query);
+    const patient = await getPatientForUser(req.user!.id);
+
+    const qrCode = await renderShareLinkQrCode(patient.id, linkId, format, size);
+
+    res.set('Cache-Control', 'private, no-store')
+      .type(format === 'svg' ? 'image/svg+xml' : 'image/png')
+      .send(qrCode);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Revoke a share link
+router.delete('/share-links/:linkId', audit('share_link_revoke', { resourceType: 'share_link', resourceParam: 'linkId' }), authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const linkId = z.string().uuid('Invalid share link ID').parse(req.params.linkId);
+    const patient = await getPatientForUser(req.user!.id);
+
+    const link = await revokeShareLink(patient.id, linkId);
+
+    res.json({
+      success: true,
+      data: link,
+      message: 'Share link revoked'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Emergency (break-glass) accesses to the patient's records and how they were reviewed
+router.get('/break-glass', authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { page, limit } = paginationSchema.parse(req.query);
+    const patient = await getPatientForUser(req.user!.id);
+
+    const events = await listBreakGlassEvents({ patientId: patient.id, page, limit });
+
+    res.json({
+      success: true,
+      ...events
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Who accessed the patient's records, with a per-provider summary. With
+// ?format=csv or json the whole filtered history is downloaded instead of a page.
+router.get('/access-history', authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { page, limit, format, action, ...query } = accessHistorySchema.parse(req.query);
+    const patient = await getPatientForUser(req.user!.id);
+    const filters = { ...query, actions: action };
+
+    if (!format) {
+      const history = await listAccessHistory(patient, filters, page, limit);
+
+      return res.json({
+        success: true,
+        ...history
+      });
+    }
+
+    const history = await exportAccessHistory(patient, filters);
+    const fileName = `access-history-${history.exportedAt.toISOString().slice(0, 10)}.${format}`;
+
+    res.attachment(fileName).set('Cache-Control', 'private, no-store');
+    if (format === 'csv') {
+      return res.type('text/csv').send(toAccessHistoryCsv(history.entries));
+    }
+    res.json(history);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
     next(error);
   }
 });
 
 // Get patient dashboard stats
-router.get('/dashboard', authenticateToken, requireRole(['patient']), async (req: AuthenticatedRequest, res, next) => {
+router.get('/dashboard', authenticateToken, authorize('patient:self'), async (req: AuthenticatedRequest, res, next) => {
   try {
     const userId = req.user!.id;
 
@@ -1,7 +1,14 @@
 import { Router } from 'express';
 import { z } from 'zod';
-import { authenticateToken, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { eq } from 'drizzle-orm';
+import { db, providers } from '@aarovia/database';
+import { authenticateToken, requireVerifiedEmail, AuthenticatedRequest } from '../middleware/auth';
+import { audit, auditedByService, setAuditContext } from '../middleware/audit';
+import { authorize, fromParam } from '../middleware/authorize';
 import { createError } from '../middleware/errorHandler';
+import { createAccessRequest, isValidRequestedDuration } from '../services/accessRequests';
+import { listPatientRecords } from '../services/records';
+import { breakGlass, getBreakGlassMaxHours } from '../services/breakGlass';
 
 const router = Router();
 
@@ -25,21 +32,58 @@ const providerRegistrationSchema = z.object({
   verificationDocuments: z.array(z.string()).optional()
 });
 
-// Register as healthcare provider
-router.post('/register', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+const accessRequestSchema = z.object({
+  patientId: z.string().uuid('Invalid patient ID'),
+  reason: z.string().trim().min(1, 'Reason is required').max(2000),
+  recordTypes: z.array(z.enum(['all', 'lab-report', 'imaging', 'prescription', 'consultation', 'other']))
+    .min(1)
+    .default(['all'])
+    .transform(types => (types.includes('all') ? ['all'] : [...new Set(types)])),
+  duration: z.string().refine(isValidRequestedDuration, 'Duration must be "permanent" or like 12h, 7d, 4w').default('7d')
+});
+
+const grantedRecordsSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  category: z.enum(['lab-report', 'imaging', 'prescription', 'consultation', 'other']).optional(),
+  tag: z.string().min(1).optional(),
+  sortBy: z.enum(['recordDate', 'createdAt']).default('recordDate'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc')
+});
+
+const breakGlassSchema = z.object({
+  patientId: z.string().uuid('Invalid patient ID'),
+  reason: z.enum(['patient_unconscious', 'patient_incapacitated', 'life_threatening', 'guardian_unreachable', 'other']),
+  clinicalContext: z.string().trim().min(20, 'Describe the clinical situation (at least 20 characters)').max(2000),
+  location: z.string().trim().min(1).max(255).optional(),
+  durationHours: z.number().int().min(1)
+    .refine(hours => hours <= getBreakGlassMaxHours(), 'durationHours exceeds the emergency access limit')
+    .optional(),
+  attestation: z.literal(true, {
+    errorMap: () => ({ message: 'You must attest that this is a genuine emergency' })
+  })
+});
+
+// Register as healthcare provider (links to the users row created by /api/auth/register)
+router.post('/register', audit('provider_register', { resourceType: 'provider' }), authenticateToken, authorize('provider:register'), requireVerifiedEmail, async (req: AuthenticatedRequest, res, next) => {
   try {
     const providerData = providerRegistrationSchema.parse(req.body);
     const userId = req.user!.id;
 
-    // TODO: Store in database with pending verification status
-    const newProvider = {
-      id: `provider_${Date.now()}`,
+    const existingProvider = await db.query.providers.findFirst({
+      where: eq(providers.userId, userId)
+    });
+
+    if (existingProvider) {
+      return next(createError('Provider profile already registered', 409, 'PROVIDER_EXISTS'));
+    }
+
+    const [newProvider] = await db.insert(providers).values({
       userId,
       ...providerData,
-      status: 'pending_verification',
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
+      status: 'pending_verification'
+    }).returning();
+    setAuditContext(res, { resourceId: newProvider.id });
 
     res.status(201).json({
       success: true,
@@ -55,7 +99,7 @@ router.post('/register', authenticateToken, async (req: AuthenticatedRequest, re
 });
 
 // Get provider profile
-router.get('/profile', authenticateToken, requireRole(['provider']), async (req: AuthenticatedRequest, res, next) => {
+router.get('/profile', authenticateToken, authorize('provider:self'), async (req: AuthenticatedRequest, res, next) => {
   try {
     const userId = req.user!.id;
 
@@ -94,7 +138,7 @@ router.get('/profile', authenticateToken, requireRole(['provider']), async (req:
 });
 
 // Get patients who have shared records with this provider
-router.get('/patients', authenticateToken, requireRole(['provider']), async (req: AuthenticatedRequest, res, next) => {
+router.get('/patients', authenticateToken, authorize('provider:self'), async (req: AuthenticatedRequest, res, next) => {
   try {
     const providerId = req.user!.id; // Assuming user ID maps to provider ID
 
@@ -131,61 +175,77 @@ router.get('/patients', authenticateToken, requireRole(['provider']), async (req
   }
 });
 
-// Request access to patient records
-router.post('/request-access', authenticateToken, requireRole(['provider']), async (req: AuthenticatedRequest, res, next) => {
+// Request access to patient records (one pending request per patient at a time)
+router.post('/request-access', audit('access_request_create', { resourceType: 'access_request' }), authenticateToken, authorize('provider:request-access'), async (req: AuthenticatedRequest, res, next) => {
   try {
-    const { patientId, reason, recordTypes, duration } = req.body;
-    const providerId = req.user!.id;
+    const input = accessRequestSchema.parse(req.body);
 
-    // TODO: Create access request in database
     // TODO: Send notification to patient
-    const accessRequest = {
-      id: `request_${Date.now()}`,
-      providerId,
-      patientId,
-      reason,
-      recordTypes: recordTypes || ['all'],
-      duration: duration || '7d',
-      status: 'pending',
-      createdAt: new Date()
-    };
+    const request = await createAccessRequest(req.user!.id, input);
+    setAuditContext(res, { resourceId: request.id, details: { patientId: request.patientId } });
 
     res.status(201).json({
       success: true,
-      data: accessRequest,
+      data: request,
       message: 'Access request sent to patient'
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
     next(error);
   }
 });
 
-// Get accessible patient records
-router.get('/records/:patientId', authenticateToken, requireRole(['provider']), async (req: AuthenticatedRequest, res, next) => {
+// Get accessible patient records: everything the provider's active grants cover,
+// including records matched by patient-wide, category and tag grants
+router.get('/records/:patientId', audit('read', { resourceType: 'patient', resourceParam: 'patientId' }), authenticateToken, authorize('patient:records:read', fromParam('patient', 'patientId')), async (req: AuthenticatedRequest, res, next) => {
   try {
     const { patientId } = req.params;
-    const providerId = req.user!.id;
+    const query = grantedRecordsSchema.parse(req.query);
 
-    // TODO: Check if provider has permission to access this patient's records
-    // TODO: Fetch records from database
+    let grantedTo: string | undefined;
+    if (req.authorization?.reason === 'grant') {
+      const provider = await db.query.providers.findFirst({
+        where: eq(providers.userId, req.user!.id)
+      });
+      grantedTo = provider!.id;
+    }
 
-    const mockRecords = [
-      {
-        id: 'record_1',
-        title: 'Blood Test Results',
-        category: 'lab-report',
-        date: '2024-01-15',
-        ipfsHash: 'QmXYZ123',
-        sharedAt: new Date(),
-        permissions: ['read']
-      }
-    ];
+    const page = await listPatientRecords(patientId, query, grantedTo);
 
     res.json({
       success: true,
-      data: mockRecords
+      ...page
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Break the glass: time-boxed emergency read access to a patient who cannot consent.
+// Always audited at high severity, notified to the patient and reviewed by an admin.
+router.post('/break-glass', auditedByService('break_glass'), authenticateToken, authorize('provider:break-glass'), requireVerifiedEmail, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { attestation, ...input } = breakGlassSchema.parse(req.body);
+
+    const event = await breakGlass(req.user!.id, input, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    res.status(201).json({
+      success: true,
+      data: event,
+      message: 'Emergency access granted. The patient has been notified and this access will be reviewed.'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
     next(error);
   }
 });
@@ -1,8 +1,17 @@
 import { Router } from 'express';
 import multer from 'multer';
 import { z } from 'zod';
-import { authenticateToken, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { eq } from 'drizzle-orm';
+import { db, medicalRecords } from '@aarovia/database';
+import { authenticateToken, requireVerifiedEmail, AuthenticatedRequest } from '../middleware/auth';
+import { AuditOptions, audit, setAuditContext } from '../middleware/audit';
+import { authorize, fromParam } from '../middleware/authorize';
+import { createRecord, listPatientRecords } from '../services/records';
+import { getWrappedKeyForUser } from '../services/recordKeys';
+import { revokeShare, shareRecord } from '../services/sharing';
+import { getPatientForUser } from '../services/users';
 import { createError } from '../middleware/errorHandler';
+import { sendRecordContent } from './content';
 
 const router = Router();
 
@@ -29,19 +38,51 @@ const upload = multer({
   }
 });
 
+const recordAudit: AuditOptions = { resourceType: 'medical_record', resourceParam: 'recordId', isRecord: true };
+
+const recordCategorySchema = z.enum(['lab-report', 'imaging', 'prescription', 'consultation', 'other']);
+
 const createRecordSchema = z.object({
   title: z.string().min(1, 'Title is required'),
   description: z.string().optional(),
-  category: z.enum(['lab-report', 'imaging', 'prescription', 'consultation', 'other']),
-  date: z.string(),
-  providerId: z.string().optional(),
-  tags: z.array(z.string()).optional()
+  category: recordCategorySchema,
+  date: z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Invalid record date'),
+  patientId: z.string().uuid().optional(),
+  providerId: z.string().uuid().optional(),
+  // Multipart forms send tags as a JSON array or a comma-separated string
+  tags: z.preprocess(
+    value => typeof value === 'string'
+      ? (value.trim().startsWith('[') ? JSON.parse(value) : value.split(',').map(tag => tag.trim()).filter(Boolean))
+      : value,
+    z.array(z.string())
+  ).optional()
 });
 
-// Upload medical record
+const listRecordsSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  category: recordCategorySchema.optional(),
+  providerId: z.string().uuid().optional(),
+  tag: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  search: z.string().trim().min(1).max(200).optional(),
+  sortBy: z.enum(['recordDate', 'createdAt']).default('recordDate'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc')
+}).refine(query => !query.from || !query.to || query.from <= query.to, 'from must be before to');
+
+const shareRecordSchema = z.object({
+  providerId: z.string().uuid('Invalid provider ID'),
+  permissions: z.array(z.enum(['read', 'write', 'share'])).min(1).default(['read'])
+    .transform(permissions => [...new Set(permissions)]),
+  expiresAt: z.coerce.date().refine(date => date > new Date(), 'expiresAt must be in the future').optional()
+});
+
+// Upload medical record: encrypt, store on IPFS, persist, anchor on chain
 router.post('/upload', 
+  audit('upload', { resourceType: 'medical_record', isRecord: true }),
   authenticateToken, 
-  requireRole(['patient', 'provider']), 
+  authorize('record:create'),
   upload.single('file'),
   async (req: AuthenticatedRequest, res, next) => {
     try {
@@ -50,88 +91,69 @@ router.post('/upload',
       }
 
       const recordData = createRecordSchema.parse(req.body);
-      const userId = req.user!.id;
-
-      // TODO: 
-      // 1. Encrypt file
-      // 2. Upload to IPFS/Filecoin
-      // 3. Store hash and metadata on blockchain
-      // 4. Save record info to database
-
-      const mockRecord = {
-        id: `record_${Date.now()}`,
-        userId,
-        ...recordData,
-        fileName: req.file.originalname,
-        fileSize: req.file.size,
-        fileMimeType: req.file.mimetype,
-        ipfsHash: `Qm${Math.random().toString(36).substring(2)}`, // Mock IPFS hash
-        blockchainTxHash: `0x${Math.random().toString(16).substring(2)}`, // Mock tx hash
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
+
+      const record = await createRecord(req.user!, req.file, recordData);
+      setAuditContext(res, { resourceId: record.id, recordId: record.id });
 
       res.status(201).json({
         success: true,
-        data: mockRecord
+        data: record
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return next(createError(error.errors[0].message, 400));
       }
+      if (error instanceof SyntaxError) {
+        return next(createError('Invalid tags', 400));
+      }
       next(error);
     }
   }
 );
 
 // Get patient's medical records
-router.get('/', authenticateToken, requireRole(['patient']), async (req: AuthenticatedRequest, res, next) => {
+router.get('/', authenticateToken, authorize('record:list'), async (req: AuthenticatedRequest, res, next) => {
   try {
-    const userId = req.user!.id;
-    const { category, page = 1, limit = 10 } = req.query;
-
-    // TODO: Fetch from database with pagination and filtering
-    const mockRecords = [
-      {
-        id: 'record_1',
-        title: 'Blood Test Results',
-        description: 'Complete Blood Count',
-        category: 'lab-report',
-        date: '2024-01-15',
-        fileName: 'blood-test-jan-2024.pdf',
-        fileSize: 524288,
-        ipfsHash: 'QmXYZ123',
-        createdAt: new Date('2024-01-15'),
-        provider: {
-          name: 'City Medical Lab'
-        }
-      },
-      {
-        id: 'record_2', 
-        title: 'Chest X-Ray',
-        description: 'Routine chest examination',
-        category: 'imaging',
-        date: '2024-01-10',
-        fileName: 'chest-xray.jpg',
-        fileSize: 2097152,
-        ipfsHash: 'QmABC456',
-        createdAt: new Date('2024-01-10'),
+    const query = listRecordsSchema.parse(req.query);
+
+    const patient = await getPatientForUser(req.user!.id);
+    const page = await listPatientRecords(patient.id, query);
+
+    res.json({
+      success: true,
+      ...page
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Get specific medical record
+router.get('/:recordId', audit('read', recordAudit), authenticateToken, authorize('record:read', fromParam('record', 'recordId')), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { recordId } = req.params;
+
+    const record = await db.query.medicalRecords.findFirst({
+      where: eq(medicalRecords.id, recordId),
+      with: {
         provider: {
-          name: 'General Hospital'
+          columns: { id: true, name: true }
         }
       }
-    ];
+    });
+
+    if (!record) {
+      return next(createError('Record not found', 404));
+    }
 
     res.json({
       success: true,
       data: {
-        records: mockRecords,
-        pagination: {
-          page: Number(page),
-          limit: Number(limit),
-          total: mockRecords.length,
-          totalPages: Math.ceil(mockRecords.length / Number(limit))
-        }
+        ...record,
+        wrappedKey: await getWrappedKeyForUser(recordId, req.user!.id)
       }
     });
   } catch (error) {
@@ -139,78 +161,64 @@ router.get('/', authenticateToken, requireRole(['patient']), async (req: Authent
   }
 });
 
-// Get specific medical record
-router.get('/:recordId', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+// Stream decrypted record content, honouring single byte-range requests
+router.get('/:recordId/content', audit('download', recordAudit), authenticateToken, authorize('record:read', fromParam('record', 'recordId')), async (req: AuthenticatedRequest, res, next) => {
   try {
     const { recordId } = req.params;
-    const userId = req.user!.id;
-
-    // TODO: Check permissions and fetch from database
-    const mockRecord = {
-      id: recordId,
-      title: 'Blood Test Results',
-      description: 'Complete Blood Count',
-      category: 'lab-report',
-      date: '2024-01-15',
-      fileName: 'blood-test-jan-2024.pdf',
-      fileSize: 524288,
-      ipfsHash: 'QmXYZ123',
-      downloadUrl: `https://ipfs.io/ipfs/QmXYZ123`,
-      createdAt: new Date('2024-01-15'),
-      provider: {
-        name: 'City Medical Lab',
-        id: 'provider_1'
-      },
-      sharedWith: []
-    };
 
-    res.json({
-      success: true,
-      data: mockRecord
+    const record = await db.query.medicalRecords.findFirst({
+      where: eq(medicalRecords.id, recordId)
     });
+
+    if (!record) {
+      return next(createError('Record not found', 404));
+    }
+
+    await sendRecordContent(req, res, record);
   } catch (error) {
     next(error);
   }
 });
 
 // Share record with provider
-router.post('/:recordId/share', authenticateToken, requireRole(['patient']), async (req: AuthenticatedRequest, res, next) => {
+router.post('/:recordId/share', audit('share', recordAudit), authenticateToken, authorize('record:share', fromParam('record', 'recordId')), requireVerifiedEmail, async (req: AuthenticatedRequest, res, next) => {
   try {
     const { recordId } = req.params;
-    const { providerId, expiresAt, permissions } = req.body;
-
-    // TODO: Create sharing smart contract or database entry
-    const shareData = {
-      id: `share_${Date.now()}`,
-      recordId,
-      providerId,
-      patientId: req.user!.id,
-      permissions: permissions || ['read'],
-      expiresAt: expiresAt ? new Date(expiresAt) : null,
-      createdAt: new Date()
-    };
+    const input = shareRecordSchema.parse(req.body);
+
+    const grant = await shareRecord(recordId, input);
+    setAuditContext(res, { details: { grantId: grant.id, providerId: grant.providerId, permissions: grant.permissions } });
 
     res.status(201).json({
       success: true,
-      data: shareData
+      data: grant
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
     next(error);
   }
 });
 
 // Revoke record sharing
-router.delete('/:recordId/share/:shareId', authenticateToken, requireRole(['patient']), async (req: AuthenticatedRequest, res, next) => {
+router.delete('/:recordId/share/:shareId', audit('revoke', recordAudit), authenticateToken, authorize('record:revoke', fromParam('record', 'recordId')), async (req: AuthenticatedRequest, res, next) => {
   try {
-    const { recordId, shareId } = req.params;
+    const { recordId } = req.params;
+    const shareId = z.string().uuid('Invalid share ID').parse(req.params.shareId);
+
+    const grant = await revokeShare(recordId, shareId);
+    setAuditContext(res, { details: { grantId: grant.id, providerId: grant.providerId } });
 
-    // TODO: Revoke sharing permissions in smart contract or database
-    
     res.json({
       success: true,
+      data: grant,
       message: 'Sharing permissions revoked'
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
     next(error);
   }
 });
@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { audit, auditedByService, setAuditContext } from '../middleware/audit';
+import { createError } from '../middleware/errorHandler';
+import { getSharedRecord, openShareLink } from '../services/shareLinks';
+import { sendRecordContent } from './content';
+
+// Public endpoints behind patient share links; the signed link token is the credential
+const router = Router();
+
+const openShareLinkSchema = z.object({
+  pin: z.string().max(8).optional()
+});
+
+// Open a share link: checks the PIN, uses up a view and returns the records with a view token
+router.post('/:token/open', auditedByService('share_link_view'), async (req, res, next) => {
+  try {
+    const { pin } = openShareLinkSchema.parse(req.body ?? {});
+
+    const view = await openShareLink(req.params.token, pin, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    res.json({
+      success: true,
+      data: view
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Stream a shared record through the normal download path (?view=<view token>)
+router.get('/:token/records/:recordId/content', audit('download', { resourceType: 'medical_record', resourceParam: 'recordId', isRecord: true }), async (req, res, next) => {
+  try {
+    const viewToken = z.string().min(1, 'View token is required').parse(req.query.view);
+    const recordId = z.string().uuid('Invalid record ID').parse(req.params.recordId);
+
+    const { link, record } = await getSharedRecord(req.params.token, viewToken, recordId);
+
+    setAuditContext(res, { details: { shareLinkId: link.id, patientId: link.patientId } });
+    await sendRecordContent(req, res, record);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+export { router as shareRoutes };
@@ -1,34 +1,48 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { audit, setAuditContext } from '../middleware/audit';
+import { createError } from '../middleware/errorHandler';
+import { getWalletInfo, submitSignedTransaction } from '../services/transactions';
+import { getRelayStatus, prepareGrantRelayRequest, relayRequest } from '../services/relay';
 // import { verifySignature, getWalletBalance } from '@medical-records/web3';
 
 const router = Router();
 
-// Get wallet information
+const submitTransactionSchema = z.object({
+  signedTransaction: z.string().regex(/^0x[0-9a-fA-F]+$/, 'signedTransaction must be a hex-encoded signed transaction'),
+  accessGrantId: z.string().uuid('Invalid grant ID').optional()
+});
+
+const address = (field: string) => z.string().regex(/^0x[0-9a-fA-F]{40}$/, `${field} must be an address`);
+const uint = (field: string) => z.string().regex(/^\d{1,78}$/, `${field} must be a decimal integer`).transform(BigInt);
+
+const relaySchema = z.object({
+  request: z.object({
+    from: address('from'),
+    to: address('to'),
+    value: uint('value'),
+    gas: uint('gas'),
+    nonce: uint('nonce'),
+    deadline: uint('deadline'),
+    data: z.string().regex(/^0x([0-9a-fA-F]{2})*$/, 'data must be hex-encoded calldata')
+  }),
+  signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/, 'signature must be a 65-byte hex signature'),
+  accessGrantId: z.string().uuid('Invalid grant ID').optional()
+});
+
+const prepareRelaySchema = z.object({
+  accessGrantId: z.string().uuid('Invalid grant ID')
+});
+
+// Get wallet information and transaction history
 router.get('/wallet', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
   try {
-    const walletAddress = req.user!.address;
-
-    // TODO: Get real wallet balance and transaction history
-    const mockWalletInfo = {
-      address: walletAddress,
-      balance: '1.5 ETH',
-      network: 'Ethereum Mainnet',
-      transactions: [
-        {
-          hash: '0x123...',
-          type: 'record_upload',
-          amount: '0.001 ETH',
-          timestamp: new Date(),
-          status: 'confirmed'
-        }
-      ]
-    };
+    const wallet = await getWalletInfo(req.user!);
 
     res.json({
       success: true,
-      data: mockWalletInfo
+      data: wallet
     });
   } catch (error) {
     next(error);
@@ -149,26 +163,86 @@ router.get('/ipfs-stats', authenticateToken, async (req: AuthenticatedRequest, r
   }
 });
 
-// Submit transaction to blockchain
-router.post('/submit-transaction', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+// Broadcast a transaction the user signed for one of the platform's contracts
+router.post('/submit-transaction', audit('transaction_submit', { resourceType: 'transaction' }), authenticateToken, async (req: AuthenticatedRequest, res, next) => {
   try {
-    const { transactionData, type } = req.body;
-
-    // TODO: Submit actual transaction to blockchain
-    const mockTransaction = {
-      hash: `0x${Math.random().toString(16).substring(2)}`,
-      type,
-      status: 'pending',
-      blockNumber: null,
-      gasUsed: null,
-      submittedAt: new Date()
-    };
+    const { signedTransaction, accessGrantId } = submitTransactionSchema.parse(req.body);
+
+    const transaction = await submitSignedTransaction(req.user!, signedTransaction, accessGrantId);
+
+    setAuditContext(res, {
+      recordId: transaction.recordId,
+      details: { hash: transaction.hash, type: transaction.type, accessGrantId: accessGrantId ?? null }
+    });
+    res.status(202).json({
+      success: true,
+      data: transaction
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Relayer, forwarder nonce and remaining gas budget for gasless requests
+router.get('/relay', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const status = await getRelayStatus(req.user!);
 
     res.json({
       success: true,
-      data: mockTransaction
+      data: status
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Typed data for the patient to sign to record one of their grants on chain
+router.post('/relay/prepare', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { accessGrantId } = prepareRelaySchema.parse(req.body);
+
+    const typedData = await prepareGrantRelayRequest(req.user!, accessGrantId);
+
+    res.json({
+      success: true,
+      data: typedData
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
+    next(error);
+  }
+});
+
+// Submit a signed meta-transaction through the trusted forwarder, paid for by the relayer
+router.post('/relay', audit('transaction_relay', { resourceType: 'transaction' }), authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { request, signature, accessGrantId } = relaySchema.parse(req.body);
+
+    const transaction = await relayRequest(req.user!, request, signature, accessGrantId);
+
+    setAuditContext(res, {
+      recordId: transaction.recordId,
+      details: {
+        hash: transaction.hash,
+        type: transaction.type,
+        forwardNonce: request.nonce.toString(),
+        accessGrantId: accessGrantId ?? null
+      }
+    });
+    res.status(202).json({
+      success: true,
+      data: transaction
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError(error.errors[0].message, 400));
+    }
     next(error);
   }
 });
@@ -0,0 +1,17 @@
+import dotenv from 'dotenv';
+import { rotateMasterKey } from '../services/recordKeys';
+
+dotenv.config();
+
+/**
+ * Rotate the master key and re-wrap every stored record data key under it
+ */
+rotateMasterKey()
+  .then(({ keyId, rewrapped }) => {
+    console.log(`Rotated master key to ${keyId}, re-wrapped ${rewrapped} record keys`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Master key rotation failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,53 @@
+import dotenv from 'dotenv';
+import { proveAuditEntry, verifyAuditChain } from '../services/auditChain';
+
+dotenv.config();
+
+/**
+ * Verify the audit log hash chain, or prove one entry's inclusion in an anchored batch:
+ *   npm run audit:verify [-- --from <sequence>] [--to <sequence>]
+ *   npm run audit:verify -- --entry <entry id>
+ */
+const getOption = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const getSequenceOption = (name: string): number | undefined => {
+  const value = getOption(name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const sequence = Number(value);
+  if (!Number.isInteger(sequence) || sequence < 1) {
+    throw new Error(`--${name} must be a positive sequence number`);
+  }
+  return sequence;
+};
+
+const run = async (): Promise<boolean> => {
+  const entryId = getOption('entry');
+
+  if (entryId) {
+    const proof = await proveAuditEntry(entryId);
+    console.log(JSON.stringify(proof, null, 2));
+    return proof.intact && proof.included && proof.onChain !== false;
+  }
+
+  const verification = await verifyAuditChain({ fromSequence: getSequenceOption('from'), toSequence: getSequenceOption('to') });
+  for (const problem of verification.problems) {
+    console.error(`Sequence ${problem.sequence}: ${problem.issue}${problem.entryId ? ` (entry ${problem.entryId})` : ''}${problem.anchorId ? ` (batch ${problem.anchorId})` : ''}`);
+  }
+  console.log(`Checked ${verification.entriesChecked} entries and ${verification.anchorsChecked} batches, head ${verification.headHash ?? 'none'}`);
+  return verification.valid;
+};
+
+run()
+  .then((valid) => {
+    console.log(valid ? 'Audit log verified' : 'Audit log verification FAILED');
+    process.exit(valid ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error('Audit log verification failed:', error);
+    process.exit(1);
+  });
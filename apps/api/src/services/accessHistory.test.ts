@@ -0,0 +1,45 @@
+import type { AccessHistoryEntry } from '@aarovia/types';
+
+describe('access history CSV export', () => {
+  let toAccessHistoryCsv: (entries: AccessHistoryEntry[]) => string;
+
+  beforeAll(async () => {
+    // The service pulls in the database client, which only needs a URL until the first query
+    process.env.DATABASE_URL ??= 'postgres://localhost:5432/aarovia_test';
+    ({ toAccessHistoryCsv } = await import('./accessHistory'));
+  });
+
+  it('writes a header and one row per entry', () => {
+    const csv = toAccessHistoryCsv([{
+      id: 'entry-1',
+      action: 'download',
+      severity: 'info',
+      actor: { type: 'provider', userId: 'user-1', providerId: 'provider-1', name: 'City Clinic' },
+      record: { id: 'record-1', title: 'Blood panel', category: 'lab-report' },
+      ipAddress: '203.0.113.7',
+      createdAt: new Date('2026-03-01T10:00:00Z')
+    }]);
+
+    expect(csv.split('\r\n')).toEqual([
+      'createdAt,action,severity,actorType,providerId,providerName,userId,recordId,recordTitle,recordCategory,ipAddress,userAgent',
+      '2026-03-01T10:00:00.000Z,download,info,provider,provider-1,City Clinic,user-1,record-1,Blood panel,lab-report,203.0.113.7,',
+      ''
+    ]);
+  });
+
+  it('quotes separators and defuses spreadsheet formulas', () => {
+    const csv = toAccessHistoryCsv([{
+      id: 'entry-2',
+      action: 'read',
+      severity: 'info',
+      actor: { type: 'anonymous' },
+      record: { id: 'record-2', title: 'X-ray, "left" knee', category: 'imaging' },
+      userAgent: '=HYPERLINK("http://example.com")',
+      createdAt: new Date('2026-03-01T10:00:00Z')
+    }]);
+
+    const [, row] = csv.split('\r\n');
+    expect(row).toContain('"X-ray, ""left"" knee"');
+    expect(row.endsWith('"\'=HYPERLINK(""http://example.com"")"')).toBe(true);
+  });
+});
@@ -0,0 +1,224 @@
+import { SQL, and, desc, eq, gte, inArray, isNotNull, isNull, lte, ne, or, sql } from 'drizzle-orm';
+import { db, auditLogs, medicalRecords, providers, Patient } from '@aarovia/database';
+import { AccessHistoryEntry, PaginationResponse, ProviderAccessSummary } from '@aarovia/types';
+import { listPatientGrants } from './sharing';
+
+export interface AccessHistoryFilters {
+  recordId?: string;
+  providerId?: string;
+  actions?: string[];
+  from?: Date;
+  to?: Date;
+}
+
+// Actions that count as a provider viewing a record
+const VIEW_ACTIONS = ['read', 'download'];
+const EXPORT_LIMIT = 10000;
+
+const CSV_COLUMNS = [
+  'createdAt', 'action', 'severity', 'actorType', 'providerId', 'providerName', 'userId',
+  'recordId', 'recordTitle', 'recordCategory', 'ipAddress', 'userAgent'
+] as const;
+
+// The record an entry is about: its record link, or the resource itself for denied record access
+const entryRecordId = sql`coalesce(${auditLogs.recordId}, case when ${auditLogs.resourceType} = 'medical_record' then ${auditLogs.resourceId} end)`;
+
+const historyColumns = {
+  id: auditLogs.id,
+  action: auditLogs.action,
+  severity: auditLogs.severity,
+  userId: auditLogs.userId,
+  details: auditLogs.details,
+  ipAddress: auditLogs.ipAddress,
+  userAgent: auditLogs.userAgent,
+  createdAt: auditLogs.createdAt,
+  recordId: medicalRecords.id,
+  recordTitle: medicalRecords.title,
+  recordCategory: medicalRecords.category,
+  providerId: providers.id,
+  providerName: providers.name
+};
+
+/**
+ * Entries about the patient or their records written by anyone but the
+ * patient: provider reads and downloads, denied attempts, emergency access,
+ * share link views and emergency card lookups
+ */
+const historyWhere = (patient: Pick<Patient, 'id' | 'userId'>, filters: AccessHistoryFilters): SQL | undefined => and(
+  or(
+    eq(medicalRecords.patientId, patient.id),
+    and(eq(auditLogs.resourceType, 'patient'), eq(auditLogs.resourceId, patient.id)),
+    and(eq(auditLogs.resourceType, 'share_link'), sql`${auditLogs.details}->>'patientId' = ${patient.id}`)
+  ),
+  or(isNull(auditLogs.userId), ne(auditLogs.userId, patient.userId)),
+  filters.recordId ? eq(medicalRecords.id, filters.recordId) : undefined,
+  filters.providerId ? eq(providers.id, filters.providerId) : undefined,
+  filters.actions?.length ? inArray(auditLogs.action, filters.actions) : undefined,
+  filters.from ? gte(auditLogs.createdAt, filters.from) : undefined,
+  filters.to ? lte(auditLogs.createdAt, filters.to) : undefined
+);
+
+const selectHistory = (where: SQL | undefined) => {
+  return db
+    .select(historyColumns)
+    .from(auditLogs)
+    .leftJoin(medicalRecords, eq(medicalRecords.id, entryRecordId))
+    .leftJoin(providers, eq(providers.userId, auditLogs.userId))
+    .where(where)
+    .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id));
+};
+
+type HistoryRow = Awaited<ReturnType<typeof selectHistory>>[number];
+
+const toAccessHistoryEntry = (row: HistoryRow): AccessHistoryEntry => ({
+  id: row.id,
+  action: row.action,
+  severity: row.severity,
+  actor: {
+    type: row.providerId ? 'provider' : row.userId ? 'user' : 'anonymous',
+    userId: row.userId ?? undefined,
+    providerId: row.providerId ?? undefined,
+    name: row.providerName ?? undefined
+  },
+  record: row.recordId
+    ? { id: row.recordId, title: row.recordTitle!, category: row.recordCategory! }
+    : undefined,
+  ipAddress: row.ipAddress ?? undefined,
+  userAgent: row.userAgent ?? undefined,
+  details: (row.details as Record<string, unknown> | null) ?? undefined,
+  createdAt: row.createdAt
+});
+
+/**
+ * Per provider: last access and view counts within the filters, plus the
+ * provider's currently active grants. Providers holding a grant they have not
+ * used yet are listed too.
+ */
+const summarizeProviders = async (
+  patient: Pick<Patient, 'id' | 'userId'>,
+  filters: AccessHistoryFilters
+): Promise<ProviderAccessSummary[]> => {
+  const [accessed, grants] = await Promise.all([
+    db
+      .select({
+        id: providers.id,
+        name: providers.name,
+        type: providers.type,
+        lastAccessAt: sql<Date>`max(${auditLogs.createdAt})`.mapWith(auditLogs.createdAt),
+        views: sql<number>`(count(*) filter (where ${inArray(auditLogs.action, VIEW_ACTIONS)}))::int`,
+        accesses: sql<number>`count(*)::int`
+      })
+      .from(auditLogs)
+      .leftJoin(medicalRecords, eq(medicalRecords.id, entryRecordId))
+      .innerJoin(providers, eq(providers.userId, auditLogs.userId))
+      .where(and(historyWhere(patient, filters), isNotNull(providers.id)))
+      .groupBy(providers.id)
+      .orderBy(desc(sql`max(${auditLogs.createdAt})`)),
+    listPatientGrants(patient.id)
+  ]);
+
+  const summaries = new Map<string, ProviderAccessSummary>(accessed.map(({ lastAccessAt, views, accesses, ...provider }) => [
+    provider.id,
+    { provider, lastAccessAt, views, accesses, activeGrants: [] }
+  ]));
+
+  for (const { provider, ...grant } of grants) {
+    if (filters.providerId && provider.id !== filters.providerId) {
+      continue;
+    }
+    const summary = summaries.get(provider.id)
+      ?? { provider, views: 0, accesses: 0, activeGrants: [] };
+    summary.activeGrants.push(grant);
+    summaries.set(provider.id, summary);
+  }
+
+  return [...summaries.values()];
+};
+
+/**
+ * One page of who accessed the patient's records, newest first, with the
+ * per-provider summary for the same filters
+ */
+export const listAccessHistory = async (
+  patient: Pick<Patient, 'id' | 'userId'>,
+  filters: AccessHistoryFilters,
+  page: number,
+  limit: number
+): Promise<PaginationResponse<AccessHistoryEntry> & { summary: ProviderAccessSummary[] }> => {
+  const where = historyWhere(patient, filters);
+
+  const [rows, [{ total }], summary] = await Promise.all([
+    selectHistory(where).limit(limit).offset((page - 1) * limit),
+    db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(auditLogs)
+      .leftJoin(medicalRecords, eq(medicalRecords.id, entryRecordId))
+      .leftJoin(providers, eq(providers.userId, auditLogs.userId))
+      .where(where),
+    summarizeProviders(patient, filters)
+  ]);
+
+  return {
+    data: rows.map(toAccessHistoryEntry),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    },
+    summary
+  };
+};
+
+/**
+ * The whole filtered history (up to the export limit) with its summary
+ */
+export const exportAccessHistory = async (
+  patient: Pick<Patient, 'id' | 'userId'>,
+  filters: AccessHistoryFilters
+) => {
+  const [rows, summary] = await Promise.all([
+    selectHistory(historyWhere(patient, filters)).limit(EXPORT_LIMIT),
+    summarizeProviders(patient, filters)
+  ]);
+
+  return {
+    exportedAt: new Date(),
+    entries: rows.map(toAccessHistoryEntry),
+    summary,
+    truncated: rows.length === EXPORT_LIMIT
+  };
+};
+
+/**
+ * Quote a CSV cell, defusing values a spreadsheet would run as a formula
+ */
+const csvCell = (value: unknown): string => {
+  let text = value instanceof Date ? value.toISOString() : value === undefined || value === null ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toAccessHistoryCsv = (entries: AccessHistoryEntry[]): string => {
+  const lines = entries.map((entry) => {
+    const cells: Record<typeof CSV_COLUMNS[number], unknown> = {
+      createdAt: entry.createdAt,
+      action: entry.action,
+      severity: entry.severity,
+      actorType: entry.actor.type,
+      providerId: entry.actor.providerId,
+      providerName: entry.actor.name,
+      userId: entry.actor.userId,
+      recordId: entry.record?.id,
+      recordTitle: entry.record?.title,
+      recordCategory: entry.record?.category,
+      ipAddress: entry.ipAddress,
+      userAgent: entry.userAgent
+    };
+    return CSV_COLUMNS.map(column => csvCell(cells[column])).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+};
@@ -0,0 +1,83 @@
+const mockInsert = jest.fn();
+const mockUpdate = jest.fn();
+const mockFindPending = jest.fn();
+const mockFindGrants = jest.fn();
+const mockTx = {
+  update: mockUpdate,
+  insert: mockInsert,
+  query: {
+    providers: { findFirst: jest.fn().mockResolvedValue({ id: 'provider-1', status: 'verified', user: { address: '0x01' } }) },
+    accessGrants: { findMany: mockFindGrants }
+  }
+};
+
+jest.mock('@aarovia/database', () => ({
+  db: {
+    query: {
+      providers: { findFirst: jest.fn().mockResolvedValue({ id: 'provider-1', status: 'verified' }) },
+      patients: { findFirst: jest.fn().mockResolvedValue({ id: 'patient-1' }) },
+      accessRequests: { findFirst: mockFindPending }
+    },
+    insert: mockInsert,
+    transaction: (work: (tx: typeof mockTx) => Promise<unknown>) => work(mockTx)
+  },
+  accessGrants: {},
+  accessRequests: {},
+  providers: {},
+  patients: {}
+}));
+
+import { approveAccessRequest, createAccessRequest } from './accessRequests';
+
+describe('access requests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('refuses a repeat request while one is pending instead of changing it', async () => {
+    mockFindPending.mockResolvedValue({ id: 'request-1' });
+
+    await expect(createAccessRequest('user-1', {
+      patientId: 'patient-1',
+      reason: 'Follow-up',
+      recordTypes: ['all'],
+      duration: 'permanent'
+    })).rejects.toMatchObject({ statusCode: 409, code: 'REQUEST_PENDING' });
+
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+
+  it('does not grant a scope the patient already shared again', async () => {
+    const updatedAt = new Date('2026-03-01T10:00:00.000Z');
+    mockUpdate.mockReturnValue({
+      set: () => ({
+        where: () => ({
+          returning: async () => [{
+            id: 'request-1',
+            patientId: 'patient-1',
+            providerId: 'provider-1',
+            reason: 'Follow-up',
+            recordTypes: ['all'],
+            requestedDuration: 'permanent',
+            status: 'approved',
+            createdAt: updatedAt,
+            updatedAt
+          }]
+        })
+      })
+    });
+    mockFindGrants.mockResolvedValue([{
+      scope: 'patient',
+      recordId: null,
+      category: null,
+      tag: null,
+      isRevoked: false,
+      expiresAt: null
+    }]);
+
+    const { grants } = await approveAccessRequest('patient-1', 'request-1');
+
+    expect(grants).toEqual([]);
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,262 @@
+import { and, desc, eq, gte, sql } from 'drizzle-orm';
+import {
+  db,
+  accessGrants,
+  accessRequests,
+  patients,
+  providers,
+  AccessGrant as AccessGrantRow,
+  AccessRequest as AccessRequestRow,
+  NewAccessGrant
+} from '@aarovia/database';
+import { AccessGrant, AccessRequest } from '@aarovia/types';
+import { createError } from '../middleware/errorHandler';
+import { activateGrant, hasActiveDuplicateGrant, toAccessGrant } from './sharing';
+
+const REQUEST_LIMIT_WINDOW_MS = 24 * 60 * 60 * 1000;
+const DURATION_UNITS_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+export interface CreateAccessRequestInput {
+  patientId: string;
+  reason: string;
+  recordTypes: string[];
+  duration: string;
+}
+
+/**
+ * Whether a requested duration is "permanent" or a count of hours, days or weeks (e.g. "7d")
+ */
+export const isValidRequestedDuration = (duration: string): boolean => {
+  return duration === 'permanent' || /^[1-9]\d{0,3}[hdw]$/.test(duration);
+};
+
+/**
+ * Expiry for a requested duration, or null for permanent access
+ */
+export const parseRequestedDuration = (duration: string, from: Date = new Date()): Date | null => {
+  if (duration === 'permanent') {
+    return null;
+  }
+  if (!isValidRequestedDuration(duration)) {
+    throw new Error(`Invalid requested duration: ${duration}`);
+  }
+
+  const amount = Number(duration.slice(0, -1));
+  return new Date(from.getTime() + amount * DURATION_UNITS_MS[duration.slice(-1)]);
+};
+
+/**
+ * Shape a database row as the shared AccessRequest type
+ */
+export const toAccessRequest = (row: AccessRequestRow): AccessRequest => ({
+  id: row.id,
+  patientId: row.patientId,
+  providerId: row.providerId,
+  reason: row.reason,
+  recordTypes: row.recordTypes ?? undefined,
+  requestedDuration: row.requestedDuration ?? undefined,
+  status: row.status,
+  responseMessage: row.responseMessage ?? undefined,
+  respondedAt: row.respondedAt ?? undefined,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt
+});
+
+const getRequestLimit = (): number => Number(process.env.ACCESS_REQUEST_DAILY_LIMIT || 20);
+
+/**
+ * Create a provider's access request. A pending request is never changed, so
+ * the patient approves exactly the terms they saw; a provider with a request
+ * still pending for the patient must wait for an answer.
+ */
+export const createAccessRequest = async (
+  providerUserId: string,
+  input: CreateAccessRequestInput
+): Promise<AccessRequest> => {
+  const provider = await db.query.providers.findFirst({
+    where: eq(providers.userId, providerUserId)
+  });
+
+  if (!provider) {
+    throw createError('Provider profile not found', 404, 'PROVIDER_PROFILE_NOT_FOUND');
+  }
+  if (provider.status !== 'verified') {
+    throw createError('Only verified providers can request access', 403, 'PROVIDER_NOT_VERIFIED');
+  }
+
+  const patient = await db.query.patients.findFirst({
+    where: eq(patients.id, input.patientId)
+  });
+
+  if (!patient) {
+    throw createError('Patient not found', 404, 'PATIENT_NOT_FOUND');
+  }
+
+  const pending = await db.query.accessRequests.findFirst({
+    where: and(
+      eq(accessRequests.patientId, patient.id),
+      eq(accessRequests.providerId, provider.id),
+      eq(accessRequests.status, 'pending')
+    ),
+    columns: { id: true }
+  });
+
+  if (pending) {
+    throw createError('An access request to this patient is already pending', 409, 'REQUEST_PENDING');
+  }
+
+  const [{ recent }] = await db
+    .select({ recent: sql<number>`count(*)::int` })
+    .from(accessRequests)
+    .where(and(
+      eq(accessRequests.providerId, provider.id),
+      gte(accessRequests.createdAt, new Date(Date.now() - REQUEST_LIMIT_WINDOW_MS))
+    ));
+
+  if (recent >= getRequestLimit()) {
+    throw createError('Too many access requests, try again later', 429, 'ACCESS_REQUEST_LIMIT');
+  }
+
+  try {
+    const [request] = await db.insert(accessRequests).values({
+      patientId: patient.id,
+      providerId: provider.id,
+      reason: input.reason,
+      recordTypes: input.recordTypes,
+      requestedDuration: input.duration
+    }).returning();
+
+    return toAccessRequest(request);
+  } catch (error) {
+    // A concurrent request won the race for the pending slot
+    if ((error as { code?: string }).code === '23505') {
+      throw createError('An access request to this patient is already pending', 409, 'REQUEST_PENDING');
+    }
+    throw error;
+  }
+};
+
+/**
+ * A patient's access requests, newest first, with the requesting provider
+ */
+export const listAccessRequests = async (
+  patientId: string,
+  status: AccessRequestRow['status']
+) => {
+  const rows = await db.query.accessRequests.findMany({
+    where: and(eq(accessRequests.patientId, patientId), eq(accessRequests.status, status)),
+    with: {
+      provider: {
+        columns: { id: true, name: true, type: true, status: true }
+      }
+    },
+    orderBy: [desc(accessRequests.createdAt)]
+  });
+
+  return rows.map(row => ({ ...toAccessRequest(row), provider: row.provider }));
+};
+
+/**
+ * Move a pending request to approved or denied. Only one response can win.
+ */
+const respond = async (
+  tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+  patientId: string,
+  requestId: string,
+  status: 'approved' | 'denied',
+  responseMessage?: string
+): Promise<AccessRequestRow> => {
+  const [request] = await tx.update(accessRequests)
+    .set({ status, responseMessage, respondedAt: new Date(), updatedAt: new Date() })
+    .where(and(
+      eq(accessRequests.id, requestId),
+      eq(accessRequests.patientId, patientId),
+      eq(accessRequests.status, 'pending')
+    ))
+    .returning();
+
+  if (request) {
+    return request;
+  }
+
+  const existing = await tx.query.accessRequests.findFirst({
+    where: and(eq(accessRequests.id, requestId), eq(accessRequests.patientId, patientId))
+  });
+
+  if (!existing) {
+    throw createError('Access request not found', 404, 'REQUEST_NOT_FOUND');
+  }
+  throw createError(`Access request is already ${existing.status}`, 409, 'REQUEST_NOT_PENDING');
+};
+
+export const denyAccessRequest = async (
+  patientId: string,
+  requestId: string,
+  responseMessage?: string
+): Promise<AccessRequest> => {
+  return toAccessRequest(await db.transaction(tx => respond(tx, patientId, requestId, 'denied', responseMessage)));
+};
+
+/**
+ * Approve a request with standing read grants for the requested duration: one
+ * patient-wide grant for "all", otherwise one per requested category. The
+ * grants are scoped, so records uploaded later are covered too. Scopes an
+ * active grant already covers get no second grant.
+ */
+export const approveAccessRequest = async (
+  patientId: string,
+  requestId: string,
+  responseMessage?: string
+): Promise<{ request: AccessRequest; grants: AccessGrant[] }> => {
+  const { request, provider, created } = await db.transaction(async (tx) => {
+    const approved = await respond(tx, patientId, requestId, 'approved', responseMessage);
+
+    const requester = await tx.query.providers.findFirst({
+      where: eq(providers.id, approved.providerId),
+      with: {
+        user: {
+          columns: { address: true }
+        }
+      }
+    });
+
+    if (!requester || requester.status !== 'verified') {
+      throw createError('Provider is no longer verified', 409, 'PROVIDER_NOT_VERIFIED');
+    }
+
+    const recordTypes = approved.recordTypes?.length ? approved.recordTypes : ['all'];
+    const expiresAt = parseRequestedDuration(approved.requestedDuration ?? 'permanent');
+    const base = { patientId, providerId: requester.id, permissions: ['read'], expiresAt };
+
+    const requested = recordTypes.includes('all')
+      ? [{ ...base, scope: 'patient' as const }]
+      : recordTypes.map(category => ({
+        ...base,
+        scope: 'category' as const,
+        category: category as NonNullable<AccessGrantRow['category']>
+      }));
+
+    // Scopes the patient already shared stay with their existing grant
+    const missing: NewAccessGrant[] = [];
+    for (const values of requested) {
+      if (!await hasActiveDuplicateGrant(values, tx)) {
+        missing.push(values);
+      }
+    }
+
+    const inserted = missing.length ? await tx.insert(accessGrants).values(missing).returning() : [];
+
+    return { request: approved, provider: requester, created: inserted };
+  });
+
+  const grants: AccessGrant[] = [];
+  for (const grant of created) {
+    grants.push(toAccessGrant(await activateGrant(grant, provider)));
+  }
+
+  return { request: toAccessRequest(request), grants };
+};
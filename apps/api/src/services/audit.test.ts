@@ -0,0 +1,47 @@
+import type { AuditLog } from '@aarovia/database';
+
+const mockInsertValues = jest.fn().mockResolvedValue(undefined);
+const mockHead = { sequence: 41, hash: 'a'.repeat(64) };
+const mockTx = {
+  execute: jest.fn().mockResolvedValue([]),
+  select: () => ({ from: () => ({ orderBy: () => ({ limit: () => Promise.resolve([mockHead]) }) }) }),
+  insert: () => ({ values: mockInsertValues })
+};
+
+jest.mock('@aarovia/database', () => ({
+  db: { transaction: (work: (executor: typeof mockTx) => Promise<void>) => work(mockTx) },
+  auditLogs: {}
+}));
+
+import { hashAuditEntry, writeAuditLog } from './audit';
+
+describe('hash-chained audit log', () => {
+  beforeEach(() => {
+    mockInsertValues.mockClear();
+  });
+
+  it('links new entries onto the chain head', async () => {
+    await writeAuditLog([
+      { action: 'read', resourceType: 'medical_record', details: { at: new Date('2026-01-01T00:00:00Z') } },
+      { action: 'share', resourceType: 'access_grant', severity: 'warning' }
+    ]);
+
+    expect(mockTx.execute).toHaveBeenCalled();
+    const [[first, second]] = mockInsertValues.mock.calls[0] as [AuditLog, AuditLog][];
+
+    expect(first).toMatchObject({ sequence: 42, previousHash: mockHead.hash, severity: 'info', details: { at: '2026-01-01T00:00:00.000Z' } });
+    expect(second).toMatchObject({ sequence: 43, previousHash: first.hash, severity: 'warning', details: null });
+    expect(hashAuditEntry(first)).toBe(first.hash);
+    expect(hashAuditEntry(second)).toBe(second.hash);
+  });
+
+  it('hashes details regardless of key order but notices any change', async () => {
+    await writeAuditLog({ action: 'read', resourceType: 'medical_record', details: { a: 1, b: { c: 2, d: [3] } } });
+    const [[entry]] = mockInsertValues.mock.calls[0] as [AuditLog][];
+
+    expect(hashAuditEntry({ ...entry, details: { b: { d: [3], c: 2 }, a: 1 } })).toBe(entry.hash);
+    expect(hashAuditEntry({ ...entry, details: { a: 1, b: { c: 2, d: [4] } } })).not.toBe(entry.hash);
+    expect(hashAuditEntry({ ...entry, action: 'delete' })).not.toBe(entry.hash);
+    expect(hashAuditEntry({ ...entry, previousHash: 'b'.repeat(64) })).not.toBe(entry.hash);
+  });
+});
@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { desc, sql } from 'drizzle-orm';
+import { db, auditLogs, AuditLog, NewAuditLog } from '@aarovia/database';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Chain fields are filled in when the entry is appended
+export type AuditEntry = Omit<NewAuditLog, 'id' | 'sequence' | 'previousHash' | 'hash' | 'createdAt'>;
+
+type HashedFields = Pick<
+  AuditLog,
+  'sequence' | 'previousHash' | 'createdAt' | 'userId' | 'recordId' | 'action' | 'severity' | 'resourceType' | 'resourceId' | 'details' | 'ipAddress' | 'userAgent'
+>;
+
+// previousHash of the first entry
+export const GENESIS_HASH = '0'.repeat(64);
+
+const CHAIN_LOCK = 'aarovia:audit-chain';
+
+/**
+ * JSON with object keys sorted at every level. jsonb does not keep key order,
+ * so hashes must not depend on it.
+ */
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * SHA-256 over the entry's fields and the previous entry's hash
+ */
+export const hashAuditEntry = (entry: HashedFields): string => {
+  const payload = canonicalJson({
+    sequence: entry.sequence,
+    previousHash: entry.previousHash,
+    createdAt: entry.createdAt.toISOString(),
+    userId: entry.userId,
+    recordId: entry.recordId,
+    action: entry.action,
+    severity: entry.severity,
+    resourceType: entry.resourceType,
+    resourceId: entry.resourceId,
+    details: entry.details,
+    ipAddress: entry.ipAddress,
+    userAgent: entry.userAgent
+  });
+
+  return crypto.createHash('sha256').update(payload).digest('hex');
+};
+
+/**
+ * Link the entries onto the end of the chain. The lock serializes writers until
+ * the transaction commits, so sequence numbers become visible in order.
+ */
+const appendEntries = async (tx: Transaction, entries: AuditEntry[]): Promise<void> => {
+  await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${CHAIN_LOCK}))`);
+
+  const [head] = await tx
+    .select({ sequence: auditLogs.sequence, hash: auditLogs.hash })
+    .from(auditLogs)
+    .orderBy(desc(auditLogs.sequence))
+    .limit(1);
+
+  let sequence = head?.sequence ?? 0;
+  let previousHash = head?.hash ?? GENESIS_HASH;
+  const createdAt = new Date();
+
+  const values = entries.map((entry) => {
+    const fields: HashedFields = {
+      sequence: ++sequence,
+      previousHash,
+      createdAt,
+      userId: entry.userId ?? null,
+      recordId: entry.recordId ?? null,
+      action: entry.action,
+      severity: entry.severity ?? 'info',
+      resourceType: entry.resourceType,
+      resourceId: entry.resourceId ?? null,
+      // Stored exactly as hashed: dates become strings, undefined fields drop out
+      details: entry.details === undefined || entry.details === null ? null : JSON.parse(JSON.stringify(entry.details)),
+      ipAddress: entry.ipAddress ?? null,
+      userAgent: entry.userAgent ?? null
+    };
+    previousHash = hashAuditEntry(fields);
+    return { ...fields, hash: previousHash };
+  });
+
+  await tx.insert(auditLogs).values(values);
+};
+
+/**
+ * Append entries to the hash-chained audit log, optionally inside the
+ * caller's transaction (which then holds the chain lock until it ends)
+ */
+export const writeAuditLog = async (
+  entries: AuditEntry | AuditEntry[],
+  executor: typeof db | Transaction = db
+): Promise<void> => {
+  const values = Array.isArray(entries) ? entries : [entries];
+  if (!values.length) {
+    return;
+  }
+
+  if (executor === db) {
+    await db.transaction(tx => appendEntries(tx, values));
+  } else {
+    await appendEntries(executor as Transaction, values);
+  }
+};
+
+/**
+ * Fire-and-forget write for request paths: a failing audit write is logged
+ * but never delays or breaks the response
+ */
+export const queueAuditLog = (entries: AuditEntry | AuditEntry[]): void => {
+  writeAuditLog(entries).catch((error) => {
+    console.error('Failed to write audit log:', error);
+  });
+};
@@ -0,0 +1,382 @@
+import { and, asc, desc, eq, gt, gte, isNotNull, isNull, lt, lte, or } from 'drizzle-orm';
+import { db, auditAnchors, auditLogs, AuditAnchor as AuditAnchorRow, AuditLog } from '@aarovia/database';
+import { AuditAnchor, AuditChainProblem, AuditChainVerification, AuditEntryProof } from '@aarovia/types';
+import { ethers, computeMerkleRoot, getMerkleProof, hashMerkleLeaf, verifyMerkleProof } from '@aarovia/web3';
+import { createError } from '../middleware/errorHandler';
+import { GENESIS_HASH, hashAuditEntry } from './audit';
+import { getMedicalRecordsContract, getServerSigner, isChainConfigured, waitForConfirmation } from './chain';
+import { Job, runExclusive } from './scheduler';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const BATCH_SIZE = Number(process.env.AUDIT_ANCHOR_BATCH_SIZE || 1000);
+const VERIFY_PAGE_SIZE = 1000;
+const MAX_PROBLEMS = 100;
+// A claimed batch that never got a transaction hash is retried after this
+const RESUBMIT_AFTER_MS = 10 * 60 * 1000;
+
+interface ChainLink {
+  sequence: number;
+  hash: string;
+}
+
+/**
+ * Shape a database row as the shared AuditAnchor type
+ */
+export const toAuditAnchor = (row: AuditAnchorRow): AuditAnchor => ({
+  id: row.id,
+  fromSequence: row.fromSequence,
+  toSequence: row.toSequence,
+  entryCount: row.entryCount,
+  merkleRoot: row.merkleRoot,
+  status: row.status,
+  transactionHash: row.transactionHash ?? undefined,
+  anchoredAt: row.anchoredAt ?? undefined,
+  createdAt: row.createdAt
+});
+
+/**
+ * Merkle leaf for an entry's chain hash
+ */
+export const getAuditLeaf = (hash: string): string => hashMerkleLeaf(`0x${hash}`);
+
+/**
+ * Check entries (in sequence order) against each other and against the entry
+ * before them. Without `previous` the first entry's link is taken on trust.
+ */
+const checkEntries = (entries: AuditLog[], previous?: ChainLink): AuditChainProblem[] => {
+  const problems: AuditChainProblem[] = [];
+  let last = previous;
+
+  for (const entry of entries) {
+    if (last && entry.sequence !== last.sequence + 1) {
+      problems.push({ sequence: entry.sequence, entryId: entry.id, issue: 'sequence_gap' });
+    } else if (last && entry.previousHash !== last.hash) {
+      problems.push({ sequence: entry.sequence, entryId: entry.id, issue: 'broken_link' });
+    }
+    if (hashAuditEntry(entry) !== entry.hash) {
+      problems.push({ sequence: entry.sequence, entryId: entry.id, issue: 'hash_mismatch' });
+    }
+    last = entry;
+  }
+
+  return problems;
+};
+
+/**
+ * The link an entry at `sequence` must follow: the genesis hash for the first
+ * entry, otherwise the stored entry before it (undefined if that is missing)
+ */
+const getPreviousLink = async (executor: typeof db | Transaction, sequence: number): Promise<ChainLink | undefined> => {
+  if (sequence <= 1) {
+    return { sequence: 0, hash: GENESIS_HASH };
+  }
+
+  const [previous] = await executor
+    .select({ sequence: auditLogs.sequence, hash: auditLogs.hash })
+    .from(auditLogs)
+    .where(eq(auditLogs.sequence, sequence - 1));
+
+  return previous;
+};
+
+const getBatchHashes = async (anchor: Pick<AuditAnchorRow, 'fromSequence' | 'toSequence'>) => {
+  return db
+    .select({ sequence: auditLogs.sequence, hash: auditLogs.hash })
+    .from(auditLogs)
+    .where(and(gte(auditLogs.sequence, anchor.fromSequence), lte(auditLogs.sequence, anchor.toSequence)))
+    .orderBy(asc(auditLogs.sequence));
+};
+
+/**
+ * Record a Merkle root over the entries since the last batch. A broken chain
+ * is never anchored, since that would vouch for the tampered entries.
+ */
+const createAnchorBatch = async (tx: Transaction): Promise<AuditAnchorRow | undefined> => {
+  const [lastAnchor] = await tx
+    .select({ toSequence: auditAnchors.toSequence })
+    .from(auditAnchors)
+    .orderBy(desc(auditAnchors.toSequence))
+    .limit(1);
+
+  const afterSequence = lastAnchor?.toSequence ?? 0;
+  const entries = await tx
+    .select()
+    .from(auditLogs)
+    .where(gt(auditLogs.sequence, afterSequence))
+    .orderBy(asc(auditLogs.sequence))
+    .limit(BATCH_SIZE);
+
+  if (!entries.length) {
+    return undefined;
+  }
+
+  const previous = await getPreviousLink(tx, afterSequence + 1);
+  if (!previous) {
+    throw new Error(`Audit entry ${afterSequence} is missing, not anchoring`);
+  }
+
+  const [problem] = checkEntries(entries, previous);
+  if (problem) {
+    throw new Error(`Audit log chain is broken at sequence ${problem.sequence} (${problem.issue}), not anchoring`);
+  }
+
+  const [anchor] = await tx.insert(auditAnchors).values({
+    fromSequence: entries[0].sequence,
+    toSequence: entries[entries.length - 1].sequence,
+    entryCount: entries.length,
+    merkleRoot: computeMerkleRoot(entries.map(entry => getAuditLeaf(entry.hash)))
+  }).returning();
+
+  return anchor;
+};
+
+/**
+ * Store the batch root through the storage contract. Failures are logged; a
+ * reverted transaction marks the batch failed, anything else leaves it for
+ * the next run.
+ */
+const submitAnchor = async (anchor: AuditAnchorRow): Promise<void> => {
+  try {
+    const tx = await getMedicalRecordsContract().storeRecord(
+      anchor.merkleRoot,
+      `audit-log:${anchor.fromSequence}-${anchor.toSequence}`,
+      Math.floor(anchor.createdAt.getTime() / 1000),
+      getServerSigner()
+    );
+
+    await db.update(auditAnchors)
+      .set({ transactionHash: tx.hash, updatedAt: new Date() })
+      .where(eq(auditAnchors.id, anchor.id));
+
+    const receipt = await waitForConfirmation(tx);
+    if (receipt) {
+      await db.update(auditAnchors)
+        .set({ status: 'confirmed', anchoredAt: new Date(), updatedAt: new Date() })
+        .where(eq(auditAnchors.id, anchor.id));
+    }
+  } catch (error) {
+    console.error(`Failed to anchor audit batch ${anchor.id}:`, error);
+
+    if (ethers.isError(error, 'CALL_EXCEPTION')) {
+      await db.update(auditAnchors)
+        .set({ status: 'failed', updatedAt: new Date() })
+        .where(eq(auditAnchors.id, anchor.id));
+    }
+  }
+};
+
+/**
+ * Settle batches whose transaction was still pending when the last run stopped waiting
+ */
+const confirmSubmittedAnchors = async (): Promise<void> => {
+  const submitted = await db.query.auditAnchors.findMany({
+    where: and(eq(auditAnchors.status, 'pending'), isNotNull(auditAnchors.transactionHash))
+  });
+
+  for (const anchor of submitted) {
+    try {
+      const receipt = await getServerSigner().provider!.getTransactionReceipt(anchor.transactionHash!);
+      if (!receipt) {
+        continue;
+      }
+
+      await db.update(auditAnchors)
+        .set(receipt.status === 1
+          ? { status: 'confirmed', anchoredAt: new Date(), updatedAt: new Date() }
+          : { status: 'failed', updatedAt: new Date() })
+        .where(and(eq(auditAnchors.id, anchor.id), eq(auditAnchors.status, 'pending')));
+    } catch (error) {
+      console.error(`Failed to check audit batch ${anchor.id}:`, error);
+    }
+  }
+};
+
+/**
+ * Batch up new audit entries under a Merkle root and anchor unsubmitted
+ * batches on chain. Batches are claimed under the job's advisory lock, so
+ * concurrent runs never submit the same one.
+ */
+export const anchorAuditLog = async (now: Date = new Date()) => {
+  const chainConfigured = isChainConfigured();
+
+  const claimed = await runExclusive('anchor-audit-log', async (tx) => {
+    const created = await createAnchorBatch(tx);
+    if (!chainConfigured) {
+      return { created, toSubmit: [] };
+    }
+
+    const toSubmit = await tx.update(auditAnchors)
+      .set({ submittedAt: now, updatedAt: now })
+      .where(and(
+        eq(auditAnchors.status, 'pending'),
+        isNull(auditAnchors.transactionHash),
+        or(isNull(auditAnchors.submittedAt), lt(auditAnchors.submittedAt, new Date(now.getTime() - RESUBMIT_AFTER_MS)))
+      ))
+      .returning();
+
+    return { created, toSubmit };
+  });
+
+  if (!claimed) {
+    return { skipped: true, batched: 0, submitted: 0 };
+  }
+
+  const { created, toSubmit } = claimed;
+  if (created) {
+    console.log(`Batched audit entries ${created.fromSequence}-${created.toSequence} under root ${created.merkleRoot}`);
+  }
+
+  if (!chainConfigured) {
+    if (created) {
+      console.warn('Blockchain not configured, audit batches left unanchored');
+    }
+    return { skipped: false, batched: created?.entryCount ?? 0, submitted: 0 };
+  }
+
+  await confirmSubmittedAnchors();
+  for (const anchor of toSubmit) {
+    await submitAnchor(anchor);
+  }
+
+  return { skipped: false, batched: created?.entryCount ?? 0, submitted: toSubmit.length };
+};
+
+export const createAuditAnchorJob = (): Job => ({
+  name: 'anchor-audit-log',
+  intervalMs: Number(process.env.AUDIT_ANCHOR_INTERVAL_MS || 60 * 60 * 1000),
+  async run() {
+    await anchorAuditLog();
+  }
+});
+
+/**
+ * Re-walk the chain (optionally a range of sequence numbers), recomputing
+ * every entry hash and link and the Merkle root of every batch in the range
+ */
+export const verifyAuditChain = async (
+  range: { fromSequence?: number; toSequence?: number } = {}
+): Promise<AuditChainVerification> => {
+  const problems: AuditChainProblem[] = [];
+  const fromSequence = range.fromSequence ?? 1;
+
+  let previous = await getPreviousLink(db, fromSequence);
+  if (!previous) {
+    problems.push({ sequence: fromSequence - 1, issue: 'sequence_gap' });
+  }
+
+  let entriesChecked = 0;
+  let first: number | undefined;
+  let cursor = fromSequence;
+
+  for (;;) {
+    const entries = await db
+      .select()
+      .from(auditLogs)
+      .where(and(
+        gte(auditLogs.sequence, cursor),
+        range.toSequence !== undefined ? lte(auditLogs.sequence, range.toSequence) : undefined
+      ))
+      .orderBy(asc(auditLogs.sequence))
+      .limit(VERIFY_PAGE_SIZE);
+
+    if (!entries.length) {
+      break;
+    }
+
+    problems.push(...checkEntries(entries, previous));
+    first ??= entries[0].sequence;
+    previous = entries[entries.length - 1];
+    entriesChecked += entries.length;
+    cursor = previous.sequence + 1;
+
+    if (entries.length < VERIFY_PAGE_SIZE || problems.length >= MAX_PROBLEMS) {
+      break;
+    }
+  }
+
+  const anchors = await db.query.auditAnchors.findMany({
+    where: and(
+      gte(auditAnchors.fromSequence, fromSequence),
+      range.toSequence !== undefined ? lte(auditAnchors.toSequence, range.toSequence) : undefined
+    ),
+    orderBy: [asc(auditAnchors.fromSequence)]
+  });
+
+  for (const anchor of anchors) {
+    if (problems.length >= MAX_PROBLEMS) {
+      break;
+    }
+
+    const batch = await getBatchHashes(anchor);
+    const matches = batch.length === anchor.entryCount
+      && computeMerkleRoot(batch.map(entry => getAuditLeaf(entry.hash))) === anchor.merkleRoot;
+
+    if (!matches) {
+      problems.push({ sequence: anchor.fromSequence, anchorId: anchor.id, issue: 'anchor_mismatch' });
+    }
+  }
+
+  return {
+    valid: problems.length === 0,
+    fromSequence: first,
+    toSequence: entriesChecked ? previous?.sequence : undefined,
+    entriesChecked,
+    anchorsChecked: anchors.length,
+    headHash: entriesChecked ? previous?.hash : undefined,
+    problems: problems.slice(0, MAX_PROBLEMS)
+  };
+};
+
+/**
+ * Merkle proof that an entry belongs to an anchored batch, checked against
+ * the stored root and, when the chain is configured, the anchored one
+ */
+export const proveAuditEntry = async (entryId: string): Promise<AuditEntryProof> => {
+  const entry = await db.query.auditLogs.findFirst({
+    where: eq(auditLogs.id, entryId)
+  });
+
+  if (!entry) {
+    throw createError('Audit entry not found', 404, 'AUDIT_ENTRY_NOT_FOUND');
+  }
+
+  const leaf = getAuditLeaf(entry.hash);
+  const result: AuditEntryProof = {
+    entryId: entry.id,
+    sequence: entry.sequence,
+    hash: entry.hash,
+    intact: hashAuditEntry(entry) === entry.hash,
+    leaf,
+    proof: [],
+    included: false
+  };
+
+  const anchor = await db.query.auditAnchors.findFirst({
+    where: and(lte(auditAnchors.fromSequence, entry.sequence), gte(auditAnchors.toSequence, entry.sequence))
+  });
+
+  if (!anchor) {
+    return result;
+  }
+
+  const batch = await getBatchHashes(anchor);
+  const proof = getMerkleProof(batch.map(row => getAuditLeaf(row.hash)), batch.findIndex(row => row.sequence === entry.sequence));
+
+  let onChain: boolean | undefined;
+  if (isChainConfigured() && anchor.transactionHash) {
+    try {
+      onChain = await getMedicalRecordsContract().recordExists(anchor.merkleRoot);
+    } catch (error) {
+      console.error(`Failed to look up audit batch ${anchor.id} on chain:`, error);
+    }
+  }
+
+  return {
+    ...result,
+    proof,
+    anchor: toAuditAnchor(anchor),
+    included: verifyMerkleProof(leaf, proof, anchor.merkleRoot),
+    onChain
+  };
+};
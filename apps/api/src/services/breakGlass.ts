@@ -0,0 +1,317 @@
+import { and, desc, eq, gt, sql } from 'drizzle-orm';
+import {
+  db,
+  accessGrants,
+  breakGlassEvents,
+  patients,
+  providers,
+  BreakGlassEvent as BreakGlassEventRow
+} from '@aarovia/database';
+import { BreakGlassEvent, BreakGlassReason, PaginationResponse } from '@aarovia/types';
+import { createError } from '../middleware/errorHandler';
+import { writeAuditLog } from './audit';
+import { sendMail } from './mail';
+import { sendSms } from './sms';
+import { activateGrant, revokeGrant } from './sharing';
+
+export interface BreakGlassInput {
+  patientId: string;
+  reason: BreakGlassReason;
+  clinicalContext: string;
+  location?: string;
+  durationHours?: number;
+}
+
+export interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface ListBreakGlassQuery {
+  reviewStatus?: BreakGlassEventRow['reviewStatus'];
+  patientId?: string;
+  page: number;
+  limit: number;
+}
+
+const REASON_LABELS: Record<BreakGlassReason, string> = {
+  patient_unconscious: 'Patient unconscious',
+  patient_incapacitated: 'Patient incapacitated',
+  life_threatening: 'Life-threatening emergency',
+  guardian_unreachable: 'Guardian unreachable',
+  other: 'Other emergency'
+};
+
+export const getBreakGlassMaxHours = (): number => Number(process.env.BREAK_GLASS_MAX_HOURS || 24);
+
+const getDefaultHours = (): number => Number(process.env.BREAK_GLASS_DEFAULT_HOURS || 4);
+
+/**
+ * Shape a database row as the shared BreakGlassEvent type
+ */
+export const toBreakGlassEvent = (row: BreakGlassEventRow): BreakGlassEvent => ({
+  id: row.id,
+  patientId: row.patientId,
+  providerId: row.providerId,
+  grantId: row.grantId ?? undefined,
+  reason: row.reason,
+  clinicalContext: row.clinicalContext,
+  location: row.location ?? undefined,
+  expiresAt: row.expiresAt,
+  patientNotifiedAt: row.patientNotifiedAt ?? undefined,
+  emergencyContactNotifiedAt: row.emergencyContactNotifiedAt ?? undefined,
+  reviewStatus: row.reviewStatus,
+  reviewedBy: row.reviewedBy ?? undefined,
+  reviewNotes: row.reviewNotes ?? undefined,
+  reviewedAt: row.reviewedAt ?? undefined,
+  createdAt: row.createdAt
+});
+
+/**
+ * Tell the patient by email and their emergency contact by SMS. Delivery
+ * failures are logged and leave the matching notified-at column empty.
+ */
+const notifyBreakGlass = async (
+  event: BreakGlassEventRow,
+  patient: { firstName: string; emergencyContact: { name: string; phone: string } | null; user: { email: string } },
+  providerName: string
+): Promise<BreakGlassEventRow> => {
+  const when = event.createdAt.toUTCString();
+  const reason = REASON_LABELS[event.reason];
+  const notified: Partial<Pick<BreakGlassEventRow, 'patientNotifiedAt' | 'emergencyContactNotifiedAt'>> = {};
+
+  try {
+    await sendMail({
+      to: patient.user.email,
+      subject: 'Emergency access to your medical records',
+      text: `Hi ${patient.firstName},\n\n${providerName} used emergency access to your medical records on ${when}.\n\nReason given: ${reason}\nAccess ends: ${event.expiresAt.toUTCString()}\n\nEvery emergency access is reviewed. You can see the details and revoke access from your account.`,
+      html: `<p>Hi ${patient.firstName},</p><p>${providerName} used emergency access to your medical records on ${when}.</p><p>Reason given: ${reason}<br>Access ends: ${event.expiresAt.toUTCString()}</p><p>Every emergency access is reviewed. You can see the details and revoke access from your account.</p>`
+    });
+    notified.patientNotifiedAt = new Date();
+  } catch (error) {
+    console.error(`Failed to email patient about break-glass event ${event.id}:`, error);
+  }
+
+  if (patient.emergencyContact?.phone) {
+    try {
+      await sendSms({
+        to: patient.emergencyContact.phone,
+        body: `Aarovia: ${providerName} used emergency access to ${patient.firstName}'s medical records on ${when} (${reason}).`
+      });
+      notified.emergencyContactNotifiedAt = new Date();
+    } catch (error) {
+      console.error(`Failed to text emergency contact about break-glass event ${event.id}:`, error);
+    }
+  }
+
+  if (!Object.keys(notified).length) {
+    return event;
+  }
+
+  const [updated] = await db.update(breakGlassEvents)
+    .set({ ...notified, updatedAt: new Date() })
+    .where(eq(breakGlassEvents.id, event.id))
+    .returning();
+
+  return updated;
+};
+
+/**
+ * Give a verified provider time-boxed read access to all of a patient's
+ * records without consent. The access is logged as a high-severity audit
+ * event, the patient and their emergency contact are notified, and the event
+ * waits in the admin review queue.
+ */
+export const breakGlass = async (
+  providerUserId: string,
+  input: BreakGlassInput,
+  context: RequestContext
+): Promise<BreakGlassEvent> => {
+  const provider = await db.query.providers.findFirst({
+    where: eq(providers.userId, providerUserId),
+    with: {
+      user: {
+        columns: { address: true }
+      }
+    }
+  });
+
+  if (!provider) {
+    throw createError('Provider profile not found', 404, 'PROVIDER_PROFILE_NOT_FOUND');
+  }
+  if (provider.status !== 'verified') {
+    throw createError('Only verified providers can use emergency access', 403, 'PROVIDER_NOT_VERIFIED');
+  }
+
+  const patient = await db.query.patients.findFirst({
+    where: eq(patients.id, input.patientId),
+    with: {
+      user: {
+        columns: { email: true }
+      }
+    }
+  });
+
+  if (!patient) {
+    throw createError('Patient not found', 404, 'PATIENT_NOT_FOUND');
+  }
+
+  const now = new Date();
+  const hours = Math.min(input.durationHours ?? getDefaultHours(), getBreakGlassMaxHours());
+  const expiresAt = new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+  const { grant, event } = await db.transaction(async (tx) => {
+    // Serializes concurrent requests from the same provider for the same patient
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`aarovia:break-glass:${provider.id}:${patient.id}`}))`);
+
+    const [active] = await tx
+      .select({ id: breakGlassEvents.id })
+      .from(breakGlassEvents)
+      .innerJoin(accessGrants, eq(breakGlassEvents.grantId, accessGrants.id))
+      .where(and(
+        eq(breakGlassEvents.patientId, patient.id),
+        eq(breakGlassEvents.providerId, provider.id),
+        eq(accessGrants.isRevoked, false),
+        gt(accessGrants.expiresAt, now)
+      ))
+      .limit(1);
+
+    if (active) {
+      throw createError('Emergency access to this patient is already active', 409, 'BREAK_GLASS_ACTIVE');
+    }
+
+    const [grant] = await tx.insert(accessGrants).values({
+      patientId: patient.id,
+      providerId: provider.id,
+      scope: 'patient',
+      permissions: ['read'],
+      expiresAt
+    }).returning();
+
+    const [event] = await tx.insert(breakGlassEvents).values({
+      patientId: patient.id,
+      providerId: provider.id,
+      grantId: grant.id,
+      reason: input.reason,
+      clinicalContext: input.clinicalContext,
+      location: input.location,
+      expiresAt
+    }).returning();
+
+    await writeAuditLog({
+      userId: providerUserId,
+      action: 'break_glass',
+      severity: 'high',
+      resourceType: 'patient',
+      resourceId: patient.id,
+      details: {
+        eventId: event.id,
+        grantId: grant.id,
+        providerId: provider.id,
+        reason: input.reason,
+        clinicalContext: input.clinicalContext,
+        location: input.location ?? null,
+        expiresAt: expiresAt.toISOString()
+      },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent
+    }, tx);
+
+    return { grant, event };
+  });
+
+  await activateGrant(grant, provider);
+
+  return toBreakGlassEvent(await notifyBreakGlass(event, patient, provider.name));
+};
+
+/**
+ * Break-glass events, newest first, with the provider and patient involved
+ */
+export const listBreakGlassEvents = async (
+  query: ListBreakGlassQuery
+): Promise<PaginationResponse<BreakGlassEvent & {
+  provider: { id: string; name: string; licenseNumber: string };
+  patient: { id: string; firstName: string; lastName: string };
+}>> => {
+  const where = and(
+    query.reviewStatus ? eq(breakGlassEvents.reviewStatus, query.reviewStatus) : undefined,
+    query.patientId ? eq(breakGlassEvents.patientId, query.patientId) : undefined
+  );
+
+  const [rows, [{ total }]] = await Promise.all([
+    db.query.breakGlassEvents.findMany({
+      where,
+      with: {
+        provider: {
+          columns: { id: true, name: true, licenseNumber: true }
+        },
+        patient: {
+          columns: { id: true, firstName: true, lastName: true }
+        }
+      },
+      orderBy: [desc(breakGlassEvents.createdAt)],
+      limit: query.limit,
+      offset: (query.page - 1) * query.limit
+    }),
+    db.select({ total: sql<number>`count(*)::int` }).from(breakGlassEvents).where(where)
+  ]);
+
+  return {
+    data: rows.map(row => ({ ...toBreakGlassEvent(row), provider: row.provider, patient: row.patient })),
+    pagination: {
+      page: query.page,
+      limit: query.limit,
+      total,
+      totalPages: Math.ceil(total / query.limit)
+    }
+  };
+};
+
+/**
+ * Close a pending event as justified or escalated. Escalating also cuts off
+ * the emergency access if it is still running.
+ */
+export const reviewBreakGlassEvent = async (
+  reviewerId: string,
+  eventId: string,
+  decision: 'justified' | 'escalated',
+  reviewNotes?: string
+): Promise<BreakGlassEvent> => {
+  const [reviewed] = await db.update(breakGlassEvents)
+    .set({ reviewStatus: decision, reviewedBy: reviewerId, reviewNotes, reviewedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(breakGlassEvents.id, eventId), eq(breakGlassEvents.reviewStatus, 'pending')))
+    .returning();
+
+  if (!reviewed) {
+    const existing = await db.query.breakGlassEvents.findFirst({
+      where: eq(breakGlassEvents.id, eventId)
+    });
+
+    if (!existing) {
+      throw createError('Break-glass event not found', 404, 'BREAK_GLASS_NOT_FOUND');
+    }
+    throw createError(`Break-glass event is already ${existing.reviewStatus}`, 409, 'ALREADY_REVIEWED');
+  }
+
+  if (decision === 'escalated' && reviewed.grantId) {
+    const grant = await db.query.accessGrants.findFirst({
+      where: eq(accessGrants.id, reviewed.grantId)
+    });
+
+    if (grant && !grant.isRevoked) {
+      await revokeGrant(reviewed.patientId, grant.id);
+    }
+  }
+
+  await writeAuditLog({
+    userId: reviewerId,
+    action: 'break_glass_review',
+    severity: decision === 'escalated' ? 'high' : 'info',
+    resourceType: 'break_glass_event',
+    resourceId: reviewed.id,
+    details: { decision, reviewNotes: reviewNotes ?? null, patientId: reviewed.patientId, providerId: reviewed.providerId }
+  });
+
+  return toBreakGlassEvent(reviewed);
+};
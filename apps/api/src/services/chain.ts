@@ -0,0 +1,115 @@
+import {
+  ethers,
+  createMedicalRecordsContract,
+  MedicalRecordsContract,
+  MedicalRecordsForwarder,
+  MedicalRecordsForwarder__factory
+} from '@aarovia/web3';
+
+const CONFIRMATION_TIMEOUT_MS = Number(process.env.CHAIN_CONFIRMATION_TIMEOUT_MS || 60 * 1000);
+
+let contract: MedicalRecordsContract | undefined;
+let signer: ethers.Wallet | undefined;
+let relayer: ethers.Wallet | undefined;
+let forwarder: MedicalRecordsForwarder | undefined;
+
+const getRpcUrl = (): string | undefined => {
+  return process.env.RPC_URL || process.env.NEXT_PUBLIC_RPC_URL;
+};
+
+/**
+ * Whether the RPC endpoint, contracts and server wallet are all configured
+ */
+export const isChainConfigured = (): boolean => {
+  return Boolean(
+    getRpcUrl() &&
+    process.env.SERVER_WALLET_PRIVATE_KEY &&
+    process.env.MEDICAL_RECORDS_ACCESS_CONTRACT &&
+    process.env.MEDICAL_RECORDS_STORAGE_CONTRACT
+  );
+};
+
+export const getMedicalRecordsContract = (): MedicalRecordsContract => {
+  if (!contract) {
+    const rpcUrl = getRpcUrl();
+    if (!rpcUrl) {
+      throw new Error('RPC_URL environment variable is required');
+    }
+    contract = createMedicalRecordsContract(
+      rpcUrl,
+      process.env.MEDICAL_RECORDS_ACCESS_CONTRACT || undefined,
+      process.env.MEDICAL_RECORDS_STORAGE_CONTRACT || undefined
+    );
+  }
+  return contract;
+};
+
+/**
+ * Wallet the API uses to submit transactions on behalf of users
+ */
+export const getServerSigner = (): ethers.Wallet => {
+  if (!signer) {
+    const rpcUrl = getRpcUrl();
+    if (!rpcUrl || !process.env.SERVER_WALLET_PRIVATE_KEY) {
+      throw new Error('RPC_URL and SERVER_WALLET_PRIVATE_KEY environment variables are required');
+    }
+    signer = new ethers.Wallet(
+      process.env.SERVER_WALLET_PRIVATE_KEY,
+      new ethers.JsonRpcProvider(rpcUrl)
+    );
+  }
+  return signer;
+};
+
+/**
+ * Whether meta-transactions can be relayed: the chain is configured and a
+ * trusted forwarder is deployed. The relayer wallet defaults to the server
+ * wallet.
+ */
+export const isRelayerConfigured = (): boolean => {
+  return isChainConfigured() && Boolean(process.env.MEDICAL_RECORDS_FORWARDER_CONTRACT);
+};
+
+/**
+ * Wallet that pays the gas of meta-transactions users sign
+ */
+export const getRelayerSigner = (): ethers.Wallet => {
+  if (!relayer) {
+    const privateKey = process.env.RELAYER_PRIVATE_KEY;
+    relayer = privateKey
+      ? new ethers.Wallet(privateKey, getServerSigner().provider)
+      : getServerSigner();
+  }
+  return relayer;
+};
+
+/**
+ * The trusted forwarder, connected to the relayer wallet
+ */
+export const getForwarderContract = (): MedicalRecordsForwarder => {
+  if (!forwarder) {
+    const address = process.env.MEDICAL_RECORDS_FORWARDER_CONTRACT;
+    if (!address) {
+      throw new Error('MEDICAL_RECORDS_FORWARDER_CONTRACT environment variable is required');
+    }
+    forwarder = MedicalRecordsForwarder__factory.connect(address, getRelayerSigner());
+  }
+  return forwarder;
+};
+
+/**
+ * Wait for one confirmation. Resolves to null if the transaction is still
+ * pending when the timeout elapses; rejects if it reverted.
+ */
+export const waitForConfirmation = async (
+  tx: ethers.ContractTransactionResponse
+): Promise<ethers.TransactionReceipt | null> => {
+  try {
+    return await tx.wait(1, CONFIRMATION_TIMEOUT_MS);
+  } catch (error) {
+    if (ethers.isError(error, 'TIMEOUT')) {
+      return null;
+    }
+    throw error;
+  }
+};
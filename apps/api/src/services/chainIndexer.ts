@@ -0,0 +1,412 @@
+import { and, asc, count, desc, eq, gt, inArray, isNotNull, isNull, lte, notExists, sql } from 'drizzle-orm';
+import {
+  db,
+  accessGrants,
+  auditAnchors,
+  chainCursors,
+  chainEvents,
+  medicalRecords,
+  providers,
+  users,
+  ChainCursor,
+  ChainEvent as ChainEventRow
+} from '@aarovia/database';
+import { ChainEvent, ChainReconciliation, ChainReconciliationProblem } from '@aarovia/types';
+import { MedicalRecordsEvent } from '@aarovia/web3';
+import { getMedicalRecordsContract, getServerSigner, isChainConfigured } from './chain';
+import { Job, runExclusive } from './scheduler';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type EventLinks = Pick<ChainEventRow, 'recordId' | 'accessGrantId' | 'auditAnchorId'>;
+
+const CURSOR_NAME = 'medical-records';
+// Block the contracts were deployed in; nothing before it is scanned
+const START_BLOCK = Number(process.env.CHAIN_INDEXER_START_BLOCK || 0);
+// Blocks are only indexed once this many more have been mined on top of them
+const CONFIRMATIONS = Number(process.env.CHAIN_INDEXER_CONFIRMATIONS || 12);
+const BATCH_BLOCKS = Number(process.env.CHAIN_INDEXER_BATCH_BLOCKS || 2000);
+// Each batch is its own transaction; this bounds how long one run backfills
+const MAX_BATCHES_PER_RUN = 20;
+// How many indexed blocks are compared with the chain when looking for the fork point
+const MAX_REORG_BLOCKS = 1000;
+const MAX_PROBLEMS = 100;
+
+/**
+ * Shape a database row as the shared ChainEvent type
+ */
+export const toChainEvent = (row: ChainEventRow): ChainEvent => ({
+  id: row.id,
+  event: row.event,
+  contractAddress: row.contractAddress,
+  blockNumber: row.blockNumber,
+  blockHash: row.blockHash,
+  transactionHash: row.transactionHash,
+  logIndex: row.logIndex,
+  recordHash: row.recordHash,
+  account: row.account,
+  provider: row.provider ?? undefined,
+  expiresAt: row.expiresAt ?? undefined,
+  ipfsHash: row.ipfsHash ?? undefined,
+  recordId: row.recordId ?? undefined,
+  accessGrantId: row.accessGrantId ?? undefined,
+  auditAnchorId: row.auditAnchorId ?? undefined,
+  createdAt: row.createdAt
+});
+
+const sameAddress = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Confirm the record (or audit batch) a RecordStored event anchors, taking
+ * the transaction hash from the chain. Anyone can store a hash, so the event
+ * only counts when its owner is the one the platform registers: the server
+ * wallet, or the patient's wallet for records stored on their behalf. Events
+ * stored by anyone else stay unmatched.
+ */
+const reconcileRecordStored = async (tx: Transaction, event: MedicalRecordsEvent): Promise<EventLinks> => {
+  const unmatched = { recordId: null, accessGrantId: null, auditAnchorId: null };
+  const serverAddress = getServerSigner().address;
+
+  const stored = await tx.query.medicalRecords.findFirst({
+    where: eq(medicalRecords.recordHash, event.recordHash),
+    columns: { id: true },
+    with: { patient: { with: { user: { columns: { address: true } } } } }
+  });
+
+  if (stored) {
+    if (!sameAddress(event.account, serverAddress) && !sameAddress(event.account, stored.patient.user.address)) {
+      return unmatched;
+    }
+
+    await tx.update(medicalRecords)
+      .set({ blockchainTxHash: event.transactionHash, status: 'confirmed', updatedAt: new Date() })
+      .where(eq(medicalRecords.id, stored.id));
+
+    return { ...unmatched, recordId: stored.id };
+  }
+
+  if (!sameAddress(event.account, serverAddress)) {
+    return unmatched;
+  }
+
+  const [anchor] = await tx.update(auditAnchors)
+    .set({
+      transactionHash: event.transactionHash,
+      status: 'confirmed',
+      anchoredAt: sql`coalesce(${auditAnchors.anchoredAt}, now())`,
+      updatedAt: new Date()
+    })
+    .where(eq(auditAnchors.merkleRoot, event.recordHash))
+    .returning({ id: auditAnchors.id });
+
+  return { ...unmatched, auditAnchorId: anchor?.id ?? null };
+};
+
+/**
+ * Find the grant an access event was submitted for: by transaction hash, or
+ * failing that the newest matching single-record grant whose submission never
+ * recorded a hash, which then gets the event's
+ */
+const reconcileAccessEvent = async (tx: Transaction, event: MedicalRecordsEvent): Promise<EventLinks> => {
+  const record = await tx.query.medicalRecords.findFirst({
+    where: eq(medicalRecords.recordHash, event.recordHash),
+    columns: { id: true }
+  });
+  const links = { recordId: record?.id ?? null, auditAnchorId: null };
+
+  const submitted = await tx.query.accessGrants.findFirst({
+    where: eq(accessGrants.transactionHash, event.transactionHash),
+    columns: { id: true }
+  });
+
+  if (submitted || !record || !event.provider) {
+    return { ...links, accessGrantId: submitted?.id ?? null };
+  }
+
+  const [grant] = await tx
+    .select({ id: accessGrants.id })
+    .from(accessGrants)
+    .innerJoin(providers, eq(providers.id, accessGrants.providerId))
+    .innerJoin(users, eq(users.id, providers.userId))
+    .where(and(
+      eq(accessGrants.recordId, record.id),
+      eq(accessGrants.scope, 'record'),
+      isNull(accessGrants.transactionHash),
+      sql`lower(${users.address}) = ${event.provider.toLowerCase()}`,
+      event.name === 'AccessRevoked' ? eq(accessGrants.isRevoked, true) : undefined
+    ))
+    .orderBy(desc(accessGrants.createdAt))
+    .limit(1);
+
+  if (!grant) {
+    return { ...links, accessGrantId: null };
+  }
+
+  await tx.update(accessGrants)
+    .set({ transactionHash: event.transactionHash, contractAddress: event.contractAddress, updatedAt: new Date() })
+    .where(eq(accessGrants.id, grant.id));
+
+  return { ...links, accessGrantId: grant.id };
+};
+
+/**
+ * Undo what reconciling rolled-back events confirmed. Grants keep their
+ * transaction hash: the transaction may well be mined again on the new branch.
+ */
+const unreconcile = async (tx: Transaction, removed: ChainEventRow[]): Promise<void> => {
+  const recordIds = removed.flatMap(event => event.event === 'RecordStored' && event.recordId ? [event.recordId] : []);
+  const anchorIds = removed.flatMap(event => event.auditAnchorId ? [event.auditAnchorId] : []);
+
+  if (recordIds.length) {
+    await tx.update(medicalRecords)
+      .set({ status: 'pending', updatedAt: new Date() })
+      .where(inArray(medicalRecords.id, recordIds));
+  }
+  if (anchorIds.length) {
+    await tx.update(auditAnchors)
+      .set({ status: 'pending', anchoredAt: null, updatedAt: new Date() })
+      .where(inArray(auditAnchors.id, anchorIds));
+  }
+};
+
+/**
+ * Roll back to the newest indexed block that is still on the canonical chain,
+ * or to the start if none is. Returns the rewound cursor and how many events
+ * were dropped.
+ */
+const rollBack = async (tx: Transaction, cursor: ChainCursor) => {
+  const contract = getMedicalRecordsContract();
+
+  const blocks = await tx
+    .selectDistinct({ blockNumber: chainEvents.blockNumber, blockHash: chainEvents.blockHash })
+    .from(chainEvents)
+    .where(lte(chainEvents.blockNumber, cursor.blockNumber))
+    .orderBy(desc(chainEvents.blockNumber))
+    .limit(MAX_REORG_BLOCKS);
+
+  let forkPoint: { blockNumber: number; blockHash: string } | undefined;
+  for (const block of blocks) {
+    if (await contract.getBlockHash(block.blockNumber) === block.blockHash) {
+      forkPoint = block;
+      break;
+    }
+  }
+
+  const removed = await tx.delete(chainEvents)
+    .where(gt(chainEvents.blockNumber, forkPoint?.blockNumber ?? -1))
+    .returning();
+  await unreconcile(tx, removed);
+
+  console.warn(
+    `Chain reorganized below indexed block ${cursor.blockNumber}; ` +
+    `rolled back ${removed.length} events to ${forkPoint ? `block ${forkPoint.blockNumber}` : 'the start block'}`
+  );
+
+  if (!forkPoint) {
+    await tx.delete(chainCursors).where(eq(chainCursors.name, CURSOR_NAME));
+    return { cursor: undefined, rolledBack: removed.length };
+  }
+
+  const [rewound] = await tx.update(chainCursors)
+    .set({ ...forkPoint, updatedAt: new Date() })
+    .where(eq(chainCursors.name, CURSOR_NAME))
+    .returning();
+
+  return { cursor: rewound, rolledBack: removed.length };
+};
+
+/**
+ * Check the cursor block is still canonical, then index the next batch of
+ * confirmed blocks and move the cursor past it
+ */
+const indexNextBatch = async (tx: Transaction) => {
+  const contract = getMedicalRecordsContract();
+
+  let cursor = await tx.query.chainCursors.findFirst({
+    where: eq(chainCursors.name, CURSOR_NAME)
+  });
+  let rolledBack = 0;
+
+  if (cursor && await contract.getBlockHash(cursor.blockNumber) !== cursor.blockHash) {
+    ({ cursor, rolledBack } = await rollBack(tx, cursor));
+  }
+
+  const fromBlock = cursor ? cursor.blockNumber + 1 : START_BLOCK;
+  const toBlock = Math.min(await contract.getBlockNumber() - CONFIRMATIONS, fromBlock + BATCH_BLOCKS - 1);
+
+  if (fromBlock > toBlock) {
+    return { indexed: 0, rolledBack, caughtUp: true };
+  }
+
+  const blockHash = await contract.getBlockHash(toBlock);
+  if (!blockHash) {
+    throw new Error(`Block ${toBlock} not found`);
+  }
+
+  const events = await contract.getEvents(fromBlock, toBlock);
+  for (const event of events) {
+    const links = event.name === 'RecordStored'
+      ? await reconcileRecordStored(tx, event)
+      : await reconcileAccessEvent(tx, event);
+
+    await tx.insert(chainEvents)
+      .values({
+        event: event.name,
+        contractAddress: event.contractAddress,
+        blockNumber: event.blockNumber,
+        blockHash: event.blockHash,
+        transactionHash: event.transactionHash,
+        logIndex: event.logIndex,
+        recordHash: event.recordHash,
+        account: event.account,
+        provider: event.provider,
+        expiresAt: event.expiresAt ? new Date(event.expiresAt * 1000) : undefined,
+        ipfsHash: event.ipfsHash,
+        ...links
+      })
+      .onConflictDoNothing();
+  }
+
+  await tx.insert(chainCursors)
+    .values({ name: CURSOR_NAME, blockNumber: toBlock, blockHash })
+    .onConflictDoUpdate({
+      target: chainCursors.name,
+      set: { blockNumber: toBlock, blockHash, updatedAt: new Date() }
+    });
+
+  return { indexed: events.length, rolledBack, caughtUp: false };
+};
+
+/**
+ * Index contract events from the start block (or the cursor) up to the
+ * confirmed head, rolling back first if the chain reorganized under the
+ * cursor. Batches run under the indexer's advisory lock.
+ */
+export const indexChainEvents = async () => {
+  if (!isChainConfigured()) {
+    return { skipped: true, indexed: 0, rolledBack: 0 };
+  }
+
+  let indexed = 0;
+  let rolledBack = 0;
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+    const result = await runExclusive('chain-indexer', indexNextBatch);
+    if (!result) {
+      return { skipped: batch === 0, indexed, rolledBack };
+    }
+
+    indexed += result.indexed;
+    rolledBack += result.rolledBack;
+    if (result.caughtUp) {
+      break;
+    }
+  }
+
+  if (indexed || rolledBack) {
+    console.log(`Indexed ${indexed} chain events, rolled back ${rolledBack}`);
+  }
+  return { skipped: false, indexed, rolledBack };
+};
+
+export const createChainIndexerJob = (): Job => ({
+  name: 'chain-indexer',
+  intervalMs: Number(process.env.CHAIN_INDEXER_INTERVAL_MS || 30 * 1000),
+  async run() {
+    await indexChainEvents();
+  }
+});
+
+/**
+ * Transaction hashes the database holds that no indexed event carries,
+ * checked against receipts so transactions above the cursor are not reported
+ * before the indexer reaches them
+ */
+const findMissingEvents = async (cursor: ChainCursor): Promise<ChainReconciliationProblem[]> => {
+  const unseen = (hash: typeof medicalRecords.blockchainTxHash | typeof accessGrants.transactionHash) => notExists(
+    db.select({ id: chainEvents.id }).from(chainEvents).where(eq(chainEvents.transactionHash, hash))
+  );
+
+  const records = await db
+    .select({ id: medicalRecords.id, transactionHash: medicalRecords.blockchainTxHash })
+    .from(medicalRecords)
+    .where(and(isNotNull(medicalRecords.blockchainTxHash), unseen(medicalRecords.blockchainTxHash)))
+    .limit(MAX_PROBLEMS);
+
+  const grants = await db
+    .select({ id: accessGrants.id, transactionHash: accessGrants.transactionHash })
+    .from(accessGrants)
+    .where(and(isNotNull(accessGrants.transactionHash), unseen(accessGrants.transactionHash)))
+    .limit(MAX_PROBLEMS);
+
+  const candidates: ChainReconciliationProblem[] = [
+    ...records.map(row => ({ issue: 'missing_event' as const, transactionHash: row.transactionHash!, recordId: row.id })),
+    ...grants.map(row => ({ issue: 'missing_event' as const, transactionHash: row.transactionHash!, accessGrantId: row.id }))
+  ];
+
+  const missing: ChainReconciliationProblem[] = [];
+  for (const candidate of candidates.slice(0, MAX_PROBLEMS)) {
+    try {
+      // A transaction the node does not know was dropped; one mined above the cursor is just not indexed yet
+      const receipt = await getServerSigner().provider!.getTransactionReceipt(candidate.transactionHash);
+      if (!receipt || receipt.blockNumber <= cursor.blockNumber) {
+        missing.push(candidate);
+      }
+    } catch (error) {
+      console.error(`Failed to look up transaction ${candidate.transactionHash}:`, error);
+    }
+  }
+  return missing;
+};
+
+/**
+ * Check the database and the indexed chain events against each other: events
+ * that match no record, grant or audit batch, records someone else stored on
+ * chain first, and transactions the database recorded that never produced an
+ * event
+ */
+export const getChainReconciliation = async (): Promise<ChainReconciliation> => {
+  const cursor = await db.query.chainCursors.findFirst({
+    where: eq(chainCursors.name, CURSOR_NAME)
+  });
+  const [{ total }] = await db.select({ total: count() }).from(chainEvents);
+
+  const unmatched = await db
+    .select()
+    .from(chainEvents)
+    .where(and(isNull(chainEvents.recordId), isNull(chainEvents.accessGrantId), isNull(chainEvents.auditAnchorId)))
+    .orderBy(asc(chainEvents.blockNumber), asc(chainEvents.logIndex))
+    .limit(MAX_PROBLEMS);
+
+  // An unmatched RecordStored event for one of our record hashes was stored by someone else
+  const storedHashes = unmatched.flatMap(row => row.event === 'RecordStored' ? [row.recordHash] : []);
+  const claimed = storedHashes.length
+    ? await db
+      .select({ id: medicalRecords.id, recordHash: medicalRecords.recordHash })
+      .from(medicalRecords)
+      .where(inArray(medicalRecords.recordHash, storedHashes))
+    : [];
+  const claimedRecords = new Map(claimed.map(record => [record.recordHash, record.id]));
+
+  const problems: ChainReconciliationProblem[] = unmatched.map(row => {
+    const recordId = row.event === 'RecordStored' ? claimedRecords.get(row.recordHash) : undefined;
+    return recordId
+      ? { issue: 'owner_mismatch', transactionHash: row.transactionHash, event: toChainEvent(row), recordId }
+      : { issue: 'unmatched_event', transactionHash: row.transactionHash, event: toChainEvent(row) };
+  });
+
+  if (cursor && isChainConfigured()) {
+    problems.push(...await findMissingEvents(cursor));
+  }
+
+  return {
+    consistent: problems.length === 0,
+    cursor: cursor && {
+      blockNumber: cursor.blockNumber,
+      blockHash: cursor.blockHash,
+      updatedAt: cursor.updatedAt
+    },
+    eventsIndexed: total,
+    problems: problems.slice(0, MAX_PROBLEMS)
+  };
+};
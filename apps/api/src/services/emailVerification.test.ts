@@ -0,0 +1,71 @@
+const mockFindUser = jest.fn();
+const mockReturning = jest.fn();
+
+jest.mock('@aarovia/database', () => ({
+  db: {
+    query: { users: { findFirst: mockFindUser } },
+    update: () => ({ set: () => ({ where: () => ({ returning: mockReturning }) }) })
+  },
+  users: {}
+}));
+
+import { createMemoryTransport, setMailTransport } from './mail';
+import { resendVerificationEmail, sendVerificationEmail, verifyEmailToken } from './emailVerification';
+
+describe('email verification', () => {
+  const mail = createMemoryTransport();
+
+  const tokenFrom = (text: string): string => {
+    const match = /verify-email\?token=([^\s]+)/.exec(text);
+    return decodeURIComponent(match![1]);
+  };
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+    setMailTransport(mail);
+  });
+
+  beforeEach(() => {
+    mail.clear();
+    mockFindUser.mockReset();
+    mockReturning.mockReset();
+  });
+
+  it('mails a link that verifies the address', async () => {
+    const user = { id: 'user-1', email: 'pat@example.com', emailVerified: false };
+    await sendVerificationEmail(user);
+
+    expect(mail.messages).toHaveLength(1);
+    expect(mail.messages[0]).toMatchObject({ to: 'pat@example.com', subject: 'Verify your email address' });
+
+    mockFindUser.mockResolvedValue(user);
+    mockReturning.mockResolvedValue([{ ...user, emailVerified: true }]);
+
+    await expect(verifyEmailToken(tokenFrom(mail.messages[0].text))).resolves.toMatchObject({ emailVerified: true });
+  });
+
+  it('rejects a link sent to an address the user has since changed', async () => {
+    await sendVerificationEmail({ id: 'user-2', email: 'old@example.com' });
+    mockFindUser.mockResolvedValue({ id: 'user-2', email: 'new@example.com', emailVerified: false });
+
+    await expect(verifyEmailToken(tokenFrom(mail.messages[0].text)))
+      .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_TOKEN' });
+    expect(mockReturning).not.toHaveBeenCalled();
+  });
+
+  it('resends at most once per cooldown', async () => {
+    mockFindUser.mockResolvedValue({ id: 'user-3', email: 'sam@example.com', emailVerified: false });
+
+    await resendVerificationEmail('user-3');
+    await expect(resendVerificationEmail('user-3')).rejects.toMatchObject({ statusCode: 429, code: 'RESEND_TOO_SOON' });
+
+    expect(mail.messages).toHaveLength(1);
+  });
+
+  it('does not resend once the address is verified', async () => {
+    mockFindUser.mockResolvedValue({ id: 'user-4', email: 'kim@example.com', emailVerified: true });
+
+    await expect(resendVerificationEmail('user-4')).rejects.toMatchObject({ statusCode: 409 });
+    expect(mail.messages).toHaveLength(0);
+  });
+});
@@ -0,0 +1,112 @@
+import jwt from 'jsonwebtoken';
+import { eq } from 'drizzle-orm';
+import { db, users, User } from '@aarovia/database';
+import { createError } from '../middleware/errorHandler';
+import { sendMail } from './mail';
+
+const TOKEN_PURPOSE = 'email_verification';
+const TOKEN_TTL = process.env.EMAIL_VERIFICATION_TTL || '24h';
+const RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute
+
+const lastSentAt = new Map<string, number>();
+
+interface EmailVerificationPayload {
+  sub: string;
+  email: string;
+  purpose: typeof TOKEN_PURPOSE;
+}
+
+const getSecret = (): string => {
+  return process.env.EMAIL_TOKEN_SECRET || process.env.JWT_SECRET!;
+};
+
+/**
+ * Signed, expiring token bound to the user's current email address
+ */
+export const createEmailVerificationToken = (user: Pick<User, 'id' | 'email'>): string => {
+  const payload: EmailVerificationPayload = {
+    sub: user.id,
+    email: user.email,
+    purpose: TOKEN_PURPOSE
+  };
+
+  return jwt.sign(payload, getSecret(), { expiresIn: TOKEN_TTL } as jwt.SignOptions);
+};
+
+export const sendVerificationEmail = async (user: Pick<User, 'id' | 'email'>): Promise<void> => {
+  const token = createEmailVerificationToken(user);
+  const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const link = `${baseUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+  lastSentAt.set(user.id, Date.now());
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: `Confirm your email address by opening this link:\n\n${link}\n\nIf you did not create an account, you can ignore this email.`,
+    html: `<p>Confirm your email address by opening this link:</p><p><a href="${link}">Verify email</a></p><p>If you did not create an account, you can ignore this email.</p>`
+  });
+};
+
+/**
+ * Send a fresh verification link, at most once per cooldown window
+ */
+export const resendVerificationEmail = async (userId: string): Promise<void> => {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId)
+  });
+
+  if (!user) {
+    throw createError('User not found', 404, 'USER_NOT_FOUND');
+  }
+
+  if (user.emailVerified) {
+    throw createError('Email is already verified', 409, 'EMAIL_ALREADY_VERIFIED');
+  }
+
+  const sentAt = lastSentAt.get(user.id);
+  if (sentAt && Date.now() - sentAt < RESEND_COOLDOWN_MS) {
+    throw createError('Verification email was sent recently, try again later', 429, 'RESEND_TOO_SOON');
+  }
+
+  await sendVerificationEmail(user);
+};
+
+/**
+ * Check a verification token and mark the email as verified
+ */
+export const verifyEmailToken = async (token: string): Promise<User> => {
+  let payload: EmailVerificationPayload;
+  try {
+    payload = jwt.verify(token, getSecret()) as EmailVerificationPayload;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw createError('Verification link has expired', 400, 'TOKEN_EXPIRED');
+    }
+    throw createError('Invalid verification token', 400, 'INVALID_TOKEN');
+  }
+
+  if (payload.purpose !== TOKEN_PURPOSE) {
+    throw createError('Invalid verification token', 400, 'INVALID_TOKEN');
+  }
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, payload.sub)
+  });
+
+  // The address was changed after the link was sent
+  if (!user || user.email !== payload.email) {
+    throw createError('Invalid verification token', 400, 'INVALID_TOKEN');
+  }
+
+  if (user.emailVerified) {
+    return user;
+  }
+
+  const [updated] = await db.update(users)
+    .set({ emailVerified: true, updatedAt: new Date() })
+    .where(eq(users.id, user.id))
+    .returning();
+
+  return updated;
+};
@@ -0,0 +1,120 @@
+import { and, eq, inArray, isNotNull, lt, lte } from 'drizzle-orm';
+import { db, accessGrants, accessRequests, providers, AccessGrant } from '@aarovia/database';
+import { writeAuditLog } from './audit';
+import { Job, runExclusive } from './scheduler';
+import { deactivateGrant, pruneProviderKeys } from './sharing';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 500;
+
+const getRequestTtlMs = (): number => Number(process.env.ACCESS_REQUEST_TTL_DAYS || 14) * DAY_MS;
+
+// grantAccess already stores the expiry on chain, so revoking there is opt-in
+const shouldRevokeOnChain = (): boolean => process.env.EXPIRY_REVOKE_ON_CHAIN === 'true';
+
+/**
+ * Call revokeAccess for single-record grants that just expired. Their key
+ * copies are already gone; on chain the grant lapses at its expiry anyway, so
+ * a failed call is only logged.
+ */
+const revokeExpiredOnChain = async (grants: AccessGrant[]): Promise<void> => {
+  for (const grant of grants.filter(grant => grant.scope === 'record')) {
+    try {
+      const provider = await db.query.providers.findFirst({
+        where: eq(providers.id, grant.providerId),
+        with: {
+          user: {
+            columns: { address: true }
+          }
+        }
+      });
+
+      if (provider) {
+        await deactivateGrant(grant, provider);
+      }
+    } catch (error) {
+      console.error(`Failed to revoke expired access grant ${grant.id} on chain:`, error);
+    }
+  }
+};
+
+/**
+ * Mark lapsed grants revoked and stale pending requests expired, dropping the
+ * key copies the grants no longer justify in the same transaction. Runs under
+ * an advisory lock and only touches rows still in their old state, so
+ * concurrent or repeated runs never expire the same row twice.
+ */
+export const expireAccess = async (now: Date = new Date()) => {
+  const expired = await runExclusive('expire-access', async (tx) => {
+    const grants = await tx.update(accessGrants)
+      .set({ isRevoked: true, revokedAt: now, updatedAt: now })
+      .where(inArray(
+        accessGrants.id,
+        tx.select({ id: accessGrants.id })
+          .from(accessGrants)
+          .where(and(
+            eq(accessGrants.isRevoked, false),
+            isNotNull(accessGrants.expiresAt),
+            lte(accessGrants.expiresAt, now)
+          ))
+          .limit(BATCH_SIZE)
+      ))
+      .returning();
+
+    const grantees = new Map(grants.map(grant => [`${grant.patientId}:${grant.providerId}`, grant]));
+    for (const { patientId, providerId } of grantees.values()) {
+      const provider = await tx.query.providers.findFirst({ where: eq(providers.id, providerId) });
+      if (provider) {
+        await pruneProviderKeys(patientId, provider, tx);
+      }
+    }
+
+    const requests = await tx.update(accessRequests)
+      .set({ status: 'expired', updatedAt: now })
+      .where(and(
+        eq(accessRequests.status, 'pending'),
+        lt(accessRequests.createdAt, new Date(now.getTime() - getRequestTtlMs()))
+      ))
+      .returning();
+
+    await writeAuditLog([
+      ...grants.map(grant => ({
+        recordId: grant.recordId,
+        action: 'expire',
+        resourceType: 'access_grant',
+        resourceId: grant.id,
+        details: { providerId: grant.providerId, expiresAt: grant.expiresAt }
+      })),
+      ...requests.map(request => ({
+        action: 'expire',
+        resourceType: 'access_request',
+        resourceId: request.id,
+        details: { patientId: request.patientId, providerId: request.providerId, requestedAt: request.createdAt }
+      }))
+    ], tx);
+
+    return { grants, requests };
+  });
+
+  if (!expired) {
+    return { skipped: true, grants: 0, requests: 0 };
+  }
+
+  if (shouldRevokeOnChain()) {
+    await revokeExpiredOnChain(expired.grants);
+  }
+
+  if (expired.grants.length || expired.requests.length) {
+    console.log(`Expired ${expired.grants.length} access grants and ${expired.requests.length} access requests`);
+  }
+
+  return { skipped: false, grants: expired.grants.length, requests: expired.requests.length };
+};
+
+export const createExpiryJob = (): Job => ({
+  name: 'expire-access',
+  intervalMs: Number(process.env.EXPIRY_JOB_INTERVAL_MS || 60 * 1000),
+  async run() {
+    await expireAccess();
+  }
+});
@@ -0,0 +1,98 @@
+import { SQL, and, eq, gt, isNull, or, sql } from 'drizzle-orm';
+import { db, accessGrants, medicalRecords, providers, AccessGrant, MedicalRecord } from '@aarovia/database';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type GrantPermission = 'read' | 'write' | 'share';
+
+export type GrantScopeFields = Pick<
+  AccessGrant,
+  'scope' | 'recordId' | 'patientId' | 'category' | 'tag' | 'recordDateFrom' | 'recordDateTo'
+>;
+
+export type CoverableRecord = Pick<MedicalRecord, 'id' | 'patientId' | 'category' | 'tags' | 'recordDate'>;
+
+export const isGrantActive = (grant: Pick<AccessGrant, 'isRevoked' | 'expiresAt'>, now: Date = new Date()): boolean => {
+  return !grant.isRevoked && (!grant.expiresAt || grant.expiresAt > now);
+};
+
+/**
+ * Whether a grant's scope includes a record. Scopes are matched at access
+ * time, so records uploaded after the grant are covered too.
+ */
+export const grantCovers = (grant: GrantScopeFields, record: CoverableRecord): boolean => {
+  if (grant.patientId !== record.patientId) {
+    return false;
+  }
+  if (grant.recordDateFrom && record.recordDate < grant.recordDateFrom) {
+    return false;
+  }
+  if (grant.recordDateTo && record.recordDate > grant.recordDateTo) {
+    return false;
+  }
+
+  switch (grant.scope) {
+    case 'record':
+      return grant.recordId === record.id;
+    case 'patient':
+      return true;
+    case 'category':
+      return grant.category === record.category;
+    case 'tag':
+      return Boolean(grant.tag && record.tags?.includes(grant.tag));
+  }
+};
+
+/**
+ * SQL version of grantCovers, correlating access_grants with medical_records
+ */
+export const grantCoversRecordSql = (): SQL => sql`(
+  ${accessGrants.patientId} = ${medicalRecords.patientId}
+  and (
+    (${accessGrants.scope} = 'record' and ${accessGrants.recordId} = ${medicalRecords.id})
+    or ${accessGrants.scope} = 'patient'
+    or (${accessGrants.scope} = 'category' and ${accessGrants.category} = ${medicalRecords.category})
+    or (${accessGrants.scope} = 'tag' and ${medicalRecords.tags} @> jsonb_build_array(${accessGrants.tag}))
+  )
+  and (${accessGrants.recordDateFrom} is null or ${medicalRecords.recordDate} >= ${accessGrants.recordDateFrom})
+  and (${accessGrants.recordDateTo} is null or ${medicalRecords.recordDate} <= ${accessGrants.recordDateTo})
+)`;
+
+/**
+ * Active grants carrying a permission
+ */
+export const activeGrantSql = (permission: GrantPermission, now: Date = new Date()): SQL => and(
+  eq(accessGrants.isRevoked, false),
+  or(isNull(accessGrants.expiresAt), gt(accessGrants.expiresAt, now)),
+  sql`${accessGrants.permissions} @> ${JSON.stringify([permission])}::jsonb`
+)!;
+
+/**
+ * Subquery of the record IDs a provider's active grants with a permission cover.
+ * Uncorrelated on purpose: relational queries alias their root table, which a
+ * correlated subquery could not refer to.
+ */
+export const coveredRecordIds = (providerId: string, permission: GrantPermission, now: Date = new Date()) => {
+  return db
+    .selectDistinct({ id: medicalRecords.id })
+    .from(medicalRecords)
+    .innerJoin(accessGrants, grantCoversRecordSql())
+    .where(and(eq(accessGrants.providerId, providerId), activeGrantSql(permission, now)));
+};
+
+/**
+ * Users of verified providers whose active read grants cover a record
+ */
+export const findCoveringProviderUserIds = async (
+  executor: typeof db | Transaction,
+  recordId: string
+): Promise<string[]> => {
+  const rows = await executor
+    .selectDistinct({ userId: providers.userId })
+    .from(accessGrants)
+    .innerJoin(providers, eq(accessGrants.providerId, providers.id))
+    .innerJoin(medicalRecords, eq(medicalRecords.id, recordId))
+    .where(and(eq(providers.status, 'verified'), activeGrantSql('read'), grantCoversRecordSql()));
+
+  return rows.map(row => row.userId);
+};
@@ -0,0 +1,263 @@
+import crypto from 'crypto';
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { and, desc, eq, isNull, sql } from 'drizzle-orm';
+import { db, auditLogs, iceTokens, IceToken as IceTokenRow, Patient } from '@aarovia/database';
+import { IceLookup, IceToken, PaginationResponse } from '@aarovia/types';
+import { createError } from '../middleware/errorHandler';
+import { writeAuditLog } from './audit';
+
+const MAX_ACTIVE_TOKENS = 5;
+const LOOKUP_ACTION = 'ice_lookup';
+
+// CR80 (bank card) size in PDF points
+const CARD_WIDTH = 243;
+const CARD_HEIGHT = 153;
+
+export interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const getSecret = (): string => {
+  return process.env.ICE_TOKEN_SECRET || process.env.JWT_SECRET!;
+};
+
+/**
+ * The token for a row: an HMAC of its id, so the card can be reprinted
+ * without storing the token, and cannot be guessed without the secret
+ */
+const deriveToken = (tokenId: string): string => {
+  return crypto.createHmac('sha256', getSecret()).update(`ice:${tokenId}`).digest('base64url');
+};
+
+const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+export const getIceUrl = (tokenId: string): string => {
+  const baseUrl = process.env.ICE_BASE_URL || `${process.env.FRONTEND_URL || 'http://localhost:3000'}/ice`;
+  return `${baseUrl}/${deriveToken(tokenId)}`;
+};
+
+/**
+ * Shape a database row as the shared IceToken type
+ */
+export const toIceToken = (row: IceTokenRow): IceToken => ({
+  id: row.id,
+  patientId: row.patientId,
+  label: row.label ?? undefined,
+  lastUsedAt: row.lastUsedAt ?? undefined,
+  revokedAt: row.revokedAt ?? undefined,
+  createdAt: row.createdAt,
+  url: row.revokedAt ? undefined : getIceUrl(row.id)
+});
+
+export const createIceToken = async (patientId: string, label?: string): Promise<IceToken> => {
+  const [{ active }] = await db
+    .select({ active: sql<number>`count(*)::int` })
+    .from(iceTokens)
+    .where(and(eq(iceTokens.patientId, patientId), isNull(iceTokens.revokedAt)));
+
+  if (active >= MAX_ACTIVE_TOKENS) {
+    throw createError(`At most ${MAX_ACTIVE_TOKENS} emergency cards can be active, revoke one first`, 409, 'ICE_TOKEN_LIMIT');
+  }
+
+  const id = crypto.randomUUID();
+  const [token] = await db.insert(iceTokens).values({
+    id,
+    patientId,
+    tokenHash: hashToken(deriveToken(id)),
+    label
+  }).returning();
+
+  return toIceToken(token);
+};
+
+export const listIceTokens = async (patientId: string): Promise<IceToken[]> => {
+  const rows = await db.query.iceTokens.findMany({
+    where: eq(iceTokens.patientId, patientId),
+    orderBy: [desc(iceTokens.createdAt)]
+  });
+
+  return rows.map(toIceToken);
+};
+
+/**
+ * One of the patient's tokens; pass `active` to reject revoked ones
+ */
+const getPatientIceToken = async (patientId: string, tokenId: string, active = false): Promise<IceTokenRow> => {
+  const token = await db.query.iceTokens.findFirst({
+    where: and(eq(iceTokens.id, tokenId), eq(iceTokens.patientId, patientId))
+  });
+
+  if (!token) {
+    throw createError('Emergency card not found', 404, 'ICE_TOKEN_NOT_FOUND');
+  }
+  if (active && token.revokedAt) {
+    throw createError('Emergency card has been revoked', 410, 'ICE_TOKEN_REVOKED');
+  }
+  return token;
+};
+
+export const revokeIceToken = async (patientId: string, tokenId: string): Promise<IceToken> => {
+  const token = await getPatientIceToken(patientId, tokenId);
+
+  if (token.revokedAt) {
+    throw createError('Emergency card has already been revoked', 409, 'ICE_TOKEN_REVOKED');
+  }
+
+  const [revoked] = await db.update(iceTokens)
+    .set({ revokedAt: new Date() })
+    .where(eq(iceTokens.id, token.id))
+    .returning();
+
+  return toIceToken(revoked);
+};
+
+/**
+ * QR code of an active token's URL as a PNG buffer or an SVG document
+ */
+export const renderIceQrCode = async (
+  patientId: string,
+  tokenId: string,
+  format: 'png' | 'svg',
+  size: number
+): Promise<Buffer | string> => {
+  const token = await getPatientIceToken(patientId, tokenId, true);
+
+  const url = getIceUrl(token.id);
+  return format === 'svg'
+    ? QRCode.toString(url, { type: 'svg', width: size, errorCorrectionLevel: 'M' })
+    : QRCode.toBuffer(url, { type: 'png', width: size, errorCorrectionLevel: 'M' });
+};
+
+/**
+ * Printable wallet-sized card with the patient's name and the token's QR
+ * code. Medical details are deliberately left off so a lost card can be
+ * revoked rather than leaking them.
+ */
+export const renderIceCard = async (
+  patient: Pick<Patient, 'id' | 'firstName' | 'lastName'>,
+  tokenId: string
+): Promise<Buffer> => {
+  const token = await getPatientIceToken(patient.id, tokenId, true);
+  const url = getIceUrl(token.id);
+  const qrCode = await QRCode.toBuffer(url, { type: 'png', width: 300, margin: 1, errorCorrectionLevel: 'M' });
+
+  const doc = new PDFDocument({ size: [CARD_WIDTH, CARD_HEIGHT], margin: 0, info: { Title: 'Emergency medical card' } });
+  const chunks: Buffer[] = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  doc.rect(0, 0, CARD_WIDTH, 28).fill('#c62828');
+  doc.fillColor('#ffffff').font('Helvetica-Bold').fontSize(10)
+    .text('EMERGENCY MEDICAL INFORMATION', 10, 10, { width: CARD_WIDTH - 20 });
+
+  doc.fillColor('#000000').font('Helvetica-Bold').fontSize(11)
+    .text(`${patient.firstName} ${patient.lastName}`, 10, 38, { width: 130 });
+  doc.font('Helvetica').fontSize(7)
+    .text('In an emergency, scan the code for allergies, medications, conditions and emergency contact.', 10, 56, { width: 130 });
+
+  doc.image(qrCode, CARD_WIDTH - 100, 36, { width: 90 });
+  doc.fontSize(5).fillColor('#555555')
+    .text(url, 10, CARD_HEIGHT - 20, { width: CARD_WIDTH - 20, lineBreak: false, ellipsis: true });
+
+  doc.end();
+  return done;
+};
+
+/**
+ * Resolve an emergency token to the patient's ICE data. Every lookup by a
+ * known token is recorded for the patient, including refused ones.
+ */
+export const lookupIce = async (token: string, context: RequestContext) => {
+  const iceToken = await db.query.iceTokens.findFirst({
+    where: eq(iceTokens.tokenHash, hashToken(token)),
+    with: { patient: true }
+  });
+
+  if (!iceToken) {
+    throw createError('Emergency information not found', 404, 'ICE_NOT_FOUND');
+  }
+
+  const { patient } = iceToken;
+  const outcome: IceLookup['outcome'] = iceToken.revokedAt ? 'revoked' : patient.iceMode?.enabled ? 'ok' : 'disabled';
+
+  await writeAuditLog({
+    action: LOOKUP_ACTION,
+    resourceType: 'patient',
+    resourceId: patient.id,
+    details: { tokenId: iceToken.id, outcome },
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent
+  });
+
+  if (outcome !== 'ok') {
+    // Revoked cards and disabled ICE mode look the same as an unknown token
+    throw createError('Emergency information not found', 404, 'ICE_NOT_FOUND');
+  }
+
+  await db.update(iceTokens)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(iceTokens.id, iceToken.id));
+
+  return {
+    firstName: patient.firstName,
+    lastName: patient.lastName,
+    dateOfBirth: patient.dateOfBirth ?? undefined,
+    bloodType: patient.iceMode?.bloodType,
+    allergies: patient.iceMode?.allergies ?? [],
+    chronicConditions: patient.iceMode?.chronicConditions ?? [],
+    medications: patient.iceMode?.medications ?? [],
+    emergencyContact: patient.emergencyContact ?? undefined
+  };
+};
+
+/**
+ * Lookups of the patient's emergency cards, newest first
+ */
+export const listIceLookups = async (
+  patientId: string,
+  page: number,
+  limit: number
+): Promise<PaginationResponse<IceLookup>> => {
+  const where = and(
+    eq(auditLogs.action, LOOKUP_ACTION),
+    eq(auditLogs.resourceType, 'patient'),
+    eq(auditLogs.resourceId, patientId)
+  );
+
+  const [rows, [{ total }]] = await Promise.all([
+    db.query.auditLogs.findMany({
+      where,
+      orderBy: [desc(auditLogs.createdAt)],
+      limit,
+      offset: (page - 1) * limit
+    }),
+    db.select({ total: sql<number>`count(*)::int` }).from(auditLogs).where(where)
+  ]);
+
+  return {
+    data: rows.map(row => {
+      const details = row.details as { tokenId: string; outcome: IceLookup['outcome'] };
+      return {
+        id: row.id,
+        tokenId: details.tokenId,
+        outcome: details.outcome,
+        ipAddress: row.ipAddress ?? undefined,
+        userAgent: row.userAgent ?? undefined,
+        createdAt: row.createdAt
+      };
+    }),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+};
@@ -0,0 +1,32 @@
+import { MasterKeyProvider } from './types';
+import { createLocalKeystoreProvider } from './localKeystore';
+
+export * from './types';
+export { createLocalKeystoreProvider };
+
+let provider: MasterKeyProvider | undefined;
+
+/**
+ * Master key provider selected by KEY_PROVIDER (currently only "local")
+ */
+export const getMasterKeyProvider = (): MasterKeyProvider => {
+  if (!provider) {
+    const kind = process.env.KEY_PROVIDER || 'local';
+
+    switch (kind) {
+      case 'local':
+        provider = createLocalKeystoreProvider(process.env.KEYSTORE_PATH || '.keys/keystore.json');
+        break;
+      default:
+        throw new Error(`Unknown key provider: ${kind}`);
+    }
+  }
+  return provider;
+};
+
+/**
+ * Override the configured provider (used by tests)
+ */
+export const setMasterKeyProvider = (next: MasterKeyProvider): void => {
+  provider = next;
+};
@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createLocalKeystoreProvider } from './localKeystore';
+
+describe('local keystore', () => {
+  let dir: string;
+  let keystorePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'aarovia-keystore-'));
+    keystorePath = path.join(dir, 'keystore.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('picks up a rotation made by another process', async () => {
+    const server = createLocalKeystoreProvider(keystorePath);
+    const previousKeyId = await server.getCurrentKeyId();
+
+    // `keys:rotate` runs with its own provider over the same file
+    const rotator = createLocalKeystoreProvider(keystorePath);
+    const keyId = await rotator.rotate();
+    const dataKey = crypto.randomBytes(32).toString('hex');
+    const rewrapped = await rotator.wrap(dataKey, 'record-1');
+
+    expect(keyId).not.toBe(previousKeyId);
+    await expect(server.unwrap(rewrapped.keyId, rewrapped.wrappedKey, 'record-1')).resolves.toBe(dataKey);
+    await expect(server.wrap(dataKey, 'record-2')).resolves.toMatchObject({ keyId });
+  });
+
+  it('keeps old keys available for unwrapping', async () => {
+    const keystore = createLocalKeystoreProvider(keystorePath);
+    const dataKey = crypto.randomBytes(32).toString('hex');
+    const wrapped = await keystore.wrap(dataKey, 'record-1');
+
+    await keystore.rotate();
+
+    await expect(keystore.unwrap(wrapped.keyId, wrapped.wrappedKey, 'record-1')).resolves.toBe(dataKey);
+    await expect(fs.readdir(dir)).resolves.toEqual(['keystore.json']);
+  });
+});
@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { MasterKeyProvider } from './types';
+
+const WRAP_VERSION = 'v1';
+
+interface KeystoreFile {
+  currentKeyId: string;
+  keys: Record<string, { key: string; createdAt: string }>;
+}
+
+const newKeyId = (): string => {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  return `mk-${date}-${crypto.randomBytes(4).toString('hex')}`;
+};
+
+const aad = (keyId: string, context: string): Buffer => Buffer.from(`${keyId}:${context}`);
+
+/**
+ * Master keys kept in a JSON file on local disk. Intended for development;
+ * production deployments should plug in a KMS-backed provider. The file is
+ * re-read whenever it changes on disk, so a rotation run by `keys:rotate` in
+ * another process takes effect without a restart.
+ */
+export function createLocalKeystoreProvider(keystorePath: string): MasterKeyProvider {
+  let keystore: KeystoreFile | undefined;
+  // mtime and size of the file `keystore` was read from
+  let loadedVersion: string | undefined;
+
+  const fileVersion = async (): Promise<string> => {
+    const stats = await fs.stat(keystorePath);
+    return `${stats.mtimeMs}:${stats.size}`;
+  };
+
+  const save = async (next: KeystoreFile) => {
+    await fs.mkdir(path.dirname(keystorePath), { recursive: true });
+    // Write then rename, so other processes never read a half-written file
+    const tempPath = `${keystorePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(next, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, keystorePath);
+    keystore = next;
+    loadedVersion = await fileVersion();
+  };
+
+  const load = async (): Promise<KeystoreFile> => {
+    try {
+      const version = await fileVersion();
+      if (keystore && version === loadedVersion) {
+        return keystore;
+      }
+
+      keystore = JSON.parse(await fs.readFile(keystorePath, 'utf8')) as KeystoreFile;
+      loadedVersion = version;
+      return keystore;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      // Keep using the keys already loaded rather than replacing them
+      if (keystore) {
+        return keystore;
+      }
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error(`Keystore not found at ${keystorePath}`);
+      }
+
+      const keyId = newKeyId();
+      console.warn(`Creating development keystore at ${keystorePath}`);
+      await save({
+        currentKeyId: keyId,
+        keys: { [keyId]: { key: crypto.randomBytes(32).toString('hex'), createdAt: new Date().toISOString() } }
+      });
+      return keystore!;
+    }
+  };
+
+  const getKey = async (keyId: string): Promise<Buffer> => {
+    const entry = (await load()).keys[keyId];
+    if (!entry) {
+      throw new Error(`Unknown master key: ${keyId}`);
+    }
+    return Buffer.from(entry.key, 'hex');
+  };
+
+  return {
+    name: 'local',
+
+    async getCurrentKeyId() {
+      return (await load()).currentKeyId;
+    },
+
+    async wrap(dataKey, context) {
+      const keyId = (await load()).currentKeyId;
+      const iv = crypto.randomBytes(12);
+      const cipher = crypto.createCipheriv('aes-256-gcm', await getKey(keyId), iv);
+      cipher.setAAD(aad(keyId, context));
+      const ciphertext = Buffer.concat([cipher.update(Buffer.from(dataKey, 'hex')), cipher.final(), cipher.getAuthTag()]);
+
+      return {
+        keyId,
+        wrappedKey: [WRAP_VERSION, iv.toString('base64url'), ciphertext.toString('base64url')].join('.')
+      };
+    },
+
+    async unwrap(keyId, wrappedKey, context) {
+      const [version, ivPart, ciphertextPart] = wrappedKey.split('.');
+      if (version !== WRAP_VERSION || !ivPart || !ciphertextPart) {
+        throw new Error('Unsupported wrapped key format');
+      }
+
+      const sealed = Buffer.from(ciphertextPart, 'base64url');
+      const decipher = crypto.createDecipheriv('aes-256-gcm', await getKey(keyId), Buffer.from(ivPart, 'base64url'));
+      decipher.setAAD(aad(keyId, context));
+      decipher.setAuthTag(sealed.subarray(sealed.length - 16));
+
+      return Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - 16)), decipher.final()]).toString('hex');
+    },
+
+    async rotate() {
+      const current = await load();
+      const keyId = newKeyId();
+      await save({
+        currentKeyId: keyId,
+        keys: {
+          ...current.keys,
+          [keyId]: { key: crypto.randomBytes(32).toString('hex'), createdAt: new Date().toISOString() }
+        }
+      });
+      return keyId;
+    }
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * Holds the server master keys that wrap record data keys
+ */
+export interface MasterKeyProvider {
+  name: string;
+  getCurrentKeyId(): Promise<string>;
+  /** Wrap a hex data key with the current master key; `context` is authenticated */
+  wrap(dataKey: string, context: string): Promise<{ keyId: string; wrappedKey: string }>;
+  unwrap(keyId: string, wrappedKey: string, context: string): Promise<string>;
+  /** Create a new current master key and return its ID. Old keys stay available for unwrapping. */
+  rotate(): Promise<string>;
+}
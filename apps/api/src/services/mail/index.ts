@@ -0,0 +1,53 @@
+import {
+  MailMessage,
+  MailTransport,
+  createFileTransport,
+  createMemoryTransport,
+  createSmtpTransport
+} from './transports';
+
+export * from './transports';
+
+let transport: MailTransport | undefined;
+
+/**
+ * Build the transport selected by MAIL_TRANSPORT (smtp | file | memory)
+ */
+const createConfiguredTransport = (): MailTransport => {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_URL ? 'smtp' : 'file');
+
+  switch (kind) {
+    case 'smtp':
+      if (!process.env.SMTP_URL) {
+        throw new Error('SMTP_URL environment variable is required for the smtp mail transport');
+      }
+      return createSmtpTransport(process.env.SMTP_URL);
+    case 'memory':
+      return createMemoryTransport();
+    case 'file':
+      return createFileTransport(process.env.MAIL_DIR || '.mail');
+    default:
+      throw new Error(`Unknown mail transport: ${kind}`);
+  }
+};
+
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    transport = createConfiguredTransport();
+  }
+  return transport;
+};
+
+/**
+ * Override the configured transport (used by tests)
+ */
+export const setMailTransport = (next: MailTransport): void => {
+  transport = next;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await getMailTransport().send({
+    from: process.env.MAIL_FROM || 'Aarovia <no-reply@aarovia.local>',
+    ...message
+  });
+};
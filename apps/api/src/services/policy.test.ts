@@ -0,0 +1,29 @@
+const mockQuery = jest.fn(() => {
+  throw new Error('invalid input syntax for type uuid');
+});
+
+jest.mock('@aarovia/database', () => ({
+  db: {
+    select: mockQuery,
+    query: { patients: { findFirst: mockQuery } }
+  },
+  accessGrants: {},
+  medicalRecords: {},
+  patients: {},
+  providers: {}
+}));
+
+import { enforce } from './policy';
+
+describe('policy resource IDs', () => {
+  const patient = { id: 'user-1', role: 'patient' as const };
+
+  it('treats malformed record and patient IDs as not found without querying', async () => {
+    await expect(enforce(patient, 'record:read', { type: 'record', id: 'abc' }))
+      .rejects.toMatchObject({ statusCode: 404 });
+    await expect(enforce(patient, 'patient:records:read', { type: 'patient', id: '1 or 1=1' }))
+      .rejects.toMatchObject({ statusCode: 404 });
+
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
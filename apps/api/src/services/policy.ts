@@ -0,0 +1,270 @@
+import { and, eq } from 'drizzle-orm';
+import { db, accessGrants, medicalRecords, patients, providers, AccessGrant } from '@aarovia/database';
+import { createError } from '../middleware/errorHandler';
+import { isUuid } from '../middleware/audit';
+import { GrantPermission, grantCovers, isGrantActive } from './grants';
+
+export type Role = 'patient' | 'provider' | 'admin';
+
+export interface Subject {
+  id: string;
+  role: Role;
+}
+
+export type Resource =
+  | { type: 'record'; id: string }
+  | { type: 'patient'; id: string };
+
+export type { GrantPermission };
+
+export type Action =
+  | 'record:create'
+  | 'record:list'
+  | 'record:read'
+  | 'record:write'
+  | 'record:share'
+  | 'record:revoke'
+  | 'patient:self'
+  | 'patient:records:read'
+  | 'patient:records:write'
+  | 'provider:self'
+  | 'provider:register'
+  | 'provider:request-access'
+  | 'provider:break-glass'
+  | 'admin:review'
+  | 'admin:audit';
+
+export type DenialReason =
+  | 'role_not_allowed'
+  | 'resource_required'
+  | 'record_not_found'
+  | 'patient_not_found'
+  | 'no_provider_profile'
+  | 'provider_not_verified'
+  | 'not_owner'
+  | 'no_grant'
+  | 'grant_revoked'
+  | 'grant_expired'
+  | 'permission_missing';
+
+export type PolicyDecision =
+  | { allowed: true; reason: 'role' | 'owner' | 'grant'; grant?: AccessGrant }
+  | { allowed: false; reason: DenialReason };
+
+type PolicyRule = (subject: Subject, resource?: Resource) => Promise<PolicyDecision>;
+
+const deny = (reason: DenialReason): PolicyDecision => ({ allowed: false, reason });
+
+/**
+ * Allow any subject holding one of the given roles
+ */
+const roles = (allowed: Role[]): PolicyRule => async (subject) => {
+  return allowed.includes(subject.role)
+    ? { allowed: true, reason: 'role' }
+    : deny('role_not_allowed');
+};
+
+/**
+ * Pick the most specific reason a set of grants does not allow a permission
+ */
+const evaluateGrants = (grants: AccessGrant[], permission: GrantPermission): PolicyDecision => {
+  if (!grants.length) {
+    return deny('no_grant');
+  }
+
+  const now = new Date();
+  const active = grants.filter(grant => isGrantActive(grant, now));
+
+  if (!active.length) {
+    // The expiry job revokes grants once they lapse; those still count as expired
+    const expired = grants.some(grant =>
+      grant.expiresAt && grant.expiresAt <= now && (!grant.revokedAt || grant.revokedAt >= grant.expiresAt)
+    );
+    return expired ? deny('grant_expired') : deny('grant_revoked');
+  }
+
+  const grant = active.find(candidate => candidate.permissions.includes(permission));
+  return grant ? { allowed: true, reason: 'grant', grant } : deny('permission_missing');
+};
+
+/**
+ * Resolve the verified provider profile behind a provider subject
+ */
+const findVerifiedProvider = async (subject: Subject) => {
+  const provider = await db.query.providers.findFirst({
+    where: eq(providers.userId, subject.id)
+  });
+
+  if (!provider) {
+    return { provider: undefined, denial: deny('no_provider_profile') };
+  }
+  if (provider.status !== 'verified') {
+    return { provider: undefined, denial: deny('provider_not_verified') };
+  }
+  return { provider, denial: undefined };
+};
+
+/**
+ * Record owners may do anything; providers need an active grant carrying the permission.
+ * Pass `ownerOnly` for actions a grant can never confer.
+ */
+const recordAccess = (permission: GrantPermission, ownerOnly = false): PolicyRule => async (subject, resource) => {
+  if (resource?.type !== 'record') {
+    return deny('resource_required');
+  }
+
+  // A malformed ID can name no record, and would make Postgres reject the uuid comparison
+  if (!isUuid(resource.id)) {
+    return deny('record_not_found');
+  }
+
+  const [record] = await db
+    .select({
+      id: medicalRecords.id,
+      patientId: medicalRecords.patientId,
+      category: medicalRecords.category,
+      tags: medicalRecords.tags,
+      recordDate: medicalRecords.recordDate,
+      ownerUserId: patients.userId
+    })
+    .from(medicalRecords)
+    .innerJoin(patients, eq(medicalRecords.patientId, patients.id))
+    .where(eq(medicalRecords.id, resource.id))
+    .limit(1);
+
+  if (!record) {
+    return deny('record_not_found');
+  }
+
+  if (record.ownerUserId === subject.id) {
+    return { allowed: true, reason: 'owner' };
+  }
+
+  if (ownerOnly || subject.role !== 'provider') {
+    return deny('not_owner');
+  }
+
+  const { provider, denial } = await findVerifiedProvider(subject);
+  if (!provider) {
+    return denial;
+  }
+
+  // Record grants plus patient-wide, category and tag grants whose scope includes the record
+  const grants = await db.query.accessGrants.findMany({
+    where: and(
+      eq(accessGrants.patientId, record.patientId),
+      eq(accessGrants.providerId, provider.id)
+    )
+  });
+
+  return evaluateGrants(grants.filter(grant => grantCovers(grant, record)), permission);
+};
+
+/**
+ * Providers may act on a patient's records once that patient has granted them the permission
+ */
+const patientRecordsAccess = (permission: GrantPermission): PolicyRule => async (subject, resource) => {
+  if (resource?.type !== 'patient') {
+    return deny('resource_required');
+  }
+
+  if (!isUuid(resource.id)) {
+    return deny('patient_not_found');
+  }
+
+  const patient = await db.query.patients.findFirst({
+    where: eq(patients.id, resource.id)
+  });
+
+  if (!patient) {
+    return deny('patient_not_found');
+  }
+
+  if (patient.userId === subject.id) {
+    return { allowed: true, reason: 'owner' };
+  }
+
+  if (subject.role !== 'provider') {
+    return deny('not_owner');
+  }
+
+  const { provider, denial } = await findVerifiedProvider(subject);
+  if (!provider) {
+    return denial;
+  }
+
+  const grants = await db.query.accessGrants.findMany({
+    where: and(
+      eq(accessGrants.patientId, patient.id),
+      eq(accessGrants.providerId, provider.id)
+    )
+  });
+
+  return evaluateGrants(grants, permission);
+};
+
+const policies: Record<Action, PolicyRule> = {
+  'record:create': roles(['patient', 'provider']),
+  'record:list': roles(['patient']),
+  'record:read': recordAccess('read'),
+  'record:write': recordAccess('write'),
+  'record:share': recordAccess('share', true),
+  'record:revoke': recordAccess('share', true),
+  'patient:self': roles(['patient']),
+  'patient:records:read': patientRecordsAccess('read'),
+  'patient:records:write': patientRecordsAccess('write'),
+  'provider:self': roles(['provider']),
+  'provider:register': roles(['provider']),
+  'provider:request-access': roles(['provider']),
+  'provider:break-glass': roles(['provider']),
+  'admin:review': roles(['admin']),
+  'admin:audit': roles(['admin'])
+};
+
+/**
+ * Answer "can subject X do action Y on resource Z"
+ */
+export const can = async (
+  subject: Subject,
+  action: Action,
+  resource?: Resource
+): Promise<PolicyDecision> => {
+  return policies[action](subject, resource);
+};
+
+/**
+ * Human-readable line for logging a denial
+ */
+export const describeDenial = (
+  subject: Subject,
+  action: Action,
+  resource: Resource | undefined,
+  reason: DenialReason
+): string => {
+  const target = resource ? ` on ${resource.type}:${resource.id}` : '';
+  return `Authorization denied: ${subject.role}:${subject.id} cannot ${action}${target} (${reason})`;
+};
+
+const NOT_FOUND_REASONS: DenialReason[] = ['record_not_found', 'patient_not_found'];
+
+/**
+ * Throw an API error unless the subject may perform the action. Denials are logged.
+ */
+export const enforce = async (
+  subject: Subject,
+  action: Action,
+  resource?: Resource
+): Promise<Extract<PolicyDecision, { allowed: true }>> => {
+  const decision = await can(subject, action, resource);
+
+  if (!decision.allowed) {
+    console.warn(describeDenial(subject, action, resource, decision.reason));
+
+    if (NOT_FOUND_REASONS.includes(decision.reason)) {
+      throw createError('Resource not found', 404, decision.reason.toUpperCase());
+    }
+    throw createError('Insufficient permissions', 403, decision.reason.toUpperCase());
+  }
+
+  return decision;
+};
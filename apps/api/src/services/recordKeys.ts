@@ -0,0 +1,182 @@
+import { and, eq, ne, notExists } from 'drizzle-orm';
+import { db, medicalRecords, patients, recordKeys, users } from '@aarovia/database';
+import { getPublicKeyFingerprint, wrapDataKey } from '@aarovia/web3';
+import { getMasterKeyProvider } from './keys';
+
+type Database = typeof db;
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+const ROTATION_BATCH_SIZE = 100;
+
+/**
+ * Wrap a data key for a user, if they have registered a public key
+ */
+const wrapForUser = async (
+  recordId: string,
+  dataKey: string,
+  userId: string,
+  executor: Database | Transaction = db
+) => {
+  const user = await executor.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { encryptionPublicKey: true }
+  });
+
+  if (!user?.encryptionPublicKey) {
+    return undefined;
+  }
+
+  return {
+    recordId,
+    recipientType: 'user' as const,
+    userId,
+    keyId: await getPublicKeyFingerprint(user.encryptionPublicKey),
+    wrappedKey: await wrapDataKey(dataKey, user.encryptionPublicKey, recordId)
+  };
+};
+
+/**
+ * Store a new record's data key wrapped with the master key and for each recipient.
+ * Runs inside the caller's transaction so the record never exists without its key.
+ */
+export const sealRecordKey = async (
+  tx: Transaction,
+  recordId: string,
+  dataKey: string,
+  recipientUserIds: string[]
+): Promise<void> => {
+  const master = await getMasterKeyProvider().wrap(dataKey, recordId);
+  const recipients = await Promise.all(recipientUserIds.map(userId => wrapForUser(recordId, dataKey, userId, tx)));
+
+  await tx.insert(recordKeys).values([
+    { recordId, recipientType: 'master', keyId: master.keyId, wrappedKey: master.wrappedKey },
+    ...recipients.filter((entry): entry is NonNullable<typeof entry> => Boolean(entry))
+  ]);
+};
+
+/**
+ * Recover a record's data key through the master key (server-side decryption)
+ */
+export const getRecordDataKey = async (recordId: string): Promise<string> => {
+  const entry = await db.query.recordKeys.findFirst({
+    where: and(eq(recordKeys.recordId, recordId), eq(recordKeys.recipientType, 'master'))
+  });
+
+  if (!entry) {
+    throw new Error(`No master-wrapped key for record ${recordId}`);
+  }
+
+  return getMasterKeyProvider().unwrap(entry.keyId, entry.wrappedKey, recordId);
+};
+
+/**
+ * The data key wrapped for a given user, if one exists
+ */
+export const getWrappedKeyForUser = async (recordId: string, userId: string): Promise<string | undefined> => {
+  const entry = await db.query.recordKeys.findFirst({
+    where: and(
+      eq(recordKeys.recordId, recordId),
+      eq(recordKeys.recipientType, 'user'),
+      eq(recordKeys.userId, userId)
+    ),
+    columns: { wrappedKey: true }
+  });
+
+  return entry?.wrappedKey;
+};
+
+/**
+ * Give a user their own wrapped copy of a record's data key (used when sharing).
+ * Returns false if the user has not registered a public key yet.
+ */
+export const grantRecordKey = async (recordId: string, userId: string): Promise<boolean> => {
+  const entry = await wrapForUser(recordId, await getRecordDataKey(recordId), userId);
+  if (!entry) {
+    return false;
+  }
+
+  await db.insert(recordKeys)
+    .values(entry)
+    .onConflictDoUpdate({
+      target: [recordKeys.recordId, recordKeys.recipientType, recordKeys.userId],
+      set: { keyId: entry.keyId, wrappedKey: entry.wrappedKey, updatedAt: new Date() }
+    });
+
+  return true;
+};
+
+export const revokeRecordKey = async (recordId: string, userId: string): Promise<void> => {
+  await db.delete(recordKeys).where(and(
+    eq(recordKeys.recordId, recordId),
+    eq(recordKeys.recipientType, 'user'),
+    eq(recordKeys.userId, userId)
+  ));
+};
+
+/**
+ * Re-wrap a user's keys after they register a new public key. Patients also
+ * receive keys for any of their own records that did not have one yet.
+ */
+export const syncUserRecordKeys = async (userId: string): Promise<number> => {
+  const existing = await db.query.recordKeys.findMany({
+    where: and(eq(recordKeys.recipientType, 'user'), eq(recordKeys.userId, userId)),
+    columns: { recordId: true }
+  });
+
+  const owned = await db
+    .select({ recordId: medicalRecords.id })
+    .from(medicalRecords)
+    .innerJoin(patients, eq(medicalRecords.patientId, patients.id))
+    .where(and(
+      eq(patients.userId, userId),
+      notExists(
+        db.select().from(recordKeys).where(and(
+          eq(recordKeys.recordId, medicalRecords.id),
+          eq(recordKeys.recipientType, 'user'),
+          eq(recordKeys.userId, userId)
+        ))
+      )
+    ));
+
+  const recordIds = [...existing, ...owned].map(row => row.recordId);
+  for (const recordId of recordIds) {
+    await grantRecordKey(recordId, userId);
+  }
+
+  return recordIds.length;
+};
+
+/**
+ * Create a new master key and re-wrap every data key under it. Files on IPFS
+ * are untouched since the data keys themselves do not change.
+ */
+export const rotateMasterKey = async (): Promise<{ keyId: string; rewrapped: number }> => {
+  const provider = getMasterKeyProvider();
+  const keyId = await provider.rotate();
+  let rewrapped = 0;
+
+  for (;;) {
+    const batch = await db.query.recordKeys.findMany({
+      where: and(eq(recordKeys.recipientType, 'master'), ne(recordKeys.keyId, keyId)),
+      limit: ROTATION_BATCH_SIZE
+    });
+
+    if (!batch.length) {
+      break;
+    }
+
+    for (const entry of batch) {
+      const dataKey = await provider.unwrap(entry.keyId, entry.wrappedKey, entry.recordId);
+      const wrapped = await provider.wrap(dataKey, entry.recordId);
+
+      await db.update(recordKeys)
+        .set({ keyId: wrapped.keyId, wrappedKey: wrapped.wrappedKey, updatedAt: new Date() })
+        .where(eq(recordKeys.id, entry.id));
+    }
+
+    rewrapped += batch.length;
+  }
+
+  return { keyId, rewrapped };
+};
+
@@ -0,0 +1,395 @@
+import { SQL, and, asc, desc, eq, gte, ilike, inArray, isNull, lt, lte, or, sql } from 'drizzle-orm';
+import {
+  db,
+  medicalRecords,
+  patients,
+  providers,
+  users,
+  MedicalRecord as MedicalRecordRow,
+  Provider
+} from '@aarovia/database';
+import { MedicalRecord, PaginationResponse } from '@aarovia/types';
+import {
+  ENCRYPTION_HEADER_LENGTH,
+  collectStream,
+  createDecryptionStream,
+  createRangeDecryptionStream,
+  ethers,
+  encryptFile,
+  generateEncryptionKey,
+  generateRecordHash,
+  getCiphertextRange,
+  parseEncryptionHeader
+} from '@aarovia/web3';
+import { createError } from '../middleware/errorHandler';
+import { enforce, Subject } from './policy';
+import { coveredRecordIds, findCoveringProviderUserIds } from './grants';
+import { getRecordDataKey, getWrappedKeyForUser, sealRecordKey } from './recordKeys';
+import { ByteRange, getRecordStore } from './storage';
+import { getMedicalRecordsContract, getServerSigner, isChainConfigured, isRelayerConfigured } from './chain';
+import { Job, runExclusive } from './scheduler';
+import { trackTransaction } from './transactions';
+
+// Pending records without a transaction this long after their last attempt are anchored again
+const REANCHOR_AFTER_MS = Number(process.env.RECORD_REANCHOR_AFTER_MS || 5 * 60 * 1000);
+const REANCHOR_BATCH_SIZE = 50;
+
+export interface CreateRecordInput {
+  title: string;
+  description?: string;
+  category: MedicalRecordRow['category'];
+  date: string;
+  patientId?: string;
+  providerId?: string;
+  tags?: string[];
+}
+
+export interface ListRecordsQuery {
+  page: number;
+  limit: number;
+  category?: MedicalRecordRow['category'];
+  providerId?: string;
+  tag?: string;
+  from?: Date;
+  to?: Date;
+  search?: string;
+  sortBy: 'recordDate' | 'createdAt';
+  sortOrder: 'asc' | 'desc';
+}
+
+/**
+ * Shape a database row as the shared MedicalRecord type
+ */
+export const toMedicalRecord = (
+  row: MedicalRecordRow,
+  provider?: Pick<Provider, 'id' | 'name'> | null,
+  wrappedKey?: string
+): MedicalRecord => ({
+  id: row.id,
+  patientId: row.patientId,
+  providerId: row.providerId ?? undefined,
+  title: row.title,
+  description: row.description ?? undefined,
+  category: row.category,
+  fileName: row.fileName,
+  fileSize: row.fileSize,
+  fileMimeType: row.fileMimeType,
+  ipfsHash: row.ipfsHash,
+  recordHash: row.recordHash,
+  blockchainTxHash: row.blockchainTxHash ?? undefined,
+  status: row.status,
+  recordDate: row.recordDate,
+  tags: row.tags ?? undefined,
+  wrappedKey,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+  ...(provider && { provider: { id: provider.id, name: provider.name } })
+});
+
+/**
+ * Work out which patient the record belongs to and which provider authored it
+ */
+const resolveOwnership = async (uploader: Subject, input: CreateRecordInput) => {
+  if (uploader.role === 'provider') {
+    if (!input.patientId) {
+      throw createError('patientId is required when a provider uploads a record', 400);
+    }
+
+    await enforce(uploader, 'patient:records:write', { type: 'patient', id: input.patientId });
+
+    const [patient, provider] = await Promise.all([
+      db.query.patients.findFirst({ where: eq(patients.id, input.patientId) }),
+      db.query.providers.findFirst({ where: eq(providers.userId, uploader.id) })
+    ]);
+
+    return { patientId: input.patientId, patientUserId: patient!.userId, provider: provider! };
+  }
+
+  const patient = await db.query.patients.findFirst({
+    where: eq(patients.userId, uploader.id)
+  });
+
+  if (!patient) {
+    throw createError('Patient profile not found', 404, 'PATIENT_PROFILE_NOT_FOUND');
+  }
+
+  if (!input.providerId) {
+    return { patientId: patient.id, patientUserId: patient.userId, provider: undefined };
+  }
+
+  const provider = await db.query.providers.findFirst({
+    where: eq(providers.id, input.providerId)
+  });
+
+  if (!provider) {
+    throw createError('Provider not found', 400, 'PROVIDER_NOT_FOUND');
+  }
+
+  return { patientId: patient.id, patientUserId: patient.userId, provider };
+};
+
+// Escape LIKE wildcards so search text is matched literally
+const likePattern = (text: string) => `%${text.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+
+/**
+ * List a patient's records with filters, sorting and offset pagination.
+ * With `grantedTo`, only records that provider's active read grants cover.
+ */
+export const listPatientRecords = async (
+  patientId: string,
+  query: ListRecordsQuery,
+  grantedTo?: string
+): Promise<PaginationResponse<MedicalRecord>> => {
+  const conditions: SQL[] = [eq(medicalRecords.patientId, patientId)];
+
+  if (grantedTo) {
+    conditions.push(inArray(medicalRecords.id, coveredRecordIds(grantedTo, 'read')));
+  }
+
+  if (query.category) {
+    conditions.push(eq(medicalRecords.category, query.category));
+  }
+  if (query.providerId) {
+    conditions.push(eq(medicalRecords.providerId, query.providerId));
+  }
+  if (query.tag) {
+    conditions.push(sql`${medicalRecords.tags} @> ${JSON.stringify([query.tag])}::jsonb`);
+  }
+  if (query.from) {
+    conditions.push(gte(medicalRecords.recordDate, query.from));
+  }
+  if (query.to) {
+    conditions.push(lte(medicalRecords.recordDate, query.to));
+  }
+  if (query.search) {
+    const pattern = likePattern(query.search);
+    conditions.push(or(ilike(medicalRecords.title, pattern), ilike(medicalRecords.description, pattern))!);
+  }
+
+  const where = and(...conditions);
+  const direction = query.sortOrder === 'asc' ? asc : desc;
+
+  const [rows, [{ total }]] = await Promise.all([
+    db.query.medicalRecords.findMany({
+      where,
+      with: {
+        provider: {
+          columns: { id: true, name: true }
+        }
+      },
+      orderBy: [direction(medicalRecords[query.sortBy]), direction(medicalRecords.id)],
+      limit: query.limit,
+      offset: (query.page - 1) * query.limit
+    }),
+    db.select({ total: sql<number>`count(*)::int` }).from(medicalRecords).where(where)
+  ]);
+
+  return {
+    data: rows.map(row => toMedicalRecord(row, row.provider)),
+    pagination: {
+      page: query.page,
+      limit: query.limit,
+      total,
+      totalPages: Math.ceil(total / query.limit)
+    }
+  };
+};
+
+/**
+ * Submit the record hash on chain, tracking the transaction for the patient's
+ * user. With a relayer the server wallet registers the record as owned by the
+ * patient's wallet, so the patient can sign access changes themselves. The
+ * record stays pending until the transaction tracker confirms it; failures
+ * leave it pending for the re-anchor job (or failed, if the contract reverted)
+ * instead of rolling back the upload.
+ */
+const anchorRecord = async (record: MedicalRecordRow, patientUserId: string): Promise<MedicalRecordRow> => {
+  if (!isChainConfigured()) {
+    console.warn(`Blockchain not configured, record ${record.id} left pending`);
+    return record;
+  }
+
+  try {
+    const contract = getMedicalRecordsContract();
+    const timestamp = Math.floor(record.createdAt.getTime() / 1000);
+    const owner = isRelayerConfigured()
+      ? await db.query.users.findFirst({ where: eq(users.id, patientUserId), columns: { address: true } })
+      : undefined;
+
+    const tx = owner
+      ? await contract.storeRecordFor(record.recordHash, record.ipfsHash, timestamp, owner.address, getServerSigner())
+      : await contract.storeRecord(record.recordHash, record.ipfsHash, timestamp, getServerSigner());
+    await trackTransaction(tx, 'record_upload', { userId: patientUserId, recordId: record.id });
+
+    const [updated] = await db.update(medicalRecords)
+      .set({ blockchainTxHash: tx.hash, updatedAt: new Date() })
+      .where(eq(medicalRecords.id, record.id))
+      .returning();
+
+    return updated;
+  } catch (error) {
+    console.error(`Failed to anchor record ${record.id}:`, error);
+
+    // Reverts surface while the transaction is estimated, before anything is broadcast
+    const reverted = ethers.isError(error, 'CALL_EXCEPTION');
+    const [updated] = await db.update(medicalRecords)
+      .set({ status: reverted ? 'failed' : 'pending', updatedAt: new Date() })
+      .where(eq(medicalRecords.id, record.id))
+      .returning();
+
+    return updated;
+  }
+};
+
+/**
+ * Anchor pending records whose submission never went out, e.g. because the
+ * RPC node was unreachable during the upload. Records are claimed under the
+ * job's advisory lock by stamping updatedAt, so concurrent runs move on to
+ * other records and a record is retried at most once per REANCHOR_AFTER_MS.
+ */
+export const reanchorPendingRecords = async (now: Date = new Date()) => {
+  if (!isChainConfigured()) {
+    return { skipped: true, submitted: 0 };
+  }
+
+  const claimed = await runExclusive('reanchor-records', async (tx) => {
+    return tx.update(medicalRecords)
+      .set({ updatedAt: now })
+      .where(inArray(
+        medicalRecords.id,
+        tx.select({ id: medicalRecords.id })
+          .from(medicalRecords)
+          .where(and(
+            eq(medicalRecords.status, 'pending'),
+            isNull(medicalRecords.blockchainTxHash),
+            lt(medicalRecords.updatedAt, new Date(now.getTime() - REANCHOR_AFTER_MS))
+          ))
+          .orderBy(asc(medicalRecords.updatedAt))
+          .limit(REANCHOR_BATCH_SIZE)
+      ))
+      .returning();
+  });
+
+  if (!claimed) {
+    return { skipped: true, submitted: 0 };
+  }
+
+  let submitted = 0;
+  for (const record of claimed) {
+    try {
+      const patient = await db.query.patients.findFirst({
+        where: eq(patients.id, record.patientId),
+        columns: { userId: true }
+      });
+
+      if (patient && (await anchorRecord(record, patient.userId)).blockchainTxHash) {
+        submitted++;
+      }
+    } catch (error) {
+      console.error(`Failed to re-anchor record ${record.id}:`, error);
+    }
+  }
+
+  if (claimed.length) {
+    console.log(`Re-anchored ${submitted} of ${claimed.length} pending records`);
+  }
+
+  return { skipped: false, submitted };
+};
+
+export const createRecordAnchorJob = (): Job => ({
+  name: 'reanchor-records',
+  intervalMs: Number(process.env.RECORD_REANCHOR_INTERVAL_MS || 60 * 1000),
+  async run() {
+    await reanchorPendingRecords();
+  }
+});
+
+/**
+ * Encrypt the file, store it on IPFS, persist the record and anchor its hash on chain
+ */
+export const createRecord = async (
+  uploader: Subject,
+  file: Express.Multer.File,
+  input: CreateRecordInput
+): Promise<MedicalRecord> => {
+  const { patientId, patientUserId, provider } = await resolveOwnership(uploader, input);
+
+  const encryptionKey = generateEncryptionKey();
+  const encryptedFile = await encryptFile(
+    new File([new Uint8Array(file.buffer)], file.originalname, { type: file.mimetype }),
+    encryptionKey
+  );
+
+  let ipfsHash: string;
+  try {
+    const stored = await getRecordStore().put(encryptedFile);
+    ipfsHash = stored.hash;
+  } catch (error) {
+    console.error('Record upload failed:', error);
+    throw createError('Failed to store file on IPFS', 502, 'IPFS_UPLOAD_FAILED');
+  }
+
+  const recordHash = generateRecordHash(patientId, file.originalname, Date.now());
+
+  // The data key is only ever stored wrapped (master key + owner/uploader public keys)
+  const record = await db.transaction(async (tx) => {
+    const [inserted] = await tx.insert(medicalRecords).values({
+      patientId,
+      providerId: provider?.id,
+      title: input.title,
+      description: input.description,
+      category: input.category,
+      fileName: file.originalname,
+      fileSize: file.size,
+      fileMimeType: file.mimetype,
+      ipfsHash,
+      recordHash,
+      recordDate: new Date(input.date),
+      tags: input.tags,
+      status: 'pending'
+    }).returning();
+
+    // Providers holding standing grants that cover the new record get a key straight away
+    const grantees = await findCoveringProviderUserIds(tx, inserted.id);
+    await sealRecordKey(tx, inserted.id, encryptionKey, [...new Set([patientUserId, uploader.id, ...grantees])]);
+
+    return inserted;
+  });
+
+  const anchored = await anchorRecord(record, patientUserId);
+
+  return toMedicalRecord(anchored, provider, await getWrappedKeyForUser(anchored.id, uploader.id));
+};
+
+const fetchCiphertext = async (record: MedicalRecordRow, range?: ByteRange) => {
+  try {
+    return await getRecordStore().get(record.ipfsHash, range);
+  } catch (error) {
+    console.error(`Failed to fetch content for record ${record.id}:`, error);
+    throw createError('Record content is unavailable', 502, 'CONTENT_UNAVAILABLE');
+  }
+};
+
+/**
+ * Stream a record's decrypted content, or an inclusive byte range of it.
+ * Only the chunks covering the range are fetched and decrypted.
+ */
+export const openRecordContent = async (
+  record: MedicalRecordRow,
+  range?: ByteRange
+): Promise<ReadableStream<Uint8Array>> => {
+  const dataKey = await getRecordDataKey(record.id);
+
+  if (!range) {
+    return (await fetchCiphertext(record)).pipeThrough(createDecryptionStream(dataKey));
+  }
+
+  const header = parseEncryptionHeader(
+    await collectStream(await fetchCiphertext(record, { start: 0, end: ENCRYPTION_HEADER_LENGTH - 1 }))
+  );
+  const decryptionRange = { ...range, plaintextSize: record.fileSize };
+
+  return (await fetchCiphertext(record, getCiphertextRange(header.chunkSize, decryptionRange)))
+    .pipeThrough(createRangeDecryptionStream(dataKey, header, decryptionRange));
+};
@@ -0,0 +1,66 @@
+import type { ForwardRequest } from '@aarovia/web3';
+import { MedicalRecordsStorage__factory } from '@aarovia/web3';
+
+describe('gasless relay', () => {
+  let relay: typeof import('./relay');
+
+  const request: ForwardRequest = {
+    from: '0x0000000000000000000000000000000000000001',
+    to: '0x0000000000000000000000000000000000000002',
+    value: 0n,
+    gas: 120000n,
+    nonce: 3n,
+    deadline: 1767225600n,
+    data: '0x1234'
+  };
+
+  beforeAll(async () => {
+    // The service pulls in the database client, which only needs a URL until the first query
+    process.env.DATABASE_URL ??= 'postgres://localhost:5432/aarovia_test';
+    delete process.env.MEDICAL_RECORDS_FORWARDER_CONTRACT;
+    relay = await import('./relay');
+  });
+
+  it('serializes requests with decimal strings for JSON', () => {
+    expect(relay.toRelayRequest(request)).toEqual({
+      ...request,
+      value: '0',
+      gas: '120000',
+      nonce: '3',
+      deadline: '1767225600'
+    });
+  });
+
+  it('refuses to relay without a forwarder', async () => {
+    const user = { id: 'user-1', address: request.from };
+
+    await expect(relay.relayRequest(user, request, '0x')).rejects.toMatchObject({
+      statusCode: 503,
+      code: 'RELAYER_NOT_CONFIGURED'
+    });
+    await expect(relay.getRelayStatus(user)).rejects.toMatchObject({ code: 'RELAYER_NOT_CONFIGURED' });
+  });
+
+  it('only relays access changes', async () => {
+    const storage = '0x0000000000000000000000000000000000000003';
+    const chainEnv = {
+      RPC_URL: 'http://127.0.0.1:8545',
+      SERVER_WALLET_PRIVATE_KEY: `0x${'11'.repeat(32)}`,
+      MEDICAL_RECORDS_ACCESS_CONTRACT: request.to,
+      MEDICAL_RECORDS_STORAGE_CONTRACT: storage,
+      MEDICAL_RECORDS_FORWARDER_CONTRACT: '0x0000000000000000000000000000000000000004'
+    };
+    const saved = { ...process.env };
+    Object.assign(process.env, chainEnv);
+
+    try {
+      const data = MedicalRecordsStorage__factory.createInterface()
+        .encodeFunctionData('storeRecord', [`0x${'ef'.repeat(32)}`, 'QmRecord', 1767225600n]);
+
+      await expect(relay.relayRequest({ id: 'user-1', address: request.from }, { ...request, to: storage, data }, '0x'))
+        .rejects.toMatchObject({ statusCode: 400, code: 'UNSUPPORTED_TRANSACTION' });
+    } finally {
+      process.env = saved;
+    }
+  });
+});
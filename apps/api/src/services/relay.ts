@@ -0,0 +1,292 @@
+import { and, eq, gte, isNotNull, ne, or, sql } from 'drizzle-orm';
+import { db, accessGrants, blockchainTransactions } from '@aarovia/database';
+import { RelayRequest, RelayStatus, RelayTypedData, Transaction } from '@aarovia/types';
+import {
+  ethers,
+  FORWARD_REQUEST_TYPES,
+  ForwardRequest,
+  MedicalRecordsAccess__factory,
+  getForwarderDomain,
+  recoverForwardRequestSigner
+} from '@aarovia/web3';
+import { createError } from '../middleware/errorHandler';
+import { getForwarderContract, getRelayerSigner, isRelayerConfigured } from './chain';
+import { isGrantActive } from './grants';
+import { decodeContractCall, linkSubmittedCall, resolveCallLinks, trackTransaction } from './transactions';
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Most gas a single request may forward to the target contract
+const MAX_REQUEST_GAS = BigInt(process.env.RELAYER_MAX_GAS || 500000);
+// Relayer gas each user may spend per rolling window
+const GAS_BUDGET = BigInt(process.env.RELAYER_DAILY_GAS_BUDGET || 2000000);
+const BUDGET_WINDOW_HOURS = 24;
+// How long a prepared request stays valid for signing
+const REQUEST_TTL_SECONDS = Number(process.env.RELAYER_REQUEST_TTL_SECONDS || 15 * 60);
+
+const RELAY_LOCK = 'aarovia:relayer';
+
+interface RelayUser {
+  id: string;
+  address: string;
+}
+
+const sameAddress = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+const assertRelayerConfigured = (): void => {
+  if (!isRelayerConfigured()) {
+    throw createError('Gasless transactions are not configured', 503, 'RELAYER_NOT_CONFIGURED');
+  }
+};
+
+const gasLimitWithMargin = (estimate: bigint): bigint => estimate * 12n / 10n;
+
+export const toRelayRequest = (request: ForwardRequest): RelayRequest => ({
+  from: request.from,
+  to: request.to,
+  value: request.value.toString(),
+  gas: request.gas.toString(),
+  nonce: request.nonce.toString(),
+  deadline: request.deadline.toString(),
+  data: request.data
+});
+
+const getDomain = async (): Promise<ethers.TypedDataDomain> => {
+  const { chainId } = await getRelayerSigner().provider!.getNetwork();
+  return getForwarderDomain(chainId, process.env.MEDICAL_RECORDS_FORWARDER_CONTRACT!);
+};
+
+/**
+ * Gas the relayer spent, or has committed while still pending, on a user's
+ * requests within the budget window. Replaced and dropped transactions never
+ * cost anything.
+ */
+const getGasSpent = async (executor: typeof db | DbTransaction, userId: string, now: Date): Promise<bigint> => {
+  const since = new Date(now.getTime() - BUDGET_WINDOW_HOURS * 60 * 60 * 1000);
+
+  const [{ spent }] = await executor
+    .select({
+      spent: sql<string>`coalesce(sum(coalesce(${blockchainTransactions.gasUsed}, ${blockchainTransactions.gasLimit}, '0')::numeric), 0)::text`
+    })
+    .from(blockchainTransactions)
+    .where(and(
+      eq(blockchainTransactions.userId, userId),
+      isNotNull(blockchainTransactions.forwardedFrom),
+      gte(blockchainTransactions.submittedAt, since),
+      or(ne(blockchainTransactions.status, 'failed'), eq(blockchainTransactions.failureReason, 'reverted'))
+    ));
+
+  return BigInt(spent);
+};
+
+/**
+ * Relayer and forwarder a user's requests go through, the nonce their next
+ * request must carry and what is left of their gas budget
+ */
+export const getRelayStatus = async (user: RelayUser, now: Date = new Date()): Promise<RelayStatus> => {
+  assertRelayerConfigured();
+
+  const [nonce, spent] = await Promise.all([
+    getForwarderContract().nonces(user.address),
+    getGasSpent(db, user.id, now)
+  ]);
+
+  return {
+    forwarder: process.env.MEDICAL_RECORDS_FORWARDER_CONTRACT!,
+    relayer: getRelayerSigner().address,
+    nonce: nonce.toString(),
+    gasBudget: {
+      limit: GAS_BUDGET.toString(),
+      used: spent.toString(),
+      remaining: (spent < GAS_BUDGET ? GAS_BUDGET - spent : 0n).toString(),
+      windowHours: BUDGET_WINDOW_HOURS
+    }
+  };
+};
+
+/**
+ * Build the typed data a patient signs to record one of their single-record
+ * grants on chain: grantAccess while it is active, revokeAccess once revoked
+ */
+export const prepareGrantRelayRequest = async (user: RelayUser, accessGrantId: string): Promise<RelayTypedData> => {
+  assertRelayerConfigured();
+
+  const grant = await db.query.accessGrants.findFirst({
+    where: eq(accessGrants.id, accessGrantId),
+    with: {
+      patient: { columns: { userId: true } },
+      provider: { with: { user: { columns: { address: true } } } },
+      record: { columns: { recordHash: true } }
+    }
+  });
+
+  if (!grant || grant.patient.userId !== user.id) {
+    throw createError('Access grant not found', 404, 'GRANT_NOT_FOUND');
+  }
+  if (grant.scope !== 'record' || !grant.record) {
+    throw createError('Only single-record grants are recorded on chain', 400, 'GRANT_NOT_ON_CHAIN');
+  }
+  if (!grant.isRevoked && !isGrantActive(grant)) {
+    throw createError('Access grant has expired', 400, 'GRANT_EXPIRED');
+  }
+
+  const accessContract = MedicalRecordsAccess__factory.createInterface();
+  const data = grant.isRevoked
+    ? accessContract.encodeFunctionData('revokeAccess', [grant.record.recordHash, grant.provider.user.address])
+    : accessContract.encodeFunctionData('grantAccess', [
+      grant.record.recordHash,
+      grant.provider.user.address,
+      grant.expiresAt ? Math.floor(grant.expiresAt.getTime() / 1000) : 0,
+      grant.permissions
+    ]);
+
+  const forwarderAddress = process.env.MEDICAL_RECORDS_FORWARDER_CONTRACT!;
+  const to = process.env.MEDICAL_RECORDS_ACCESS_CONTRACT!;
+  const provider = getRelayerSigner().provider!;
+
+  // The forwarder appends the signer to the calldata, so estimating the call
+  // from the forwarder's address runs it exactly as a relayed one would
+  let estimate: bigint;
+  try {
+    estimate = await provider.estimateGas({ from: forwarderAddress, to, data: ethers.concat([data, user.address]) });
+  } catch (error) {
+    console.error(`Relayed call for grant ${grant.id} would revert:`, error);
+    throw createError('The contract would reject this request', 409, 'RELAY_REQUEST_REVERTED');
+  }
+
+  const gas = gasLimitWithMargin(estimate);
+  if (gas > MAX_REQUEST_GAS) {
+    throw createError('Request needs more gas than the relayer forwards', 400, 'RELAY_GAS_LIMIT_EXCEEDED');
+  }
+
+  const [domain, nonce] = await Promise.all([getDomain(), getForwarderContract().nonces(user.address)]);
+
+  return {
+    domain: {
+      name: domain.name!,
+      version: domain.version!,
+      chainId: Number(domain.chainId),
+      verifyingContract: forwarderAddress
+    },
+    types: FORWARD_REQUEST_TYPES,
+    primaryType: 'ForwardRequest',
+    message: toRelayRequest({
+      from: user.address,
+      to,
+      value: 0n,
+      gas,
+      nonce,
+      deadline: BigInt(Math.floor(Date.now() / 1000) + REQUEST_TTL_SECONDS),
+      data
+    })
+  };
+};
+
+/**
+ * Submit a request the user signed through the trusted forwarder, paid for by
+ * the relayer wallet. Only grants and revokes on the user's own records,
+ * within their gas budget, are relayed, and a user has at most one relayed
+ * request in flight so its forwarder nonce is the one on chain. Submissions
+ * hold an advisory lock so concurrent API instances never reuse a relayer
+ * nonce.
+ */
+export const relayRequest = async (
+  user: RelayUser,
+  request: ForwardRequest,
+  signature: string,
+  accessGrantId?: string,
+  now: Date = new Date()
+): Promise<Transaction> => {
+  assertRelayerConfigured();
+
+  if (!sameAddress(request.from, user.address)) {
+    throw createError('Requests must be signed by your wallet', 403, 'RELAY_SIGNER_MISMATCH');
+  }
+
+  // Records are registered by the server wallet, so only access changes are relayed
+  const call = decodeContractCall(request.to, request.data);
+  if (!call || call.type === 'record_upload') {
+    throw createError('Only access changes can be relayed', 400, 'UNSUPPORTED_TRANSACTION');
+  }
+  if (request.value !== 0n) {
+    throw createError('Relayed requests cannot carry value', 400, 'INVALID_RELAY_REQUEST');
+  }
+  if (request.gas > MAX_REQUEST_GAS) {
+    throw createError('Request needs more gas than the relayer forwards', 400, 'RELAY_GAS_LIMIT_EXCEEDED');
+  }
+  if (request.deadline <= BigInt(Math.floor(now.getTime() / 1000))) {
+    throw createError('Request has expired', 400, 'RELAY_REQUEST_EXPIRED');
+  }
+
+  let signer: string | undefined;
+  try {
+    signer = recoverForwardRequestSigner(await getDomain(), request, signature);
+  } catch {
+    signer = undefined;
+  }
+  if (!signer || !sameAddress(signer, request.from)) {
+    throw createError('Invalid request signature', 400, 'INVALID_RELAY_SIGNATURE');
+  }
+
+  const recordId = await resolveCallLinks(user, call, accessGrantId);
+  if (!recordId) {
+    throw createError('Record not found', 404, 'RECORD_NOT_FOUND');
+  }
+
+  const hash = await db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${RELAY_LOCK}))`);
+
+    const inFlight = await tx.query.blockchainTransactions.findFirst({
+      where: and(
+        sql`lower(${blockchainTransactions.forwardedFrom}) = ${request.from.toLowerCase()}`,
+        eq(blockchainTransactions.status, 'pending')
+      ),
+      columns: { hash: true }
+    });
+    if (inFlight) {
+      throw createError('A previous request is still pending', 409, 'RELAY_REQUEST_PENDING');
+    }
+
+    const forwarder = getForwarderContract();
+    const nonce = await forwarder.nonces(request.from);
+    if (request.nonce !== nonce) {
+      throw createError(`Request nonce must be ${nonce}`, 409, 'RELAY_NONCE_MISMATCH');
+    }
+
+    let estimate: bigint;
+    try {
+      estimate = await forwarder.execute.estimateGas(request, signature);
+    } catch (error) {
+      console.error(`Relayed request from ${request.from} would revert:`, error);
+      throw createError('The contract would reject this request', 409, 'RELAY_REQUEST_REVERTED');
+    }
+
+    const gasLimit = gasLimitWithMargin(estimate);
+    const spent = await getGasSpent(tx, user.id, now);
+    if (spent + gasLimit > GAS_BUDGET) {
+      throw createError('Gas budget for relayed requests is used up, try again later', 429, 'RELAY_BUDGET_EXCEEDED');
+    }
+
+    const relayer = getRelayerSigner();
+    let response: ethers.ContractTransactionResponse;
+    try {
+      const relayerNonce = await relayer.provider!.getTransactionCount(relayer.address, 'pending');
+      response = await forwarder.execute(request, signature, { nonce: relayerNonce, gasLimit });
+    } catch (error) {
+      console.error(`Failed to relay request from ${request.from}:`, error);
+      throw createError('Relayer could not submit the request', 503, 'RELAYER_UNAVAILABLE');
+    }
+
+    await trackTransaction(response, call.type, {
+      userId: user.id,
+      recordId,
+      accessGrantId,
+      forwardedFrom: request.from,
+      forwardNonce: Number(request.nonce)
+    }, tx);
+
+    return response.hash;
+  });
+
+  return linkSubmittedCall(hash, request.to, call, recordId, accessGrantId);
+};
@@ -0,0 +1,76 @@
+import { sql } from 'drizzle-orm';
+import { db } from '@aarovia/database';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface Job {
+  name: string;
+  intervalMs: number;
+  run(): Promise<void>;
+}
+
+const timers = new Map<string, NodeJS.Timeout>();
+const inFlight = new Map<string, Promise<void>>();
+
+/**
+ * Run `work` inside a transaction holding a Postgres advisory lock named after
+ * the job, so only one instance does it at a time. Returns undefined without
+ * running anything if another instance holds the lock. The lock is released
+ * when the transaction ends; all queries in `work` must go through `tx`.
+ */
+export const runExclusive = async <T>(
+  name: string,
+  work: (tx: Transaction) => Promise<T>
+): Promise<T | undefined> => {
+  return db.transaction(async (tx) => {
+    const [{ locked }] = await tx.execute<{ locked: boolean }>(
+      sql`select pg_try_advisory_xact_lock(hashtext(${`aarovia:${name}`})) as locked`
+    );
+
+    return locked ? work(tx) : undefined;
+  });
+};
+
+const runJob = (job: Job): Promise<void> => {
+  // Skip a tick rather than overlapping with a slow previous run
+  const running = inFlight.get(job.name);
+  if (running) {
+    return running;
+  }
+
+  const run = job.run()
+    .catch((error) => {
+      console.error(`Job ${job.name} failed:`, error);
+    })
+    .finally(() => {
+      inFlight.delete(job.name);
+    });
+
+  inFlight.set(job.name, run);
+  return run;
+};
+
+/**
+ * Run each job now and then on its interval
+ */
+export const startScheduler = (jobs: Job[]): void => {
+  for (const job of jobs) {
+    if (timers.has(job.name)) {
+      continue;
+    }
+    void runJob(job);
+    timers.set(job.name, setInterval(() => void runJob(job), job.intervalMs));
+    console.log(`Scheduled job ${job.name} every ${job.intervalMs}ms`);
+  }
+};
+
+/**
+ * Stop scheduling and wait for running jobs to finish
+ */
+export const stopScheduler = async (): Promise<void> => {
+  for (const timer of timers.values()) {
+    clearInterval(timer);
+  }
+  timers.clear();
+  await Promise.all(inFlight.values());
+};
@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { and, eq, isNull } from 'drizzle-orm';
+import { db, sessions, users, User } from '@aarovia/database';
+import { createError } from '../middleware/errorHandler';
+
+const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS || 15 * 60); // 15 minutes
+const REFRESH_TOKEN_TTL_MS = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30) * 24 * 60 * 60 * 1000;
+
+export interface SessionMetadata {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export interface AccessTokenPayload {
+  id: string;
+  address: string;
+  role: User['role'];
+  sid: string;
+}
+
+const hashRefreshToken = (refreshToken: string): string => {
+  return crypto.createHash('sha256').update(refreshToken).digest('hex');
+};
+
+const generateRefreshToken = (): string => {
+  return crypto.randomBytes(32).toString('base64url');
+};
+
+const signAccessToken = (user: Pick<User, 'id' | 'address' | 'role'>, familyId: string): string => {
+  const payload: AccessTokenPayload = {
+    id: user.id,
+    address: user.address,
+    role: user.role,
+    sid: familyId
+  };
+
+  return jwt.sign(payload, process.env.JWT_SECRET!, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+};
+
+/**
+ * Start a new session (token family) for a user
+ */
+export const createSession = async (
+  user: Pick<User, 'id' | 'address' | 'role'>,
+  metadata: SessionMetadata = {}
+): Promise<SessionTokens> => {
+  const familyId = crypto.randomUUID();
+  const refreshToken = generateRefreshToken();
+
+  await db.insert(sessions).values({
+    userId: user.id,
+    familyId,
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    ipAddress: metadata.ipAddress,
+    userAgent: metadata.userAgent
+  });
+
+  return {
+    token: signAccessToken(user, familyId),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS
+  };
+};
+
+/**
+ * Exchange a refresh token for a new token pair. Presenting a refresh token
+ * that has already been rotated revokes the whole token family.
+ */
+export const rotateRefreshToken = async (
+  refreshToken: string,
+  metadata: SessionMetadata = {}
+): Promise<SessionTokens> => {
+  const current = await db.query.sessions.findFirst({
+    where: eq(sessions.refreshTokenHash, hashRefreshToken(refreshToken)),
+    with: { user: true }
+  });
+
+  if (!current) {
+    throw createError('Invalid refresh token', 401, 'INVALID_REFRESH_TOKEN');
+  }
+
+  if (current.revokedAt) {
+    throw createError('Session has been revoked', 401, 'SESSION_REVOKED');
+  }
+
+  if (current.replacedBy) {
+    await revokeSession(current.familyId, 'reuse_detected');
+    throw createError('Refresh token reuse detected', 401, 'REFRESH_TOKEN_REUSED');
+  }
+
+  if (current.expiresAt <= new Date()) {
+    throw createError('Refresh token has expired', 401, 'REFRESH_TOKEN_EXPIRED');
+  }
+
+  if (!current.user.isActive) {
+    await revokeSession(current.familyId, 'logout');
+    throw createError('Account is deactivated', 403, 'ACCOUNT_DISABLED');
+  }
+
+  const nextId = crypto.randomUUID();
+  const nextRefreshToken = generateRefreshToken();
+
+  const rotated = await db.transaction(async (tx) => {
+    const [replaced] = await tx.update(sessions)
+      .set({ replacedBy: nextId })
+      .where(and(
+        eq(sessions.id, current.id),
+        isNull(sessions.replacedBy),
+        isNull(sessions.revokedAt)
+      ))
+      .returning({ id: sessions.id });
+
+    // Another request rotated this token first
+    if (!replaced) {
+      return false;
+    }
+
+    await tx.insert(sessions).values({
+      id: nextId,
+      userId: current.userId,
+      familyId: current.familyId,
+      refreshTokenHash: hashRefreshToken(nextRefreshToken),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent
+    });
+
+    return true;
+  });
+
+  if (!rotated) {
+    await revokeSession(current.familyId, 'reuse_detected');
+    throw createError('Refresh token reuse detected', 401, 'REFRESH_TOKEN_REUSED');
+  }
+
+  return {
+    token: signAccessToken(current.user, current.familyId),
+    refreshToken: nextRefreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS
+  };
+};
+
+/**
+ * Revoke every token in a session family
+ */
+export const revokeSession = async (
+  familyId: string,
+  reason: 'logout' | 'reuse_detected' = 'logout'
+): Promise<void> => {
+  await db.update(sessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(and(eq(sessions.familyId, familyId), isNull(sessions.revokedAt)));
+};
+
+/**
+ * Revoke every session of a user ("log out all devices")
+ */
+export const revokeAllSessions = async (userId: string): Promise<number> => {
+  const revoked = await db.update(sessions)
+    .set({ revokedAt: new Date(), revokedReason: 'logout_all' })
+    .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+    .returning({ familyId: sessions.familyId });
+
+  return new Set(revoked.map(row => row.familyId)).size;
+};
+
+/**
+ * Check that the session behind an access token is still live and its user active
+ */
+export const getActiveSessionUser = async (userId: string, familyId: string) => {
+  const [session] = await db
+    .select({ isActive: users.isActive, emailVerified: users.emailVerified })
+    .from(sessions)
+    .innerJoin(users, eq(sessions.userId, users.id))
+    .where(and(
+      eq(sessions.familyId, familyId),
+      eq(sessions.userId, userId),
+      isNull(sessions.revokedAt)
+    ))
+    .limit(1);
+
+  return session;
+};
@@ -0,0 +1,306 @@
+import jwt from 'jsonwebtoken';
+import bcrypt from 'bcryptjs';
+import QRCode from 'qrcode';
+import { and, desc, eq, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import { db, medicalRecords, shareLinks, ShareLink as ShareLinkRow } from '@aarovia/database';
+import { ShareLink } from '@aarovia/types';
+import { createError } from '../middleware/errorHandler';
+import { writeAuditLog } from './audit';
+
+const LINK_PURPOSE = 'share_link';
+const VIEW_PURPOSE = 'share_link_view';
+const VIEW_TOKEN_TTL_SECONDS = Number(process.env.SHARE_LINK_VIEW_TTL_SECONDS || 15 * 60); // 15 minutes
+const MAX_PIN_ATTEMPTS = 5;
+
+interface ShareLinkPayload {
+  sub: string;
+  purpose: typeof LINK_PURPOSE | typeof VIEW_PURPOSE;
+}
+
+export interface CreateShareLinkInput {
+  recordIds: string[];
+  expiresAt: Date;
+  pin?: string;
+  maxViews?: number;
+  label?: string;
+}
+
+export interface ViewerContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const getSecret = (): string => {
+  return process.env.SHARE_LINK_SECRET || process.env.JWT_SECRET!;
+};
+
+const toUnixSeconds = (date: Date): number => Math.floor(date.getTime() / 1000);
+
+/**
+ * Signed token for a link, valid until the link expires. Links are stateful
+ * (revocation, view limits), so a fresh token is as good as the original.
+ */
+const createLinkToken = (link: Pick<ShareLinkRow, 'id' | 'expiresAt'>): string => {
+  const payload: ShareLinkPayload = { sub: link.id, purpose: LINK_PURPOSE };
+  return jwt.sign({ ...payload, exp: toUnixSeconds(link.expiresAt) }, getSecret());
+};
+
+export const getShareLinkUrl = (link: Pick<ShareLinkRow, 'id' | 'expiresAt'>): string => {
+  const baseUrl = process.env.SHARE_LINK_BASE_URL || `${process.env.FRONTEND_URL || 'http://localhost:3000'}/share`;
+  return `${baseUrl}/${encodeURIComponent(createLinkToken(link))}`;
+};
+
+/**
+ * Shape a database row as the shared ShareLink type (never exposes the PIN hash)
+ */
+export const toShareLink = (row: ShareLinkRow, url?: string): ShareLink => ({
+  id: row.id,
+  patientId: row.patientId,
+  recordIds: row.recordIds,
+  label: row.label ?? undefined,
+  pinRequired: Boolean(row.pinHash),
+  maxViews: row.maxViews ?? undefined,
+  viewCount: row.viewCount,
+  lastViewedAt: row.lastViewedAt ?? undefined,
+  expiresAt: row.expiresAt,
+  revokedAt: row.revokedAt ?? undefined,
+  createdAt: row.createdAt,
+  url
+});
+
+const isLinkUsable = (link: ShareLinkRow, now: Date = new Date()): boolean => {
+  return !link.revokedAt && link.expiresAt > now && (link.maxViews === null || link.viewCount < link.maxViews);
+};
+
+/**
+ * Create a link to one or more of the patient's records
+ */
+export const createShareLink = async (patientId: string, input: CreateShareLinkInput): Promise<ShareLink> => {
+  const recordIds = [...new Set(input.recordIds)];
+
+  const owned = await db.query.medicalRecords.findMany({
+    where: and(eq(medicalRecords.patientId, patientId), inArray(medicalRecords.id, recordIds)),
+    columns: { id: true }
+  });
+
+  if (owned.length !== recordIds.length) {
+    throw createError('Record not found', 404, 'RECORD_NOT_FOUND');
+  }
+
+  const [link] = await db.insert(shareLinks).values({
+    patientId,
+    recordIds,
+    label: input.label,
+    pinHash: input.pin ? await bcrypt.hash(input.pin, 10) : null,
+    maxViews: input.maxViews,
+    expiresAt: input.expiresAt
+  }).returning();
+
+  return toShareLink(link, getShareLinkUrl(link));
+};
+
+/**
+ * A patient's links, newest first. Usable links carry their URL.
+ */
+export const listShareLinks = async (patientId: string): Promise<ShareLink[]> => {
+  const rows = await db.query.shareLinks.findMany({
+    where: eq(shareLinks.patientId, patientId),
+    orderBy: [desc(shareLinks.createdAt)]
+  });
+
+  return rows.map(row => toShareLink(row, isLinkUsable(row) ? getShareLinkUrl(row) : undefined));
+};
+
+const getPatientShareLink = async (patientId: string, linkId: string): Promise<ShareLinkRow> => {
+  const link = await db.query.shareLinks.findFirst({
+    where: and(eq(shareLinks.id, linkId), eq(shareLinks.patientId, patientId))
+  });
+
+  if (!link) {
+    throw createError('Share link not found', 404, 'SHARE_LINK_NOT_FOUND');
+  }
+  return link;
+};
+
+export const revokeShareLink = async (patientId: string, linkId: string): Promise<ShareLink> => {
+  const link = await getPatientShareLink(patientId, linkId);
+
+  if (link.revokedAt) {
+    throw createError('Share link has already been revoked', 409, 'SHARE_LINK_REVOKED');
+  }
+
+  const [revoked] = await db.update(shareLinks)
+    .set({ revokedAt: new Date(), updatedAt: new Date() })
+    .where(eq(shareLinks.id, link.id))
+    .returning();
+
+  return toShareLink(revoked);
+};
+
+/**
+ * QR code of a usable link as a PNG buffer or an SVG document
+ */
+export const renderShareLinkQrCode = async (
+  patientId: string,
+  linkId: string,
+  format: 'png' | 'svg',
+  size: number
+): Promise<Buffer | string> => {
+  const link = await getPatientShareLink(patientId, linkId);
+
+  if (!isLinkUsable(link)) {
+    throw createError('Share link is no longer usable', 410, 'SHARE_LINK_UNAVAILABLE');
+  }
+
+  const url = getShareLinkUrl(link);
+  return format === 'svg'
+    ? QRCode.toString(url, { type: 'svg', width: size, errorCorrectionLevel: 'M' })
+    : QRCode.toBuffer(url, { type: 'png', width: size, errorCorrectionLevel: 'M' });
+};
+
+const verifyToken = (token: string, purpose: ShareLinkPayload['purpose']): string => {
+  let payload: ShareLinkPayload;
+  try {
+    payload = jwt.verify(token, getSecret()) as ShareLinkPayload;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw createError('Share link has expired', 410, 'SHARE_LINK_EXPIRED');
+    }
+    throw createError('Invalid share link', 404, 'SHARE_LINK_NOT_FOUND');
+  }
+
+  if (payload.purpose !== purpose) {
+    throw createError('Invalid share link', 404, 'SHARE_LINK_NOT_FOUND');
+  }
+  return payload.sub;
+};
+
+/**
+ * Look up the link behind a token, rejecting revoked and expired links
+ */
+const loadShareLink = async (token: string): Promise<ShareLinkRow> => {
+  const linkId = verifyToken(token, LINK_PURPOSE);
+
+  const link = await db.query.shareLinks.findFirst({
+    where: eq(shareLinks.id, linkId)
+  });
+
+  if (!link) {
+    throw createError('Invalid share link', 404, 'SHARE_LINK_NOT_FOUND');
+  }
+  if (link.revokedAt) {
+    throw createError('Share link has been revoked', 410, 'SHARE_LINK_REVOKED');
+  }
+  if (link.expiresAt <= new Date()) {
+    throw createError('Share link has expired', 410, 'SHARE_LINK_EXPIRED');
+  }
+  return link;
+};
+
+/**
+ * Count a wrong PIN against the link, revoking it once the attempts run out
+ */
+const recordFailedPin = async (link: ShareLinkRow, viewer: ViewerContext): Promise<never> => {
+  const [updated] = await db.update(shareLinks)
+    .set({ failedPinAttempts: sql`${shareLinks.failedPinAttempts} + 1`, updatedAt: new Date() })
+    .where(eq(shareLinks.id, link.id))
+    .returning();
+
+  const locked = updated.failedPinAttempts >= MAX_PIN_ATTEMPTS;
+  if (locked) {
+    await db.update(shareLinks)
+      .set({ revokedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(shareLinks.id, link.id), isNull(shareLinks.revokedAt)));
+  }
+
+  await writeAuditLog({
+    action: 'share_link_pin_failed',
+    resourceType: 'share_link',
+    resourceId: link.id,
+    details: { attempts: updated.failedPinAttempts, locked },
+    ipAddress: viewer.ipAddress,
+    userAgent: viewer.userAgent
+  });
+
+  if (locked) {
+    throw createError('Too many incorrect PINs, the link has been revoked', 410, 'SHARE_LINK_REVOKED');
+  }
+  throw createError('Incorrect PIN', 401, 'INVALID_PIN');
+};
+
+/**
+ * Open a link: check the PIN, use up one view and hand out a short-lived
+ * token for fetching the records' content during this view
+ */
+export const openShareLink = async (token: string, pin: string | undefined, viewer: ViewerContext) => {
+  const link = await loadShareLink(token);
+
+  if (link.pinHash) {
+    if (!pin) {
+      throw createError('A PIN is required to open this link', 401, 'PIN_REQUIRED');
+    }
+    if (!await bcrypt.compare(pin, link.pinHash)) {
+      await recordFailedPin(link, viewer);
+    }
+  }
+
+  const [viewed] = await db.update(shareLinks)
+    .set({ viewCount: sql`${shareLinks.viewCount} + 1`, lastViewedAt: new Date(), updatedAt: new Date() })
+    .where(and(
+      eq(shareLinks.id, link.id),
+      isNull(shareLinks.revokedAt),
+      or(isNull(shareLinks.maxViews), lt(shareLinks.viewCount, shareLinks.maxViews))
+    ))
+    .returning();
+
+  if (!viewed) {
+    throw createError('Share link has no views left', 410, 'SHARE_LINK_EXHAUSTED');
+  }
+
+  await writeAuditLog({
+    action: 'share_link_view',
+    resourceType: 'share_link',
+    resourceId: link.id,
+    details: { patientId: link.patientId, recordIds: link.recordIds, view: viewed.viewCount },
+    ipAddress: viewer.ipAddress,
+    userAgent: viewer.userAgent
+  });
+
+  const records = await db.query.medicalRecords.findMany({
+    where: inArray(medicalRecords.id, link.recordIds),
+    columns: { id: true, title: true, category: true, fileName: true, fileMimeType: true, fileSize: true, recordDate: true }
+  });
+
+  const payload: ShareLinkPayload = { sub: link.id, purpose: VIEW_PURPOSE };
+  const viewExpiresAt = Math.min(toUnixSeconds(link.expiresAt), toUnixSeconds(new Date()) + VIEW_TOKEN_TTL_SECONDS);
+
+  return {
+    link: toShareLink(viewed),
+    records,
+    viewToken: jwt.sign({ ...payload, exp: viewExpiresAt }, getSecret())
+  };
+};
+
+/**
+ * Resolve a record to stream for an opened link. The view token proves the
+ * view was already counted; the link must still be live.
+ */
+export const getSharedRecord = async (token: string, viewToken: string, recordId: string) => {
+  const link = await loadShareLink(token);
+
+  if (verifyToken(viewToken, VIEW_PURPOSE) !== link.id) {
+    throw createError('Invalid share link', 404, 'SHARE_LINK_NOT_FOUND');
+  }
+  if (!link.recordIds.includes(recordId)) {
+    throw createError('Record not found', 404, 'RECORD_NOT_FOUND');
+  }
+
+  const record = await db.query.medicalRecords.findFirst({
+    where: eq(medicalRecords.id, recordId)
+  });
+
+  if (!record) {
+    throw createError('Record not found', 404, 'RECORD_NOT_FOUND');
+  }
+  return { link, record };
+};
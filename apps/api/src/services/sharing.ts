@@ -0,0 +1,380 @@
+import { and, desc, eq, inArray, isNull, ne, notInArray, or } from 'drizzle-orm';
+import {
+  db,
+  accessGrants,
+  medicalRecords,
+  patients,
+  providers,
+  recordKeys,
+  AccessGrant as AccessGrantRow,
+  NewAccessGrant,
+  Provider
+} from '@aarovia/database';
+import { AccessGrant } from '@aarovia/types';
+import { ethers } from '@aarovia/web3';
+import { createError } from '../middleware/errorHandler';
+import { GrantPermission, coveredRecordIds, grantCovers, isGrantActive } from './grants';
+import { grantRecordKey } from './recordKeys';
+import { getMedicalRecordsContract, getServerSigner, isChainConfigured, isRelayerConfigured } from './chain';
+import { trackTransaction } from './transactions';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type GrantProvider = Provider & { user: { address: string } };
+
+export interface ShareRecordInput {
+  providerId: string;
+  permissions: GrantPermission[];
+  expiresAt?: Date;
+}
+
+export type ScopedGrantInput = ShareRecordInput & (
+  | { scope: 'patient' }
+  | { scope: 'category'; category: NonNullable<AccessGrantRow['category']> }
+  | { scope: 'tag'; tag: string }
+) & {
+  recordDateFrom?: Date;
+  recordDateTo?: Date;
+};
+
+/**
+ * Shape a database row as the shared AccessGrant type
+ */
+export const toAccessGrant = (row: AccessGrantRow): AccessGrant => ({
+  id: row.id,
+  recordId: row.recordId ?? undefined,
+  patientId: row.patientId,
+  providerId: row.providerId,
+  scope: row.scope,
+  category: row.category ?? undefined,
+  tag: row.tag ?? undefined,
+  recordDateFrom: row.recordDateFrom ?? undefined,
+  recordDateTo: row.recordDateTo ?? undefined,
+  permissions: row.permissions,
+  expiresAt: row.expiresAt ?? undefined,
+  isRevoked: row.isRevoked,
+  revokedAt: row.revokedAt ?? undefined,
+  contractAddress: row.contractAddress ?? undefined,
+  transactionHash: row.transactionHash ?? undefined,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt
+});
+
+/**
+ * Submit an access change on chain and remember its transaction on the grant.
+ * The database stays the source of truth, so chain failures are logged and the
+ * grant is left without a transaction hash rather than failing the request.
+ * With a relayer, records are owned by patients' wallets and the patient
+ * signs the change for the relayer instead.
+ */
+const recordOnChain = async (
+  grant: AccessGrantRow,
+  type: 'access_grant' | 'access_revoke',
+  submit: () => Promise<ethers.ContractTransactionResponse>
+): Promise<AccessGrantRow> => {
+  if (!isChainConfigured()) {
+    console.warn(`Blockchain not configured, access grant ${grant.id} not recorded on chain`);
+    return grant;
+  }
+  if (isRelayerConfigured()) {
+    return grant;
+  }
+
+  try {
+    const tx = await submit();
+
+    const patient = await db.query.patients.findFirst({
+      where: eq(patients.id, grant.patientId),
+      columns: { userId: true }
+    });
+    await trackTransaction(tx, type, { userId: patient?.userId, recordId: grant.recordId, accessGrantId: grant.id });
+
+    const [updated] = await db.update(accessGrants)
+      .set({
+        transactionHash: tx.hash,
+        contractAddress: process.env.MEDICAL_RECORDS_ACCESS_CONTRACT,
+        updatedAt: new Date()
+      })
+      .where(eq(accessGrants.id, grant.id))
+      .returning();
+
+    return updated;
+  } catch (error) {
+    console.error(`Failed to record access grant ${grant.id} on chain:`, error);
+    return grant;
+  }
+};
+
+const findGrantProvider = async (providerId: string): Promise<GrantProvider> => {
+  const provider = await db.query.providers.findFirst({
+    where: eq(providers.id, providerId),
+    with: {
+      user: {
+        columns: { address: true }
+      }
+    }
+  });
+
+  if (!provider) {
+    throw createError('Provider not found', 404, 'PROVIDER_NOT_FOUND');
+  }
+  if (provider.status !== 'verified') {
+    throw createError('Records can only be shared with verified providers', 400, 'PROVIDER_NOT_VERIFIED');
+  }
+  return provider;
+};
+
+/**
+ * Follow up a freshly inserted grant: wrap the data key of every record it
+ * covers for the provider. Single-record grants are also recorded on chain;
+ * the access contract has no notion of scopes, so scoped grants stay off chain.
+ */
+export const activateGrant = async (grant: AccessGrantRow, provider: GrantProvider): Promise<AccessGrantRow> => {
+  const records = await db.query.medicalRecords.findMany({
+    where: grant.scope === 'record'
+      ? eq(medicalRecords.id, grant.recordId!)
+      : eq(medicalRecords.patientId, grant.patientId),
+    columns: { id: true, patientId: true, category: true, tags: true, recordDate: true, recordHash: true }
+  });
+  const covered = records.filter(record => grantCovers(grant, record));
+
+  if (grant.permissions.includes('read')) {
+    for (const record of covered) {
+      if (!await grantRecordKey(record.id, provider.userId)) {
+        console.warn(`Provider ${provider.id} has no encryption key yet; record keys not wrapped for them`);
+        break;
+      }
+    }
+  }
+
+  if (grant.scope !== 'record' || !covered.length) {
+    return grant;
+  }
+
+  return recordOnChain(grant, 'access_grant', () => getMedicalRecordsContract().grantAccess(
+    covered[0].recordHash,
+    provider.user.address,
+    grant.expiresAt ? Math.floor(grant.expiresAt.getTime() / 1000) : 0,
+    grant.permissions,
+    getServerSigner()
+  ));
+};
+
+/**
+ * Drop a provider's copies of record keys for a patient's records that no
+ * active grant covers any more. Records the provider authored keep their key.
+ */
+export const pruneProviderKeys = async (
+  patientId: string,
+  provider: Provider,
+  executor: typeof db | Transaction = db
+): Promise<void> => {
+  await executor.delete(recordKeys).where(and(
+    eq(recordKeys.recipientType, 'user'),
+    eq(recordKeys.userId, provider.userId),
+    inArray(
+      recordKeys.recordId,
+      db.select({ id: medicalRecords.id })
+        .from(medicalRecords)
+        .where(and(
+          eq(medicalRecords.patientId, patientId),
+          or(isNull(medicalRecords.providerId), ne(medicalRecords.providerId, provider.id)),
+          notInArray(medicalRecords.id, coveredRecordIds(provider.id, 'read'))
+        ))
+    )
+  ));
+};
+
+/**
+ * Follow up a grant that was just revoked or expired: drop key copies it no
+ * longer justifies and, for single-record grants unless `onChain` is false,
+ * call revokeAccess on chain
+ */
+export const deactivateGrant = async (
+  grant: AccessGrantRow,
+  provider: GrantProvider,
+  onChain = true
+): Promise<AccessGrantRow> => {
+  await pruneProviderKeys(grant.patientId, provider);
+
+  if (!onChain || grant.scope !== 'record') {
+    return grant;
+  }
+
+  const record = await db.query.medicalRecords.findFirst({
+    where: eq(medicalRecords.id, grant.recordId!),
+    columns: { recordHash: true }
+  });
+
+  if (!record) {
+    return grant;
+  }
+
+  return recordOnChain(grant, 'access_revoke', () => getMedicalRecordsContract().revokeAccess(
+    record.recordHash,
+    provider.user.address,
+    getServerSigner()
+  ));
+};
+
+/**
+ * Whether an active grant with the same scope as `values` already exists
+ */
+export const hasActiveDuplicateGrant = async (
+  values: NewAccessGrant,
+  executor: typeof db | Transaction = db
+): Promise<boolean> => {
+  const existing = await executor.query.accessGrants.findMany({
+    where: and(
+      eq(accessGrants.patientId, values.patientId),
+      eq(accessGrants.providerId, values.providerId),
+      eq(accessGrants.scope, values.scope ?? 'record'),
+      eq(accessGrants.isRevoked, false)
+    )
+  });
+
+  return existing.some(grant =>
+    isGrantActive(grant) &&
+    grant.recordId === (values.recordId ?? null) &&
+    grant.category === (values.category ?? null) &&
+    grant.tag === (values.tag ?? null) &&
+    grant.recordDateFrom?.getTime() === values.recordDateFrom?.getTime() &&
+    grant.recordDateTo?.getTime() === values.recordDateTo?.getTime()
+  );
+};
+
+/**
+ * Insert a grant unless an active grant with the same scope already exists
+ */
+const insertGrant = async (values: NewAccessGrant): Promise<AccessGrantRow> => {
+  if (await hasActiveDuplicateGrant(values)) {
+    throw createError('Access is already shared with this provider', 409, 'ALREADY_SHARED');
+  }
+
+  const [grant] = await db.insert(accessGrants).values(values).returning();
+  return grant;
+};
+
+/**
+ * Grant a verified provider access to a single record: persist the grant,
+ * wrap the record key for the provider and call grantAccess on chain
+ */
+export const shareRecord = async (recordId: string, input: ShareRecordInput): Promise<AccessGrant> => {
+  const record = await db.query.medicalRecords.findFirst({
+    where: eq(medicalRecords.id, recordId)
+  });
+
+  if (!record) {
+    throw createError('Record not found', 404);
+  }
+
+  const provider = await findGrantProvider(input.providerId);
+
+  const grant = await insertGrant({
+    recordId,
+    patientId: record.patientId,
+    providerId: provider.id,
+    scope: 'record',
+    permissions: input.permissions,
+    expiresAt: input.expiresAt
+  });
+
+  return toAccessGrant(await activateGrant(grant, provider));
+};
+
+/**
+ * Grant a verified provider standing access to all of a patient's records,
+ * a category or a tag. Records uploaded later are covered automatically.
+ */
+export const createScopedGrant = async (patientId: string, input: ScopedGrantInput): Promise<AccessGrant> => {
+  const provider = await findGrantProvider(input.providerId);
+
+  const grant = await insertGrant({
+    patientId,
+    providerId: provider.id,
+    scope: input.scope,
+    category: input.scope === 'category' ? input.category : undefined,
+    tag: input.scope === 'tag' ? input.tag : undefined,
+    recordDateFrom: input.recordDateFrom,
+    recordDateTo: input.recordDateTo,
+    permissions: input.permissions,
+    expiresAt: input.expiresAt
+  });
+
+  return toAccessGrant(await activateGrant(grant, provider));
+};
+
+/**
+ * A patient's grants, newest first, with the provider
+ */
+export const listPatientGrants = async (patientId: string, includeInactive = false) => {
+  const rows = await db.query.accessGrants.findMany({
+    where: eq(accessGrants.patientId, patientId),
+    with: {
+      provider: {
+        columns: { id: true, name: true, type: true }
+      }
+    },
+    orderBy: [desc(accessGrants.createdAt)]
+  });
+
+  return rows
+    .filter(row => includeInactive || isGrantActive(row))
+    .map(row => ({ ...toAccessGrant(row), provider: row.provider }));
+};
+
+/**
+ * Revoke one of a patient's grants (only if it targets `recordId`, when given)
+ */
+export const revokeGrant = async (
+  patientId: string,
+  grantId: string,
+  recordId?: string
+): Promise<AccessGrant> => {
+  const grant = await db.query.accessGrants.findFirst({
+    where: and(
+      eq(accessGrants.id, grantId),
+      eq(accessGrants.patientId, patientId),
+      recordId ? eq(accessGrants.recordId, recordId) : undefined
+    ),
+    with: {
+      provider: {
+        with: {
+          user: {
+            columns: { address: true }
+          }
+        }
+      }
+    }
+  });
+
+  if (!grant) {
+    throw createError('Share not found', 404, 'SHARE_NOT_FOUND');
+  }
+  if (grant.isRevoked) {
+    throw createError('Share has already been revoked', 409, 'ALREADY_REVOKED');
+  }
+
+  const [revoked] = await db.update(accessGrants)
+    .set({ isRevoked: true, revokedAt: new Date(), updatedAt: new Date() })
+    .where(eq(accessGrants.id, grant.id))
+    .returning();
+
+  return toAccessGrant(await deactivateGrant(revoked, grant.provider));
+};
+
+/**
+ * Revoke a single-record share. The grant's transaction hash then points at the revocation.
+ */
+export const revokeShare = async (recordId: string, shareId: string): Promise<AccessGrant> => {
+  const record = await db.query.medicalRecords.findFirst({
+    where: eq(medicalRecords.id, recordId),
+    columns: { patientId: true }
+  });
+
+  if (!record) {
+    throw createError('Record not found', 404);
+  }
+
+  return revokeGrant(record.patientId, shareId, recordId);
+};
@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { db, authNonces } from '@aarovia/database';
+import { ethers, isValidAddress, parseSiweMessage, verifySignature, SiweMessage } from '@aarovia/web3';
+import { createError } from '../middleware/errorHandler';
+
+const NONCE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const CLOCK_SKEW_MS = 60 * 1000; // tolerated drift between wallet and server clocks
+
+/**
+ * Domain the SIWE message must be bound to (defaults to the frontend host)
+ */
+export const getSiweDomain = (): string => {
+  if (process.env.SIWE_DOMAIN) {
+    return process.env.SIWE_DOMAIN;
+  }
+  return new URL(process.env.FRONTEND_URL || 'http://localhost:3000').host;
+};
+
+export const getSiweChainId = (): number => {
+  return Number(process.env.CHAIN_ID || process.env.NEXT_PUBLIC_CHAIN_ID || 1);
+};
+
+/**
+ * Issue a new single-use nonce for the given wallet address
+ */
+export const issueNonce = async (address: string) => {
+  if (!isValidAddress(address)) {
+    throw createError('Invalid wallet address', 400, 'INVALID_ADDRESS');
+  }
+
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const expiresAt = new Date(Date.now() + NONCE_TTL_MS);
+
+  await db.insert(authNonces).values({
+    address: ethers.getAddress(address),
+    nonce,
+    expiresAt
+  });
+
+  return {
+    nonce,
+    expiresAt,
+    domain: getSiweDomain(),
+    chainId: getSiweChainId()
+  };
+};
+
+/**
+ * Mark a nonce as used. Fails if it is unknown, expired or already consumed.
+ */
+const consumeNonce = async (address: string, nonce: string) => {
+  const now = new Date();
+
+  const [consumed] = await db.update(authNonces)
+    .set({ consumedAt: now })
+    .where(and(
+      eq(authNonces.nonce, nonce),
+      eq(authNonces.address, address),
+      isNull(authNonces.consumedAt),
+      gt(authNonces.expiresAt, now)
+    ))
+    .returning({ id: authNonces.id });
+
+  if (consumed) {
+    return;
+  }
+
+  const existing = await db.query.authNonces.findFirst({
+    where: and(eq(authNonces.nonce, nonce), eq(authNonces.address, address))
+  });
+
+  if (!existing) {
+    throw createError('Unknown nonce', 401, 'NONCE_UNKNOWN');
+  }
+  if (existing.consumedAt) {
+    throw createError('Nonce has already been used', 401, 'NONCE_REPLAYED');
+  }
+  throw createError('Nonce has expired', 401, 'NONCE_EXPIRED');
+};
+
+/**
+ * Verify a signed EIP-4361 message and consume its nonce.
+ * Returns the parsed message on success.
+ */
+export const verifySiweMessage = async (
+  message: string,
+  signature: string
+): Promise<SiweMessage> => {
+  let parsed: SiweMessage;
+  try {
+    parsed = parseSiweMessage(message);
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'MALFORMED_MESSAGE');
+  }
+
+  if (parsed.domain !== getSiweDomain()) {
+    throw createError('Message domain does not match', 401, 'DOMAIN_MISMATCH');
+  }
+
+  if (parsed.chainId !== getSiweChainId()) {
+    throw createError('Message chain ID does not match', 401, 'CHAIN_ID_MISMATCH');
+  }
+
+  const now = Date.now();
+
+  if (Date.parse(parsed.issuedAt) > now + CLOCK_SKEW_MS) {
+    throw createError('Message issued in the future', 401, 'MESSAGE_NOT_YET_VALID');
+  }
+
+  if (parsed.notBefore && Date.parse(parsed.notBefore) > now + CLOCK_SKEW_MS) {
+    throw createError('Message is not yet valid', 401, 'MESSAGE_NOT_YET_VALID');
+  }
+
+  if (parsed.expirationTime && Date.parse(parsed.expirationTime) <= now) {
+    throw createError('Message has expired', 401, 'MESSAGE_EXPIRED');
+  }
+
+  const isValidSignature = await verifySignature(parsed.address, message, signature);
+  if (!isValidSignature) {
+    throw createError('Invalid signature', 401, 'INVALID_SIGNATURE');
+  }
+
+  await consumeNonce(parsed.address, parsed.nonce);
+
+  return parsed;
+};
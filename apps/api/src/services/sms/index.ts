@@ -0,0 +1,50 @@
+import {
+  SmsMessage,
+  SmsTransport,
+  createFileTransport,
+  createMemoryTransport,
+  createWebhookTransport
+} from './transports';
+
+export * from './transports';
+
+let transport: SmsTransport | undefined;
+
+/**
+ * Build the transport selected by SMS_TRANSPORT (webhook | file | memory)
+ */
+const createConfiguredTransport = (): SmsTransport => {
+  const kind = process.env.SMS_TRANSPORT || (process.env.SMS_WEBHOOK_URL ? 'webhook' : 'file');
+
+  switch (kind) {
+    case 'webhook':
+      if (!process.env.SMS_WEBHOOK_URL) {
+        throw new Error('SMS_WEBHOOK_URL environment variable is required for the webhook SMS transport');
+      }
+      return createWebhookTransport(process.env.SMS_WEBHOOK_URL, process.env.SMS_WEBHOOK_TOKEN || undefined);
+    case 'memory':
+      return createMemoryTransport();
+    case 'file':
+      return createFileTransport(process.env.SMS_DIR || '.sms');
+    default:
+      throw new Error(`Unknown SMS transport: ${kind}`);
+  }
+};
+
+export const getSmsTransport = (): SmsTransport => {
+  if (!transport) {
+    transport = createConfiguredTransport();
+  }
+  return transport;
+};
+
+/**
+ * Override the configured transport (used by tests)
+ */
+export const setSmsTransport = (next: SmsTransport): void => {
+  transport = next;
+};
+
+export const sendSms = async (message: SmsMessage): Promise<void> => {
+  await getSmsTransport().send(message);
+};
@@ -0,0 +1,76 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+export interface SmsTransport {
+  name: string;
+  send(message: SmsMessage): Promise<void>;
+}
+
+export interface MemorySmsTransport extends SmsTransport {
+  messages: Array<SmsMessage & { sentAt: Date }>;
+  clear(): void;
+}
+
+/**
+ * POST each message as JSON to an SMS gateway, with an optional bearer token
+ */
+export function createWebhookTransport(url: string, token?: string): SmsTransport {
+  return {
+    name: 'webhook',
+    async send(message) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` })
+        },
+        body: JSON.stringify(message)
+      });
+
+      if (!response.ok) {
+        throw new Error(`SMS gateway responded with ${response.status}`);
+      }
+    }
+  };
+}
+
+/**
+ * Write each message as a JSON file, for local development
+ */
+export function createFileTransport(directory: string): SmsTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true });
+      const safeRecipient = message.to.replace(/[^0-9+]/g, '_');
+      const fileName = `${Date.now()}-${safeRecipient}.json`;
+      await fs.writeFile(
+        path.join(directory, fileName),
+        JSON.stringify({ ...message, sentAt: new Date() }, null, 2)
+      );
+    }
+  };
+}
+
+/**
+ * Keep messages in memory, for tests
+ */
+export function createMemoryTransport(): MemorySmsTransport {
+  const messages: MemorySmsTransport['messages'] = [];
+
+  return {
+    name: 'memory',
+    messages,
+    async send(message) {
+      messages.push({ ...message, sentAt: new Date() });
+    },
+    clear() {
+      messages.length = 0;
+    }
+  };
+}
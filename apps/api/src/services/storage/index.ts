@@ -0,0 +1,35 @@
+import { RecordStore, createIpfsStore, createLocalStore } from './stores';
+
+export * from './stores';
+
+let store: RecordStore | undefined;
+
+/**
+ * Build the store selected by STORAGE_BACKEND (ipfs | local)
+ */
+const createConfiguredStore = (): RecordStore => {
+  const kind = process.env.STORAGE_BACKEND || 'ipfs';
+
+  switch (kind) {
+    case 'ipfs':
+      return createIpfsStore(process.env.IPFS_API_URL, process.env.IPFS_GATEWAY_URL);
+    case 'local':
+      return createLocalStore(process.env.STORAGE_DIR || '.storage');
+    default:
+      throw new Error(`Unknown storage backend: ${kind}`);
+  }
+};
+
+export const getRecordStore = (): RecordStore => {
+  if (!store) {
+    store = createConfiguredStore();
+  }
+  return store;
+};
+
+/**
+ * Override the configured store (used by tests)
+ */
+export const setRecordStore = (next: RecordStore): void => {
+  store = next;
+};
@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { streamFromIPFS, uploadToIPFS } from '@aarovia/web3';
+
+/**
+ * Inclusive byte range
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Where encrypted record files live. `hash` is the value stored in
+ * medical_records.ipfs_hash.
+ */
+export interface RecordStore {
+  name: string;
+  put(file: File): Promise<{ hash: string }>;
+  get(hash: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>>;
+}
+
+/**
+ * Store files on IPFS through an HTTP API node, read them back through a gateway
+ */
+export function createIpfsStore(apiUrl?: string, gatewayUrl?: string): RecordStore {
+  return {
+    name: 'ipfs',
+    async put(file) {
+      const { hash } = await uploadToIPFS(file, apiUrl, gatewayUrl);
+      return { hash };
+    },
+    get(hash, range) {
+      return streamFromIPFS(hash, gatewayUrl, range);
+    }
+  };
+}
+
+/**
+ * Content-addressed files on local disk (sha256 of the ciphertext), for development
+ */
+export function createLocalStore(directory: string): RecordStore {
+  const resolve = (hash: string) => {
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+      throw new Error(`Invalid local store hash: ${hash}`);
+    }
+    return path.join(directory, hash);
+  };
+
+  return {
+    name: 'local',
+    async put(file) {
+      const bytes = Buffer.from(await file.arrayBuffer());
+      const hash = crypto.createHash('sha256').update(bytes).digest('hex');
+
+      await fs.promises.mkdir(directory, { recursive: true });
+      await fs.promises.writeFile(resolve(hash), bytes);
+      return { hash };
+    },
+    async get(hash, range) {
+      const filePath = resolve(hash);
+      await fs.promises.access(filePath);
+      return Readable.toWeb(fs.createReadStream(filePath, range)) as unknown as ReadableStream<Uint8Array>;
+    }
+  };
+}
@@ -0,0 +1,199 @@
+import type { BlockchainTransaction } from '@aarovia/database';
+import type { Transaction } from '@aarovia/types';
+
+const mockFindRecord = jest.fn();
+const mockFindGrant = jest.fn();
+const mockFindReplacement = jest.fn();
+const mockUpdates: [unknown, Record<string, unknown>][] = [];
+const mockUpdate = (table: unknown) => ({
+  set: (values: Record<string, unknown>) => {
+    mockUpdates.push([table, values]);
+    return { where: () => Object.assign(Promise.resolve(), { returning: async () => [] }) };
+  }
+});
+const mockProvider = {
+  getTransactionReceipt: jest.fn(),
+  getTransaction: jest.fn(),
+  getTransactionCount: jest.fn()
+};
+
+jest.mock('@aarovia/database', () => ({
+  db: {
+    query: {
+      medicalRecords: { findFirst: mockFindRecord },
+      accessGrants: { findFirst: mockFindGrant },
+      blockchainTransactions: { findFirst: mockFindReplacement }
+    },
+    update: mockUpdate
+  },
+  accessGrants: { table: 'access_grants' },
+  blockchainTransactions: { table: 'blockchain_transactions' },
+  medicalRecords: { table: 'medical_records' }
+}));
+
+jest.mock('./chain', () => ({
+  getServerSigner: () => ({ provider: mockProvider }),
+  isChainConfigured: () => true
+}));
+
+jest.mock('./scheduler', () => ({
+  runExclusive: <T>(_name: string, work: (tx: unknown) => Promise<T>) => work({
+    select: () => ({ from: () => ({ where: () => ({ orderBy: () => ({ limit: async () => [{ id: 'tx-1' }] }) }) }) }),
+    update: () => ({ set: () => ({ where: () => ({ returning: async () => [mockPendingUpload] }) }) })
+  })
+}));
+
+const mockPendingUpload: BlockchainTransaction = {
+  id: 'tx-1',
+  hash: `0x${'ab'.repeat(32)}`,
+  type: 'record_upload',
+  userId: 'user-1',
+  recordId: 'record-1',
+  accessGrantId: null,
+  fromAddress: '0x0000000000000000000000000000000000000001',
+  toAddress: '0x0000000000000000000000000000000000000002',
+  nonce: 7,
+  value: '0',
+  fee: null,
+  status: 'pending',
+  failureReason: null,
+  replacedBy: null,
+  blockNumber: null,
+  gasLimit: '120000',
+  gasUsed: null,
+  forwardedFrom: null,
+  forwardNonce: null,
+  submittedAt: new Date('2026-03-01T10:00:00Z'),
+  confirmedAt: null,
+  lastCheckedAt: null,
+  createdAt: new Date('2026-03-01T10:00:00Z'),
+  updatedAt: new Date('2026-03-01T10:00:00Z')
+};
+
+describe('transaction history shape', () => {
+  let toTransaction: (row: BlockchainTransaction) => Transaction;
+
+  const row = mockPendingUpload;
+
+  beforeAll(async () => {
+    ({ toTransaction } = await import('./transactions'));
+  });
+
+  it('leaves the fee out of a pending transaction', () => {
+    expect(toTransaction(row)).toEqual({
+      hash: row.hash,
+      type: 'record_upload',
+      amount: '0.0 ETH',
+      timestamp: row.submittedAt,
+      status: 'pending',
+      failureReason: undefined,
+      replacedBy: undefined,
+      blockNumber: undefined,
+      recordId: 'record-1',
+      accessGrantId: undefined,
+      forwardedFrom: undefined
+    });
+  });
+
+  it('adds the fee to the value once mined', () => {
+    const transaction = toTransaction({
+      ...row,
+      value: '1000000000000000',
+      fee: '250000000000000',
+      status: 'confirmed',
+      blockNumber: 1234
+    });
+
+    expect(transaction.amount).toBe('0.00125 ETH');
+    expect(transaction.blockNumber).toBe(1234);
+  });
+
+  it('reports why a transaction failed', () => {
+    const replacedBy = `0x${'cd'.repeat(32)}`;
+    const transaction = toTransaction({ ...row, status: 'failed', failureReason: 'replaced', replacedBy });
+
+    expect(transaction).toMatchObject({ status: 'failed', failureReason: 'replaced', replacedBy });
+  });
+});
+
+describe('contract call links', () => {
+  let resolveCallLinks: typeof import('./transactions').resolveCallLinks;
+
+  const user = { id: 'user-1' };
+  const recordHash = `0x${'ef'.repeat(32)}`;
+
+  beforeAll(async () => {
+    ({ resolveCallLinks } = await import('./transactions'));
+  });
+
+  beforeEach(() => {
+    mockFindRecord.mockReset();
+    mockFindGrant.mockReset();
+  });
+
+  it('links an upload of the user\'s own pending record', async () => {
+    mockFindRecord.mockResolvedValue({ id: 'record-1', status: 'pending', patient: { userId: 'user-1' } });
+
+    await expect(resolveCallLinks(user, { type: 'record_upload', recordHash })).resolves.toBe('record-1');
+  });
+
+  it('refuses calls on another patient\'s record', async () => {
+    mockFindRecord.mockResolvedValue({ id: 'record-1', status: 'pending', patient: { userId: 'user-2' } });
+
+    for (const type of ['record_upload', 'access_grant'] as const) {
+      await expect(resolveCallLinks(user, { type, recordHash })).rejects.toMatchObject({ statusCode: 403, code: 'RECORD_NOT_OWNED' });
+    }
+  });
+
+  it('only uploads records that are known and still pending', async () => {
+    mockFindRecord.mockResolvedValueOnce(undefined);
+    await expect(resolveCallLinks(user, { type: 'record_upload', recordHash })).rejects.toMatchObject({ statusCode: 404 });
+
+    mockFindRecord.mockResolvedValueOnce({ id: 'record-1', status: 'confirmed', patient: { userId: 'user-1' } });
+    await expect(resolveCallLinks(user, { type: 'record_upload', recordHash })).rejects.toMatchObject({ code: 'RECORD_NOT_PENDING' });
+  });
+});
+
+describe('replaced record uploads', () => {
+  let trackPendingTransactions: typeof import('./transactions').trackPendingTransactions;
+  let medicalRecords: unknown;
+  let blockchainTransactions: unknown;
+
+  const replacementHash = `0x${'cd'.repeat(32)}`;
+
+  beforeAll(async () => {
+    ({ trackPendingTransactions } = await import('./transactions'));
+    ({ medicalRecords, blockchainTransactions } = await import('@aarovia/database'));
+  });
+
+  beforeEach(() => {
+    mockUpdates.length = 0;
+    mockProvider.getTransactionReceipt.mockResolvedValue(null);
+    mockProvider.getTransaction.mockResolvedValue(null);
+    mockProvider.getTransactionCount.mockResolvedValue(8);
+  });
+
+  it('fails the record when nothing tracked took the nonce', async () => {
+    mockFindReplacement.mockResolvedValue(undefined);
+
+    await trackPendingTransactions();
+
+    expect(mockUpdates).toContainEqual([blockchainTransactions, expect.objectContaining({ status: 'failed', failureReason: 'replaced' })]);
+    expect(mockUpdates).toContainEqual([medicalRecords, expect.objectContaining({ status: 'failed' })]);
+  });
+
+  it('moves the record onto a tracked speed-up', async () => {
+    mockFindReplacement.mockResolvedValue({
+      ...mockPendingUpload,
+      id: 'tx-2',
+      hash: replacementHash,
+      recordId: null
+    });
+
+    await trackPendingTransactions();
+
+    expect(mockUpdates).toContainEqual([blockchainTransactions, expect.objectContaining({ recordId: 'record-1' })]);
+    expect(mockUpdates).toContainEqual([medicalRecords, expect.objectContaining({ blockchainTxHash: replacementHash })]);
+    expect(mockUpdates).not.toContainEqual([medicalRecords, expect.objectContaining({ status: 'failed' })]);
+  });
+});
@@ -0,0 +1,432 @@
+import { and, asc, desc, eq, inArray, ne, or, sql } from 'drizzle-orm';
+import {
+  db,
+  accessGrants,
+  blockchainTransactions,
+  medicalRecords,
+  BlockchainTransaction as BlockchainTransactionRow,
+  NewBlockchainTransaction
+} from '@aarovia/database';
+import { Transaction, WalletInfo } from '@aarovia/types';
+import { ethers, MedicalRecordsAccess__factory, MedicalRecordsStorage__factory } from '@aarovia/web3';
+import { createError } from '../middleware/errorHandler';
+import { getServerSigner, isChainConfigured } from './chain';
+import { Job, runExclusive } from './scheduler';
+
+type TransactionType = BlockchainTransactionRow['type'];
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type ContractCall = { type: TransactionType; recordHash: string };
+
+interface TransactionLinks {
+  userId?: string | null;
+  recordId?: string | null;
+  accessGrantId?: string | null;
+  // Signer and forwarder nonce of a relayed meta-transaction
+  forwardedFrom?: string;
+  forwardNonce?: number;
+}
+
+// A pending transaction the node no longer knows, whose nonce is still unused, is dropped after this
+const DROP_AFTER_MS = Number(process.env.TRANSACTION_DROP_AFTER_MS || 30 * 60 * 1000);
+const TRACK_BATCH_SIZE = 100;
+const HISTORY_LIMIT = 50;
+
+const CONTRACT_CALLS: Record<string, TransactionType> = {
+  storeRecord: 'record_upload',
+  grantAccess: 'access_grant',
+  revokeAccess: 'access_revoke'
+};
+
+/**
+ * Shape a database row as the shared Transaction type
+ */
+export const toTransaction = (row: BlockchainTransactionRow): Transaction => ({
+  hash: row.hash,
+  type: row.type,
+  amount: `${ethers.formatEther(BigInt(row.value) + BigInt(row.fee ?? 0))} ETH`,
+  timestamp: row.submittedAt,
+  status: row.status,
+  failureReason: row.failureReason ?? undefined,
+  replacedBy: row.replacedBy ?? undefined,
+  blockNumber: row.blockNumber ?? undefined,
+  recordId: row.recordId ?? undefined,
+  accessGrantId: row.accessGrantId ?? undefined,
+  forwardedFrom: row.forwardedFrom ?? undefined
+});
+
+const getProvider = (): ethers.Provider => getServerSigner().provider!;
+
+/**
+ * Remember a submitted transaction so the tracker can follow it to a final
+ * status. Tracking is best effort: a failure here is logged, never thrown.
+ */
+export const trackTransaction = async (
+  tx: Pick<ethers.TransactionResponse, 'hash' | 'from' | 'to' | 'nonce' | 'value' | 'gasLimit'>,
+  type: TransactionType,
+  links: TransactionLinks = {},
+  executor: typeof db | DbTransaction = db
+): Promise<void> => {
+  const values: NewBlockchainTransaction = {
+    hash: tx.hash,
+    type,
+    userId: links.userId,
+    recordId: links.recordId,
+    accessGrantId: links.accessGrantId,
+    forwardedFrom: links.forwardedFrom,
+    forwardNonce: links.forwardNonce,
+    fromAddress: tx.from,
+    toAddress: tx.to ?? ethers.ZeroAddress,
+    nonce: tx.nonce,
+    value: tx.value.toString(),
+    gasLimit: tx.gasLimit.toString()
+  };
+
+  try {
+    await executor.insert(blockchainTransactions).values(values).onConflictDoNothing();
+  } catch (error) {
+    console.error(`Failed to track transaction ${tx.hash}:`, error);
+  }
+};
+
+/**
+ * Which contract call a transaction makes, and on which record hash
+ */
+export const decodeContractCall = (to: string, data: string): ContractCall | undefined => {
+  const contracts: Array<[string | undefined, ethers.Interface]> = [
+    [process.env.MEDICAL_RECORDS_STORAGE_CONTRACT, MedicalRecordsStorage__factory.createInterface()],
+    [process.env.MEDICAL_RECORDS_ACCESS_CONTRACT, MedicalRecordsAccess__factory.createInterface()]
+  ];
+
+  for (const [address, contractInterface] of contracts) {
+    if (!address || address.toLowerCase() !== to.toLowerCase()) {
+      continue;
+    }
+
+    const call = contractInterface.parseTransaction({ data });
+    const type = call && CONTRACT_CALLS[call.name];
+    return type ? { type, recordHash: call.args[0] } : undefined;
+  }
+
+  return undefined;
+};
+
+/**
+ * The record a contract call is about, if the platform knows it. Such a record
+ * must be the user's own, and a record upload must be for a record of theirs
+ * still pending, so nobody can claim another patient's record hash on chain.
+ * A grant named alongside must be the user's own grant on that record, and
+ * the call must be an access change.
+ */
+export const resolveCallLinks = async (
+  user: { id: string },
+  call: ContractCall,
+  accessGrantId?: string
+): Promise<string | undefined> => {
+  const record = await db.query.medicalRecords.findFirst({
+    where: eq(medicalRecords.recordHash, call.recordHash),
+    columns: { id: true, status: true },
+    with: { patient: { columns: { userId: true } } }
+  });
+
+  if (record && record.patient.userId !== user.id) {
+    throw createError('Record belongs to another patient', 403, 'RECORD_NOT_OWNED');
+  }
+  if (call.type === 'record_upload') {
+    if (!record) {
+      throw createError('Record not found', 404, 'RECORD_NOT_FOUND');
+    }
+    if (record.status !== 'pending') {
+      throw createError('Record is not pending', 403, 'RECORD_NOT_PENDING');
+    }
+  }
+
+  if (accessGrantId) {
+    const grant = await db.query.accessGrants.findFirst({
+      where: eq(accessGrants.id, accessGrantId),
+      columns: { id: true, recordId: true },
+      with: { patient: { columns: { userId: true } } }
+    });
+    const matches = grant && record && grant.recordId === record.id && grant.patient.userId === user.id;
+    if (call.type === 'record_upload' || !matches) {
+      throw createError('Grant does not match the transaction', 400, 'GRANT_MISMATCH');
+    }
+  }
+
+  return record?.id;
+};
+
+/**
+ * Remember a submitted call's transaction on the grant or record it is
+ * about, and return it as tracked
+ */
+export const linkSubmittedCall = async (
+  hash: string,
+  contractAddress: string,
+  call: ContractCall,
+  recordId?: string,
+  accessGrantId?: string
+): Promise<Transaction> => {
+  if (accessGrantId) {
+    await db.update(accessGrants)
+      .set({ transactionHash: hash, contractAddress, updatedAt: new Date() })
+      .where(eq(accessGrants.id, accessGrantId));
+  }
+  if (call.type === 'record_upload' && recordId) {
+    await db.update(medicalRecords)
+      .set({ blockchainTxHash: hash, updatedAt: new Date() })
+      .where(and(eq(medicalRecords.id, recordId), ne(medicalRecords.status, 'confirmed')));
+  }
+
+  const row = await db.query.blockchainTransactions.findFirst({
+    where: eq(blockchainTransactions.hash, hash)
+  });
+  if (!row) {
+    throw createError('Failed to record transaction', 500, 'TRANSACTION_NOT_TRACKED');
+  }
+  return toTransaction(row);
+};
+
+/**
+ * Broadcast a transaction the user signed with their wallet and track it.
+ * Only calls to the platform's contracts, signed by the user's own address,
+ * are relayed. A grant can be named to link (and record) it.
+ */
+export const submitSignedTransaction = async (
+  user: { id: string; address: string },
+  signedTransaction: string,
+  accessGrantId?: string
+): Promise<Transaction> => {
+  if (!isChainConfigured()) {
+    throw createError('Blockchain is not configured', 503, 'CHAIN_NOT_CONFIGURED');
+  }
+
+  let tx: ethers.Transaction;
+  try {
+    tx = ethers.Transaction.from(signedTransaction);
+  } catch {
+    throw createError('Invalid signed transaction', 400, 'INVALID_TRANSACTION');
+  }
+
+  if (!tx.from || tx.from.toLowerCase() !== user.address.toLowerCase()) {
+    throw createError('Transaction must be signed by your wallet', 403, 'TRANSACTION_SIGNER_MISMATCH');
+  }
+
+  const call = tx.to ? decodeContractCall(tx.to, tx.data) : undefined;
+  if (!call) {
+    throw createError('Transaction must call a medical records contract', 400, 'UNSUPPORTED_TRANSACTION');
+  }
+
+  const recordId = await resolveCallLinks(user, call, accessGrantId);
+
+  let response: ethers.TransactionResponse;
+  try {
+    response = await getProvider().broadcastTransaction(signedTransaction);
+  } catch (error) {
+    console.error(`Failed to broadcast transaction ${tx.hash}:`, error);
+    throw createError('Transaction was rejected by the network', 400, 'TRANSACTION_REJECTED');
+  }
+
+  await trackTransaction(response, call.type, { userId: user.id, recordId, accessGrantId });
+
+  return linkSubmittedCall(response.hash, tx.to!, call, recordId, accessGrantId);
+};
+
+/**
+ * Transactions a user sent or that were sent on their behalf, newest first
+ */
+export const listUserTransactions = async (
+  user: { id: string; address: string },
+  limit = HISTORY_LIMIT
+): Promise<Transaction[]> => {
+  const rows = await db.query.blockchainTransactions.findMany({
+    where: or(
+      eq(blockchainTransactions.userId, user.id),
+      sql`lower(${blockchainTransactions.fromAddress}) = ${user.address.toLowerCase()}`
+    ),
+    orderBy: [desc(blockchainTransactions.submittedAt)],
+    limit
+  });
+
+  return rows.map(toTransaction);
+};
+
+/**
+ * A user's balance and network, when the chain can be reached, with their
+ * transaction history
+ */
+export const getWalletInfo = async (user: { id: string; address: string }): Promise<WalletInfo> => {
+  const wallet: WalletInfo = {
+    address: user.address,
+    transactions: await listUserTransactions(user)
+  };
+
+  if (isChainConfigured()) {
+    try {
+      const provider = getProvider();
+      const [balance, network] = await Promise.all([provider.getBalance(user.address), provider.getNetwork()]);
+      wallet.balance = `${ethers.formatEther(balance)} ETH`;
+      wallet.network = network.name;
+    } catch (error) {
+      console.error(`Failed to look up wallet ${user.address}:`, error);
+    }
+  }
+
+  return wallet;
+};
+
+/**
+ * Carry the outcome of a record upload over to the record itself
+ */
+const settleRecord = async (row: BlockchainTransactionRow, status: 'confirmed' | 'failed'): Promise<void> => {
+  if (row.type !== 'record_upload' || !row.recordId) {
+    return;
+  }
+
+  await db.update(medicalRecords)
+    .set({ status, blockchainTxHash: row.hash, updatedAt: new Date() })
+    .where(and(eq(medicalRecords.id, row.recordId), ne(medicalRecords.status, 'confirmed')));
+};
+
+/**
+ * Hand a replaced record upload's record over to the transaction that took
+ * its nonce. A tracked upload of the same record carries it on, settling it
+ * straight away if it already has; anything else (a cancel, or a speed-up
+ * sent outside the platform) leaves the upload failed.
+ */
+const settleReplacedRecord = async (
+  row: BlockchainTransactionRow,
+  replacement: BlockchainTransactionRow | undefined,
+  now: Date
+): Promise<void> => {
+  if (row.type !== 'record_upload' || !row.recordId) {
+    return;
+  }
+  if (!replacement || replacement.type !== 'record_upload' || (replacement.recordId && replacement.recordId !== row.recordId)) {
+    await settleRecord(row, 'failed');
+    return;
+  }
+
+  await db.update(blockchainTransactions)
+    .set({ recordId: row.recordId, updatedAt: now })
+    .where(eq(blockchainTransactions.id, replacement.id));
+
+  if (replacement.status === 'pending') {
+    await db.update(medicalRecords)
+      .set({ blockchainTxHash: replacement.hash, updatedAt: now })
+      .where(and(eq(medicalRecords.id, row.recordId), ne(medicalRecords.status, 'confirmed')));
+  } else {
+    await settleRecord({ ...replacement, recordId: row.recordId }, replacement.status === 'confirmed' ? 'confirmed' : 'failed');
+  }
+};
+
+/**
+ * Settle one pending transaction from its receipt. Without a receipt it is
+ * replaced if its sender's nonce has moved past it, dropped if the node has
+ * forgotten it for too long, and otherwise still pending. Record uploads take
+ * the record with them either way.
+ */
+const checkTransaction = async (row: BlockchainTransactionRow, now: Date): Promise<void> => {
+  const provider = getProvider();
+  const receipt = await provider.getTransactionReceipt(row.hash);
+
+  if (receipt) {
+    const confirmed = receipt.status === 1;
+    await db.update(blockchainTransactions)
+      .set({
+        status: confirmed ? 'confirmed' : 'failed',
+        failureReason: confirmed ? null : 'reverted',
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString(),
+        fee: receipt.fee.toString(),
+        confirmedAt: confirmed ? now : null,
+        updatedAt: now
+      })
+      .where(eq(blockchainTransactions.id, row.id));
+
+    await settleRecord(row, confirmed ? 'confirmed' : 'failed');
+    return;
+  }
+
+  if (await provider.getTransaction(row.hash)) {
+    return;
+  }
+
+  const minedNonce = await provider.getTransactionCount(row.fromAddress, 'latest');
+  if (minedNonce > row.nonce) {
+    const replacement = await db.query.blockchainTransactions.findFirst({
+      where: and(
+        eq(blockchainTransactions.fromAddress, row.fromAddress),
+        eq(blockchainTransactions.nonce, row.nonce),
+        ne(blockchainTransactions.id, row.id)
+      )
+    });
+
+    await db.update(blockchainTransactions)
+      .set({ status: 'failed', failureReason: 'replaced', replacedBy: replacement?.hash, updatedAt: now })
+      .where(eq(blockchainTransactions.id, row.id));
+
+    await settleReplacedRecord(row, replacement, now);
+    return;
+  }
+
+  if (now.getTime() - row.submittedAt.getTime() > DROP_AFTER_MS) {
+    await db.update(blockchainTransactions)
+      .set({ status: 'failed', failureReason: 'dropped', updatedAt: now })
+      .where(eq(blockchainTransactions.id, row.id));
+
+    await settleRecord(row, 'failed');
+  }
+};
+
+/**
+ * Poll receipts for pending transactions, least recently checked first.
+ * A batch is claimed under the job's advisory lock by stamping lastCheckedAt,
+ * so concurrent runs move on to other rows.
+ */
+export const trackPendingTransactions = async (now: Date = new Date()) => {
+  if (!isChainConfigured()) {
+    return { skipped: true, checked: 0 };
+  }
+
+  const pending = await runExclusive('track-transactions', async (tx) => {
+    const due = await tx
+      .select({ id: blockchainTransactions.id })
+      .from(blockchainTransactions)
+      .where(eq(blockchainTransactions.status, 'pending'))
+      .orderBy(sql`${blockchainTransactions.lastCheckedAt} asc nulls first`, asc(blockchainTransactions.submittedAt))
+      .limit(TRACK_BATCH_SIZE);
+
+    if (!due.length) {
+      return [];
+    }
+
+    return tx.update(blockchainTransactions)
+      .set({ lastCheckedAt: now })
+      .where(inArray(blockchainTransactions.id, due.map(row => row.id)))
+      .returning();
+  });
+
+  if (!pending) {
+    return { skipped: true, checked: 0 };
+  }
+
+  for (const row of pending) {
+    try {
+      await checkTransaction(row, now);
+    } catch (error) {
+      console.error(`Failed to check transaction ${row.hash}:`, error);
+    }
+  }
+
+  return { skipped: false, checked: pending.length };
+};
+
+export const createTransactionTrackerJob = (): Job => ({
+  name: 'track-transactions',
+  intervalMs: Number(process.env.TRANSACTION_TRACKER_INTERVAL_MS || 15 * 1000),
+  async run() {
+    await trackPendingTransactions();
+  }
+});
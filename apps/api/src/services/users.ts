@@ -0,0 +1,92 @@
+import { eq, or } from 'drizzle-orm';
+import { db, users, patients, User, Patient } from '@aarovia/database';
+import { createError } from '../middleware/errorHandler';
+
+export interface PatientProfileInput {
+  firstName: string;
+  lastName: string;
+  phone?: string;
+  dateOfBirth?: string;
+}
+
+export interface RegisterUserInput {
+  address: string;
+  email: string;
+  role: 'patient' | 'provider';
+  profile?: PatientProfileInput;
+}
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+const isUniqueViolation = (error: unknown): error is { code: string; constraint_name?: string } => {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === UNIQUE_VIOLATION;
+};
+
+const conflictError = (field: 'address' | 'email') => {
+  return field === 'address'
+    ? createError('Wallet address is already registered', 409, 'ADDRESS_TAKEN')
+    : createError('Email is already registered', 409, 'EMAIL_TAKEN');
+};
+
+/**
+ * Create the users row and, for patients, the matching patients row in one transaction
+ */
+export const registerUser = async (
+  input: RegisterUserInput
+): Promise<{ user: User; patient?: Patient }> => {
+  const email = input.email.toLowerCase();
+
+  const existing = await db.query.users.findFirst({
+    where: or(eq(users.address, input.address), eq(users.email, email))
+  });
+
+  if (existing) {
+    throw conflictError(existing.address === input.address ? 'address' : 'email');
+  }
+
+  try {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.insert(users).values({
+        address: input.address,
+        email,
+        role: input.role
+      }).returning();
+
+      if (input.role !== 'patient') {
+        return { user };
+      }
+
+      const profile = input.profile!;
+      const [patient] = await tx.insert(patients).values({
+        userId: user.id,
+        firstName: profile.firstName,
+        lastName: profile.lastName,
+        phone: profile.phone,
+        dateOfBirth: profile.dateOfBirth ? new Date(profile.dateOfBirth) : undefined
+      }).returning();
+
+      return { user, patient };
+    });
+  } catch (error) {
+    // A concurrent registration won the race for the same address or email
+    if (isUniqueViolation(error)) {
+      throw conflictError(error.constraint_name?.includes('email') ? 'email' : 'address');
+    }
+    throw error;
+  }
+};
+
+/**
+ * The patient profile behind a patient user
+ */
+export const getPatientForUser = async (userId: string): Promise<Patient> => {
+  const patient = await db.query.patients.findFirst({
+    where: eq(patients.userId, userId)
+  });
+
+  if (!patient) {
+    throw createError('Patient profile not found', 404, 'PATIENT_PROFILE_NOT_FOUND');
+  }
+  return patient;
+};
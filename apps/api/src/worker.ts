@@ -0,0 +1,25 @@
+import dotenv from 'dotenv';
+import { startScheduler, stopScheduler } from './services/scheduler';
+import { createExpiryJob } from './services/expiry';
+import { createAuditAnchorJob } from './services/auditChain';
+import { createChainIndexerJob } from './services/chainIndexer';
+import { createTransactionTrackerJob } from './services/transactions';
+import { createRecordAnchorJob } from './services/records';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Standalone background job runner. Safe to run next to API instances that
+ * also schedule jobs: each run takes an advisory lock first.
+ */
+startScheduler([createExpiryJob(), createAuditAnchorJob(), createChainIndexerJob(), createTransactionTrackerJob(), createRecordAnchorJob()]);
+
+const shutdown = async (signal: string) => {
+  console.log(`${signal} received, waiting for running jobs`);
+  await stopScheduler();
+  process.exit(0);
+};
+
+process.on('SIGINT', () => void shutdown('SIGINT'));
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
@@ -5,6 +5,12 @@ export * from './relations';
 export type User = typeof import('./tables').users.$inferSelect;
 export type NewUser = typeof import('./tables').users.$inferInsert;
 
+export type AuthNonce = typeof import('./tables').authNonces.$inferSelect;
+export type NewAuthNonce = typeof import('./tables').authNonces.$inferInsert;
+
+export type Session = typeof import('./tables').sessions.$inferSelect;
+export type NewSession = typeof import('./tables').sessions.$inferInsert;
+
 export type Patient = typeof import('./tables').patients.$inferSelect;
 export type NewPatient = typeof import('./tables').patients.$inferInsert;
 
@@ -14,11 +20,35 @@ export type NewProvider = typeof import('./tables').providers.$inferInsert;
 export type MedicalRecord = typeof import('./tables').medicalRecords.$inferSelect;
 export type NewMedicalRecord = typeof import('./tables').medicalRecords.$inferInsert;
 
+export type RecordKey = typeof import('./tables').recordKeys.$inferSelect;
+export type NewRecordKey = typeof import('./tables').recordKeys.$inferInsert;
+
 export type AccessGrant = typeof import('./tables').accessGrants.$inferSelect;
 export type NewAccessGrant = typeof import('./tables').accessGrants.$inferInsert;
 
 export type AccessRequest = typeof import('./tables').accessRequests.$inferSelect;
 export type NewAccessRequest = typeof import('./tables').accessRequests.$inferInsert;
 
+export type ShareLink = typeof import('./tables').shareLinks.$inferSelect;
+export type NewShareLink = typeof import('./tables').shareLinks.$inferInsert;
+
+export type IceToken = typeof import('./tables').iceTokens.$inferSelect;
+export type NewIceToken = typeof import('./tables').iceTokens.$inferInsert;
+
+export type BreakGlassEvent = typeof import('./tables').breakGlassEvents.$inferSelect;
+export type NewBreakGlassEvent = typeof import('./tables').breakGlassEvents.$inferInsert;
+
 export type AuditLog = typeof import('./tables').auditLogs.$inferSelect;
 export type NewAuditLog = typeof import('./tables').auditLogs.$inferInsert;
+
+export type AuditAnchor = typeof import('./tables').auditAnchors.$inferSelect;
+export type NewAuditAnchor = typeof import('./tables').auditAnchors.$inferInsert;
+
+export type BlockchainTransaction = typeof import('./tables').blockchainTransactions.$inferSelect;
+export type NewBlockchainTransaction = typeof import('./tables').blockchainTransactions.$inferInsert;
+
+export type ChainEvent = typeof import('./tables').chainEvents.$inferSelect;
+export type NewChainEvent = typeof import('./tables').chainEvents.$inferInsert;
+
+export type ChainCursor = typeof import('./tables').chainCursors.$inferSelect;
+export type NewChainCursor = typeof import('./tables').chainCursors.$inferInsert;
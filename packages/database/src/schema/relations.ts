@@ -6,7 +6,15 @@ import {
   medicalRecords, 
   accessGrants, 
   accessRequests, 
-  auditLogs 
+  auditLogs,
+  sessions,
+  recordKeys,
+  shareLinks,
+  breakGlassEvents,
+  iceTokens,
+  auditAnchors,
+  blockchainTransactions,
+  chainEvents
 } from './tables';
 
 // Define relationships between tables
@@ -20,6 +28,14 @@ export const usersRelations = relations(users, ({ one, many }) => ({
     references: [providers.userId],
   }),
   auditLogs: many(auditLogs),
+  sessions: many(sessions),
+}));
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
 }));
 
 export const patientsRelations = relations(patients, ({ one, many }) => ({
@@ -30,6 +46,8 @@ export const patientsRelations = relations(patients, ({ one, many }) => ({
   medicalRecords: many(medicalRecords),
   accessGrants: many(accessGrants),
   accessRequests: many(accessRequests),
+  shareLinks: many(shareLinks),
+  iceTokens: many(iceTokens),
 }));
 
 export const providersRelations = relations(providers, ({ one, many }) => ({
@@ -53,6 +71,18 @@ export const medicalRecordsRelations = relations(medicalRecords, ({ one, many })
   }),
   accessGrants: many(accessGrants),
   auditLogs: many(auditLogs),
+  keys: many(recordKeys),
+}));
+
+export const recordKeysRelations = relations(recordKeys, ({ one }) => ({
+  record: one(medicalRecords, {
+    fields: [recordKeys.recordId],
+    references: [medicalRecords.id],
+  }),
+  user: one(users, {
+    fields: [recordKeys.userId],
+    references: [users.id],
+  }),
 }));
 
 export const accessGrantsRelations = relations(accessGrants, ({ one }) => ({
@@ -91,3 +121,66 @@ export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
     references: [medicalRecords.id],
   }),
 }));
+
+export const shareLinksRelations = relations(shareLinks, ({ one }) => ({
+  patient: one(patients, {
+    fields: [shareLinks.patientId],
+    references: [patients.id],
+  }),
+}));
+
+export const breakGlassEventsRelations = relations(breakGlassEvents, ({ one }) => ({
+  patient: one(patients, {
+    fields: [breakGlassEvents.patientId],
+    references: [patients.id],
+  }),
+  provider: one(providers, {
+    fields: [breakGlassEvents.providerId],
+    references: [providers.id],
+  }),
+  grant: one(accessGrants, {
+    fields: [breakGlassEvents.grantId],
+    references: [accessGrants.id],
+  }),
+  reviewer: one(users, {
+    fields: [breakGlassEvents.reviewedBy],
+    references: [users.id],
+  }),
+}));
+
+export const iceTokensRelations = relations(iceTokens, ({ one }) => ({
+  patient: one(patients, {
+    fields: [iceTokens.patientId],
+    references: [patients.id],
+  }),
+}));
+
+export const blockchainTransactionsRelations = relations(blockchainTransactions, ({ one }) => ({
+  user: one(users, {
+    fields: [blockchainTransactions.userId],
+    references: [users.id],
+  }),
+  record: one(medicalRecords, {
+    fields: [blockchainTransactions.recordId],
+    references: [medicalRecords.id],
+  }),
+  accessGrant: one(accessGrants, {
+    fields: [blockchainTransactions.accessGrantId],
+    references: [accessGrants.id],
+  }),
+}));
+
+export const chainEventsRelations = relations(chainEvents, ({ one }) => ({
+  record: one(medicalRecords, {
+    fields: [chainEvents.recordId],
+    references: [medicalRecords.id],
+  }),
+  accessGrant: one(accessGrants, {
+    fields: [chainEvents.accessGrantId],
+    references: [accessGrants.id],
+  }),
+  auditAnchor: one(auditAnchors, {
+    fields: [chainEvents.auditAnchorId],
+    references: [auditAnchors.id],
+  }),
+}));
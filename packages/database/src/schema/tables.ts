@@ -1,5 +1,5 @@
-import { pgTable, uuid, varchar, text, timestamp, boolean, integer, jsonb, index } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { pgTable, uuid, varchar, text, timestamp, boolean, integer, bigint, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
 
 export const users = pgTable('users', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -8,6 +8,8 @@ export const users = pgTable('users', {
   role: varchar('role', { enum: ['patient', 'provider', 'admin'] }).notNull(),
   isActive: boolean('is_active').default(true).notNull(),
   emailVerified: boolean('email_verified').default(false).notNull(),
+  // P-256 public key (base64url) that record data keys are wrapped for
+  encryptionPublicKey: text('encryption_public_key'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
@@ -15,6 +17,37 @@ export const users = pgTable('users', {
   emailIdx: index('users_email_idx').on(table.email),
 }));
 
+// Single-use nonces for Sign-In with Ethereum
+export const authNonces = pgTable('auth_nonces', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  address: varchar('address', { length: 42 }).notNull(),
+  nonce: varchar('nonce', { length: 64 }).notNull().unique(),
+  expiresAt: timestamp('expires_at').notNull(),
+  consumedAt: timestamp('consumed_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  addressIdx: index('auth_nonces_address_idx').on(table.address),
+  expiresAtIdx: index('auth_nonces_expires_at_idx').on(table.expiresAt),
+}));
+
+// Refresh-token sessions. Each rotation adds a row to the same family.
+export const sessions = pgTable('sessions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  familyId: uuid('family_id').notNull(),
+  refreshTokenHash: varchar('refresh_token_hash', { length: 64 }).notNull().unique(),
+  replacedBy: uuid('replaced_by'),
+  expiresAt: timestamp('expires_at').notNull(),
+  revokedAt: timestamp('revoked_at'),
+  revokedReason: varchar('revoked_reason', { enum: ['logout', 'logout_all', 'reuse_detected'] }),
+  ipAddress: varchar('ip_address', { length: 45 }),
+  userAgent: text('user_agent'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userIdIdx: index('sessions_user_id_idx').on(table.userId),
+  familyIdIdx: index('sessions_family_id_idx').on(table.familyId),
+}));
+
 export const patients = pgTable('patients', {
   id: uuid('id').defaultRandom().primaryKey(),
   userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
@@ -100,14 +133,14 @@ export const medicalRecords = pgTable('medical_records', {
   
   // Blockchain and IPFS information
   ipfsHash: varchar('ipfs_hash', { length: 100 }).notNull(),
+  recordHash: varchar('record_hash', { length: 66 }).notNull().unique(),
   blockchainTxHash: varchar('blockchain_tx_hash', { length: 66 }),
+  // 'pending' until the record hash is confirmed on chain
+  status: varchar('status', { enum: ['pending', 'confirmed', 'failed'] }).default('pending').notNull(),
   
   recordDate: timestamp('record_date').notNull(),
   tags: jsonb('tags').$type<string[]>(),
   
-  // Encryption information
-  encryptionKey: varchar('encryption_key', { length: 255 }).notNull(),
-  
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
@@ -116,14 +149,45 @@ export const medicalRecords = pgTable('medical_records', {
   categoryIdx: index('medical_records_category_idx').on(table.category),
   recordDateIdx: index('medical_records_record_date_idx').on(table.recordDate),
   ipfsHashIdx: index('medical_records_ipfs_hash_idx').on(table.ipfsHash),
+  statusIdx: index('medical_records_status_idx').on(table.status),
 }));
 
-export const accessGrants = pgTable('access_grants', {
+// Wrapped copies of each record's data key: one under the server master key,
+// plus one per user (owner and grantees) under their public key
+export const recordKeys = pgTable('record_keys', {
   id: uuid('id').defaultRandom().primaryKey(),
   recordId: uuid('record_id').references(() => medicalRecords.id, { onDelete: 'cascade' }).notNull(),
+  recipientType: varchar('recipient_type', { enum: ['master', 'user'] }).notNull(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  keyId: varchar('key_id', { length: 64 }).notNull(), // master key ID or public key fingerprint
+  wrappedKey: text('wrapped_key').notNull(),
+  
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  recordIdIdx: index('record_keys_record_id_idx').on(table.recordId),
+  userIdIdx: index('record_keys_user_id_idx').on(table.userId),
+  keyIdIdx: index('record_keys_key_id_idx').on(table.keyId),
+  recipientIdx: uniqueIndex('record_keys_recipient_idx').on(table.recordId, table.recipientType, table.userId),
+}));
+
+export const accessGrants = pgTable('access_grants', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  // Set only for 'record' grants; the other scopes are matched against records at access time
+  recordId: uuid('record_id').references(() => medicalRecords.id, { onDelete: 'cascade' }),
   patientId: uuid('patient_id').references(() => patients.id, { onDelete: 'cascade' }).notNull(),
   providerId: uuid('provider_id').references(() => providers.id, { onDelete: 'cascade' }).notNull(),
   
+  // Scope: a single record, every record of the patient, a category or a tag,
+  // optionally narrowed to a record-date range
+  scope: varchar('scope', { enum: ['record', 'patient', 'category', 'tag'] }).default('record').notNull(),
+  category: varchar('category', {
+    enum: ['lab-report', 'imaging', 'prescription', 'consultation', 'other']
+  }),
+  tag: varchar('tag', { length: 100 }),
+  recordDateFrom: timestamp('record_date_from'),
+  recordDateTo: timestamp('record_date_to'),
+  
   permissions: jsonb('permissions').$type<string[]>().notNull(), // ['read', 'write', 'share']
   expiresAt: timestamp('expires_at'),
   isRevoked: boolean('is_revoked').default(false).notNull(),
@@ -139,6 +203,7 @@ export const accessGrants = pgTable('access_grants', {
   recordIdIdx: index('access_grants_record_id_idx').on(table.recordId),
   patientIdIdx: index('access_grants_patient_id_idx').on(table.patientId),
   providerIdIdx: index('access_grants_provider_id_idx').on(table.providerId),
+  patientProviderIdx: index('access_grants_patient_provider_idx').on(table.patientId, table.providerId),
   expiresAtIdx: index('access_grants_expires_at_idx').on(table.expiresAt),
 }));
 
@@ -161,6 +226,80 @@ export const accessRequests = pgTable('access_requests', {
   patientIdIdx: index('access_requests_patient_id_idx').on(table.patientId),
   providerIdIdx: index('access_requests_provider_id_idx').on(table.providerId),
   statusIdx: index('access_requests_status_idx').on(table.status),
+  // At most one pending request per provider and patient
+  pendingIdx: uniqueIndex('access_requests_pending_idx')
+    .on(table.patientId, table.providerId)
+    .where(sql`${table.status} = 'pending'`),
+}));
+
+// Expiring links that let someone without an account view a patient's records
+export const shareLinks = pgTable('share_links', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  patientId: uuid('patient_id').references(() => patients.id, { onDelete: 'cascade' }).notNull(),
+  recordIds: jsonb('record_ids').$type<string[]>().notNull(),
+  label: varchar('label', { length: 255 }),
+
+  // bcrypt hash of the optional PIN; too many wrong guesses revoke the link
+  pinHash: text('pin_hash'),
+  failedPinAttempts: integer('failed_pin_attempts').default(0).notNull(),
+
+  maxViews: integer('max_views'),
+  viewCount: integer('view_count').default(0).notNull(),
+  lastViewedAt: timestamp('last_viewed_at'),
+
+  expiresAt: timestamp('expires_at').notNull(),
+  revokedAt: timestamp('revoked_at'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  patientIdIdx: index('share_links_patient_id_idx').on(table.patientId),
+  expiresAtIdx: index('share_links_expires_at_idx').on(table.expiresAt),
+}));
+
+// Revocable tokens printed on a patient's emergency card; they are the only way to read ICE data
+export const iceTokens = pgTable('ice_tokens', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  patientId: uuid('patient_id').references(() => patients.id, { onDelete: 'cascade' }).notNull(),
+  // SHA-256 of the token, which is an HMAC of the id and is never stored
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  label: varchar('label', { length: 255 }),
+  lastUsedAt: timestamp('last_used_at'),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  patientIdIdx: index('ice_tokens_patient_id_idx').on(table.patientId),
+}));
+
+// Emergency access a provider took without the patient's consent; every event is reviewed by an admin
+export const breakGlassEvents = pgTable('break_glass_events', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  patientId: uuid('patient_id').references(() => patients.id, { onDelete: 'cascade' }).notNull(),
+  providerId: uuid('provider_id').references(() => providers.id, { onDelete: 'cascade' }).notNull(),
+  grantId: uuid('grant_id').references(() => accessGrants.id, { onDelete: 'set null' }),
+
+  // Structured justification
+  reason: varchar('reason', {
+    enum: ['patient_unconscious', 'patient_incapacitated', 'life_threatening', 'guardian_unreachable', 'other']
+  }).notNull(),
+  clinicalContext: text('clinical_context').notNull(),
+  location: varchar('location', { length: 255 }),
+  expiresAt: timestamp('expires_at').notNull(),
+
+  patientNotifiedAt: timestamp('patient_notified_at'),
+  emergencyContactNotifiedAt: timestamp('emergency_contact_notified_at'),
+
+  reviewStatus: varchar('review_status', { enum: ['pending', 'justified', 'escalated'] }).default('pending').notNull(),
+  reviewedBy: uuid('reviewed_by').references(() => users.id),
+  reviewNotes: text('review_notes'),
+  reviewedAt: timestamp('reviewed_at'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  patientIdIdx: index('break_glass_events_patient_id_idx').on(table.patientId),
+  providerIdIdx: index('break_glass_events_provider_id_idx').on(table.providerId),
+  reviewStatusIdx: index('break_glass_events_review_status_idx').on(table.reviewStatus),
 }));
 
 export const auditLogs = pgTable('audit_logs', {
@@ -169,6 +308,7 @@ export const auditLogs = pgTable('audit_logs', {
   recordId: uuid('record_id').references(() => medicalRecords.id),
   
   action: varchar('action', { length: 100 }).notNull(), // 'create', 'read', 'update', 'delete', 'share', 'revoke'
+  severity: varchar('severity', { enum: ['info', 'warning', 'high'] }).default('info').notNull(),
   resourceType: varchar('resource_type', { length: 50 }).notNull(), // 'medical_record', 'access_grant', etc.
   resourceId: uuid('resource_id'),
   
@@ -176,10 +316,122 @@ export const auditLogs = pgTable('audit_logs', {
   ipAddress: varchar('ip_address', { length: 45 }),
   userAgent: text('user_agent'),
   
+  // Hash chain: each entry hashes its own fields together with the previous entry's hash
+  sequence: bigint('sequence', { mode: 'number' }).notNull(),
+  previousHash: varchar('previous_hash', { length: 64 }).notNull(),
+  hash: varchar('hash', { length: 64 }).notNull(),
+  
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   userIdIdx: index('audit_logs_user_id_idx').on(table.userId),
   recordIdIdx: index('audit_logs_record_id_idx').on(table.recordId),
   actionIdx: index('audit_logs_action_idx').on(table.action),
+  severityIdx: index('audit_logs_severity_idx').on(table.severity),
   createdAtIdx: index('audit_logs_created_at_idx').on(table.createdAt),
+  sequenceIdx: uniqueIndex('audit_logs_sequence_idx').on(table.sequence),
 }));
+
+// Merkle roots of consecutive audit log batches, anchored on chain
+export const auditAnchors = pgTable('audit_anchors', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  fromSequence: bigint('from_sequence', { mode: 'number' }).notNull(),
+  toSequence: bigint('to_sequence', { mode: 'number' }).notNull(),
+  entryCount: integer('entry_count').notNull(),
+  merkleRoot: varchar('merkle_root', { length: 66 }).notNull(),
+  
+  status: varchar('status', { enum: ['pending', 'confirmed', 'failed'] }).default('pending').notNull(),
+  transactionHash: varchar('transaction_hash', { length: 66 }),
+  submittedAt: timestamp('submitted_at'),
+  anchoredAt: timestamp('anchored_at'),
+  
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  toSequenceIdx: uniqueIndex('audit_anchors_to_sequence_idx').on(table.toSequence),
+  merkleRootIdx: uniqueIndex('audit_anchors_merkle_root_idx').on(table.merkleRoot),
+  statusIdx: index('audit_anchors_status_idx').on(table.status),
+}));
+
+// Transactions sent to the chain, by the server wallet or relayed for a user,
+// with the records and grants they affect. The tracker settles pending rows.
+export const blockchainTransactions = pgTable('blockchain_transactions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  hash: varchar('hash', { length: 66 }).notNull().unique(),
+  type: varchar('type', { enum: ['record_upload', 'access_grant', 'access_revoke'] }).notNull(),
+  
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'set null' }),
+  recordId: uuid('record_id').references(() => medicalRecords.id, { onDelete: 'set null' }),
+  accessGrantId: uuid('access_grant_id').references(() => accessGrants.id, { onDelete: 'set null' }),
+  
+  fromAddress: varchar('from_address', { length: 42 }).notNull(),
+  toAddress: varchar('to_address', { length: 42 }).notNull(),
+  nonce: integer('nonce').notNull(),
+  // Wei, as decimal strings
+  value: varchar('value', { length: 78 }).default('0').notNull(),
+  fee: varchar('fee', { length: 78 }),
+  
+  status: varchar('status', { enum: ['pending', 'confirmed', 'failed'] }).default('pending').notNull(),
+  // Why a failed transaction never confirmed
+  failureReason: varchar('failure_reason', { enum: ['reverted', 'replaced', 'dropped'] }),
+  replacedBy: varchar('replaced_by', { length: 66 }),
+  blockNumber: bigint('block_number', { mode: 'number' }),
+  gasLimit: varchar('gas_limit', { length: 78 }),
+  gasUsed: varchar('gas_used', { length: 78 }),
+  
+  // Set on meta-transactions the relayer submitted through the forwarder for a user
+  forwardedFrom: varchar('forwarded_from', { length: 42 }),
+  forwardNonce: integer('forward_nonce'),
+  
+  submittedAt: timestamp('submitted_at').defaultNow().notNull(),
+  confirmedAt: timestamp('confirmed_at'),
+  lastCheckedAt: timestamp('last_checked_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  userIdIdx: index('blockchain_transactions_user_id_idx').on(table.userId),
+  recordIdIdx: index('blockchain_transactions_record_id_idx').on(table.recordId),
+  accessGrantIdIdx: index('blockchain_transactions_access_grant_id_idx').on(table.accessGrantId),
+  fromNonceIdx: index('blockchain_transactions_from_nonce_idx').on(table.fromAddress, table.nonce),
+  forwardedFromNonceIdx: index('blockchain_transactions_forwarded_from_nonce_idx').on(table.forwardedFrom, table.forwardNonce),
+  statusIdx: index('blockchain_transactions_status_idx').on(table.status),
+}));
+
+// Contract events read back from the chain by the indexer. Rows above the
+// cursor's block are rolled back when the chain reorganizes.
+export const chainEvents = pgTable('chain_events', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  event: varchar('event', { enum: ['RecordStored', 'AccessGranted', 'AccessRevoked'] }).notNull(),
+  contractAddress: varchar('contract_address', { length: 42 }).notNull(),
+  
+  blockNumber: bigint('block_number', { mode: 'number' }).notNull(),
+  blockHash: varchar('block_hash', { length: 66 }).notNull(),
+  transactionHash: varchar('transaction_hash', { length: 66 }).notNull(),
+  logIndex: integer('log_index').notNull(),
+  
+  recordHash: varchar('record_hash', { length: 66 }).notNull(),
+  // Record owner for RecordStored, the patient for access events
+  account: varchar('account', { length: 42 }).notNull(),
+  provider: varchar('provider', { length: 42 }),
+  expiresAt: timestamp('expires_at'),
+  ipfsHash: varchar('ipfs_hash', { length: 100 }),
+  
+  // The database rows the event was reconciled with, if any
+  recordId: uuid('record_id').references(() => medicalRecords.id, { onDelete: 'set null' }),
+  accessGrantId: uuid('access_grant_id').references(() => accessGrants.id, { onDelete: 'set null' }),
+  auditAnchorId: uuid('audit_anchor_id').references(() => auditAnchors.id, { onDelete: 'set null' }),
+  
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  blockLogIdx: uniqueIndex('chain_events_block_log_idx').on(table.blockHash, table.logIndex),
+  blockNumberIdx: index('chain_events_block_number_idx').on(table.blockNumber),
+  transactionHashIdx: index('chain_events_transaction_hash_idx').on(table.transactionHash),
+  recordHashIdx: index('chain_events_record_hash_idx').on(table.recordHash),
+}));
+
+// Last block each indexer has processed, with its hash to detect reorgs
+export const chainCursors = pgTable('chain_cursors', {
+  name: varchar('name', { length: 100 }).primaryKey(),
+  blockNumber: bigint('block_number', { mode: 'number' }).notNull(),
+  blockHash: varchar('block_hash', { length: 66 }).notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
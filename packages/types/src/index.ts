@@ -6,6 +6,7 @@ export interface User {
   role: 'patient' | 'provider' | 'admin';
   isActive: boolean;
   emailVerified: boolean;
+  encryptionPublicKey?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -15,6 +16,17 @@ export interface AuthResponse {
   data: {
     user: User;
     token: string;
+    refreshToken: string;
+    expiresIn: number;
+  };
+}
+
+export interface TokenRefreshResponse {
+  success: boolean;
+  data: {
+    token: string;
+    refreshToken: string;
+    expiresIn: number;
   };
 }
 
@@ -81,10 +93,13 @@ export interface MedicalRecord {
   fileSize: number;
   fileMimeType: string;
   ipfsHash: string;
+  recordHash: string;
   blockchainTxHash?: string;
+  status: 'pending' | 'confirmed' | 'failed';
   recordDate: Date;
   tags?: string[];
-  encryptionKey: string;
+  // The record's data key wrapped for the requesting user's public key
+  wrappedKey?: string;
   createdAt: Date;
   updatedAt: Date;
   provider?: {
@@ -94,11 +109,19 @@ export interface MedicalRecord {
 }
 
 // Access Control Types
+export type AccessGrantScope = 'record' | 'patient' | 'category' | 'tag';
+
 export interface AccessGrant {
   id: string;
-  recordId: string;
+  // Only set for 'record' grants
+  recordId?: string;
   patientId: string;
   providerId: string;
+  scope: AccessGrantScope;
+  category?: MedicalRecord['category'];
+  tag?: string;
+  recordDateFrom?: Date;
+  recordDateTo?: Date;
   permissions: string[];
   expiresAt?: Date;
   isRevoked: boolean;
@@ -123,6 +146,186 @@ export interface AccessRequest {
   updatedAt: Date;
 }
 
+export interface ShareLink {
+  id: string;
+  patientId: string;
+  recordIds: string[];
+  label?: string;
+  pinRequired: boolean;
+  maxViews?: number;
+  viewCount: number;
+  lastViewedAt?: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  // Only returned to the patient who owns the link
+  url?: string;
+}
+
+export interface IceToken {
+  id: string;
+  patientId: string;
+  label?: string;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  // Only set while the token is active
+  url?: string;
+}
+
+export interface IceLookup {
+  id: string;
+  tokenId: string;
+  outcome: 'ok' | 'disabled' | 'revoked';
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+export type BreakGlassReason =
+  | 'patient_unconscious'
+  | 'patient_incapacitated'
+  | 'life_threatening'
+  | 'guardian_unreachable'
+  | 'other';
+
+export interface BreakGlassEvent {
+  id: string;
+  patientId: string;
+  providerId: string;
+  grantId?: string;
+  reason: BreakGlassReason;
+  clinicalContext: string;
+  location?: string;
+  expiresAt: Date;
+  patientNotifiedAt?: Date;
+  emergencyContactNotifiedAt?: Date;
+  reviewStatus: 'pending' | 'justified' | 'escalated';
+  reviewedBy?: string;
+  reviewNotes?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+}
+
+// Audit Trail Types
+export interface AccessHistoryEntry {
+  id: string;
+  action: string;
+  severity: 'info' | 'warning' | 'high';
+  // Providers are named; other users (e.g. admins) are only identified, and
+  // share link and emergency card viewers have no account at all
+  actor: {
+    type: 'provider' | 'user' | 'anonymous';
+    userId?: string;
+    providerId?: string;
+    name?: string;
+  };
+  record?: {
+    id: string;
+    title: string;
+    category: MedicalRecord['category'];
+  };
+  ipAddress?: string;
+  userAgent?: string;
+  details?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface ProviderAccessSummary {
+  provider: Pick<Provider, 'id' | 'name' | 'type'>;
+  lastAccessAt?: Date;
+  views: number;
+  accesses: number;
+  activeGrants: AccessGrant[];
+}
+
+export interface AuditAnchor {
+  id: string;
+  fromSequence: number;
+  toSequence: number;
+  entryCount: number;
+  merkleRoot: string;
+  status: 'pending' | 'confirmed' | 'failed';
+  transactionHash?: string;
+  anchoredAt?: Date;
+  createdAt: Date;
+}
+
+export interface AuditChainProblem {
+  sequence: number;
+  entryId?: string;
+  anchorId?: string;
+  issue: 'hash_mismatch' | 'broken_link' | 'sequence_gap' | 'anchor_mismatch';
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  fromSequence?: number;
+  toSequence?: number;
+  entriesChecked: number;
+  anchorsChecked: number;
+  headHash?: string;
+  problems: AuditChainProblem[];
+}
+
+export interface AuditEntryProof {
+  entryId: string;
+  sequence: number;
+  hash: string;
+  // Whether the stored hash still matches the entry's fields
+  intact: boolean;
+  leaf: string;
+  proof: string[];
+  // Unset until the entry's batch has been anchored
+  anchor?: AuditAnchor;
+  included: boolean;
+  // Only checked when the chain is configured
+  onChain?: boolean;
+}
+
+export interface ChainEvent {
+  id: string;
+  event: 'RecordStored' | 'AccessGranted' | 'AccessRevoked';
+  contractAddress: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  recordHash: string;
+  // Record owner for RecordStored, the patient for access events
+  account: string;
+  provider?: string;
+  expiresAt?: Date;
+  ipfsHash?: string;
+  recordId?: string;
+  accessGrantId?: string;
+  auditAnchorId?: string;
+  createdAt: Date;
+}
+
+export interface ChainReconciliationProblem {
+  // unmatched_event: an indexed event no record, grant or audit batch accounts for;
+  // owner_mismatch: a record's hash stored on chain by an account other than the platform or patient;
+  // missing_event: a transaction mined at or below the cursor without an indexed event
+  issue: 'unmatched_event' | 'owner_mismatch' | 'missing_event';
+  transactionHash: string;
+  event?: ChainEvent;
+  recordId?: string;
+  accessGrantId?: string;
+}
+
+export interface ChainReconciliation {
+  consistent: boolean;
+  // Unset until the indexer has processed its first batch
+  cursor?: {
+    blockNumber: number;
+    blockHash: string;
+    updatedAt: Date;
+  };
+  eventsIndexed: number;
+  problems: ChainReconciliationProblem[];
+}
+
 // API Response Types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -147,17 +350,65 @@ export interface PaginationResponse<T> {
 // Web3 and Blockchain Types
 export interface WalletInfo {
   address: string;
-  balance: string;
-  network: string;
+  // Unset when the chain is not configured or not reachable
+  balance?: string;
+  network?: string;
   transactions: Transaction[];
 }
 
 export interface Transaction {
   hash: string;
-  type: string;
+  type: 'record_upload' | 'access_grant' | 'access_revoke';
+  // Value plus the fee once mined, e.g. '0.0012 ETH'
   amount: string;
   timestamp: Date;
   status: 'pending' | 'confirmed' | 'failed';
+  failureReason?: 'reverted' | 'replaced' | 'dropped';
+  // Hash of the transaction that took this one's nonce
+  replacedBy?: string;
+  blockNumber?: number;
+  recordId?: string;
+  accessGrantId?: string;
+  // Signer of a meta-transaction the relayer submitted and paid for
+  forwardedFrom?: string;
+}
+
+// EIP-712 forward request for the relayer, with uint256 fields as decimal strings
+export interface RelayRequest {
+  from: string;
+  to: string;
+  value: string;
+  gas: string;
+  nonce: string;
+  deadline: string;
+  data: string;
+}
+
+// Typed data a wallet signs to have the relayer submit a call gaslessly
+export interface RelayTypedData {
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: string;
+  };
+  types: Record<string, Array<{ name: string; type: string }>>;
+  primaryType: 'ForwardRequest';
+  message: RelayRequest;
+}
+
+export interface RelayStatus {
+  forwarder: string;
+  relayer: string;
+  // Forwarder nonce the user's next request must carry
+  nonce: string;
+  // Gas units the relayer spends for the user per rolling window
+  gasBudget: {
+    limit: string;
+    used: string;
+    remaining: string;
+    windowHours: number;
+  };
 }
 
 export interface SmartContract {
@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+/// @title ERC2771Context
+/// @notice EIP-2771 recipient: calls relayed by the trusted forwarder carry the
+/// original sender in the last 20 bytes of calldata.
+abstract contract ERC2771Context {
+  address private immutable _trustedForwarder;
+
+  /// @param trustedForwarder_ Forwarder to accept relayed calls from, or the
+  /// zero address to accept none
+  constructor(address trustedForwarder_) {
+    _trustedForwarder = trustedForwarder_;
+  }
+
+  function trustedForwarder() public view returns (address) {
+    return _trustedForwarder;
+  }
+
+  function isTrustedForwarder(address forwarder) public view returns (bool) {
+    return forwarder != address(0) && forwarder == _trustedForwarder;
+  }
+
+  /// @notice The account a call is made for: the signer of a relayed request,
+  /// otherwise msg.sender
+  function _msgSender() internal view returns (address) {
+    if (isTrustedForwarder(msg.sender) && msg.data.length >= 20) {
+      return address(bytes20(msg.data[msg.data.length - 20:]));
+    }
+    return msg.sender;
+  }
+}
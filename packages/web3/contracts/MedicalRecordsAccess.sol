@@ -0,0 +1,91 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import {ERC2771Context} from "./ERC2771Context.sol";
+import {MedicalRecordsStorage} from "./MedicalRecordsStorage.sol";
+
+/// @title MedicalRecordsAccess
+/// @notice Time-limited provider access to records anchored in
+/// MedicalRecordsStorage. Only a record's owner can grant or revoke access,
+/// directly or through the trusted forwarder.
+contract MedicalRecordsAccess is ERC2771Context {
+  struct Access {
+    uint256 expiresAt;
+    string[] permissions;
+    bool active;
+  }
+
+  MedicalRecordsStorage public immutable recordsStorage;
+
+  mapping(bytes32 => mapping(address => Access)) private accesses;
+
+  event AccessGranted(bytes32 indexed recordHash, address indexed patient, address indexed provider, uint256 expiresAt);
+  event AccessRevoked(bytes32 indexed recordHash, address indexed patient, address indexed provider);
+
+  error InvalidStorage();
+  error InvalidProvider();
+  error InvalidExpiry(uint256 expiresAt);
+  error NoPermissions();
+  error RecordNotFound(bytes32 recordHash);
+  error NotRecordOwner(bytes32 recordHash, address caller);
+  error AccessNotFound(bytes32 recordHash, address provider);
+
+  modifier onlyRecordOwner(bytes32 recordHash) {
+    if (!recordsStorage.recordExists(recordHash)) revert RecordNotFound(recordHash);
+    (, , address owner) = recordsStorage.getRecord(recordHash);
+    if (owner != _msgSender()) revert NotRecordOwner(recordHash, _msgSender());
+    _;
+  }
+
+  constructor(MedicalRecordsStorage recordsStorage_, address trustedForwarder_) ERC2771Context(trustedForwarder_) {
+    if (address(recordsStorage_) == address(0)) revert InvalidStorage();
+    recordsStorage = recordsStorage_;
+  }
+
+  /// @notice Grant (or replace) a provider's access to a record. An
+  /// `expiresAt` of 0 never expires.
+  function grantAccess(
+    bytes32 recordHash,
+    address provider,
+    uint256 expiresAt,
+    string[] calldata permissions
+  ) external onlyRecordOwner(recordHash) {
+    if (provider == address(0)) revert InvalidProvider();
+    if (expiresAt != 0 && expiresAt <= block.timestamp) revert InvalidExpiry(expiresAt);
+    if (permissions.length == 0) revert NoPermissions();
+
+    accesses[recordHash][provider] = Access(expiresAt, permissions, true);
+
+    emit AccessGranted(recordHash, _msgSender(), provider, expiresAt);
+  }
+
+  /// @notice Revoke a provider's access, including access that has expired
+  function revokeAccess(bytes32 recordHash, address provider) external onlyRecordOwner(recordHash) {
+    if (!accesses[recordHash][provider].active) revert AccessNotFound(recordHash, provider);
+
+    delete accesses[recordHash][provider];
+
+    emit AccessRevoked(recordHash, _msgSender(), provider);
+  }
+
+  function hasAccess(bytes32 recordHash, address provider) external view returns (bool) {
+    return _isLive(accesses[recordHash][provider]);
+  }
+
+  /// @notice Expiry and permissions of a live access; empty once it is
+  /// revoked or expired
+  function getAccessDetails(
+    bytes32 recordHash,
+    address provider
+  ) external view returns (uint256 expiresAt, string[] memory permissions) {
+    Access storage access = accesses[recordHash][provider];
+    if (!_isLive(access)) {
+      return (0, new string[](0));
+    }
+    return (access.expiresAt, access.permissions);
+  }
+
+  function _isLive(Access storage access) private view returns (bool) {
+    return access.active && (access.expiresAt == 0 || access.expiresAt > block.timestamp);
+  }
+}
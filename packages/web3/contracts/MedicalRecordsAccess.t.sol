@@ -0,0 +1,130 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import {MedicalRecordsAccess} from "./MedicalRecordsAccess.sol";
+import {MedicalRecordsStorage} from "./MedicalRecordsStorage.sol";
+import {Test} from "forge-std/Test.sol";
+
+contract MedicalRecordsAccessTest is Test {
+  MedicalRecordsStorage recordsStorage;
+  MedicalRecordsAccess access;
+
+  bytes32 constant RECORD = keccak256("record-1");
+  address constant PATIENT = address(0xA11CE);
+  address constant PROVIDER = address(0xB0B);
+  address constant FORWARDER = address(0xF0F0);
+
+  function setUp() public {
+    recordsStorage = new MedicalRecordsStorage(FORWARDER, address(0));
+    access = new MedicalRecordsAccess(recordsStorage, FORWARDER);
+
+    vm.prank(PATIENT);
+    recordsStorage.storeRecord(RECORD, "QmRecord", block.timestamp);
+  }
+
+  function readPermissions() internal pure returns (string[] memory permissions) {
+    permissions = new string[](1);
+    permissions[0] = "read";
+  }
+
+  function test_GrantAccess() public {
+    uint256 expiresAt = block.timestamp + 1 days;
+
+    vm.prank(PATIENT);
+    access.grantAccess(RECORD, PROVIDER, expiresAt, readPermissions());
+
+    require(access.hasAccess(RECORD, PROVIDER), "Provider should have access");
+    (uint256 storedExpiry, string[] memory permissions) = access.getAccessDetails(RECORD, PROVIDER);
+    require(storedExpiry == expiresAt, "Expiry should be stored");
+    require(permissions.length == 1 && keccak256(bytes(permissions[0])) == keccak256("read"), "Permissions should be stored");
+  }
+
+  function test_OnlyOwnerCanGrant() public {
+    vm.prank(PROVIDER);
+    vm.expectRevert(abi.encodeWithSelector(MedicalRecordsAccess.NotRecordOwner.selector, RECORD, PROVIDER));
+    access.grantAccess(RECORD, PROVIDER, 0, readPermissions());
+  }
+
+  function test_CannotGrantUnknownRecord() public {
+    bytes32 unknown = keccak256("unknown");
+
+    vm.prank(PATIENT);
+    vm.expectRevert(abi.encodeWithSelector(MedicalRecordsAccess.RecordNotFound.selector, unknown));
+    access.grantAccess(unknown, PROVIDER, 0, readPermissions());
+  }
+
+  function test_RejectsInvalidGrants() public {
+    vm.startPrank(PATIENT);
+
+    vm.expectRevert(MedicalRecordsAccess.InvalidProvider.selector);
+    access.grantAccess(RECORD, address(0), 0, readPermissions());
+
+    vm.expectRevert(abi.encodeWithSelector(MedicalRecordsAccess.InvalidExpiry.selector, block.timestamp));
+    access.grantAccess(RECORD, PROVIDER, block.timestamp, readPermissions());
+
+    vm.expectRevert(MedicalRecordsAccess.NoPermissions.selector);
+    access.grantAccess(RECORD, PROVIDER, 0, new string[](0));
+
+    vm.stopPrank();
+  }
+
+  function test_AccessExpires() public {
+    uint256 expiresAt = block.timestamp + 1 hours;
+
+    vm.prank(PATIENT);
+    access.grantAccess(RECORD, PROVIDER, expiresAt, readPermissions());
+
+    vm.warp(expiresAt);
+    require(!access.hasAccess(RECORD, PROVIDER), "Access should end at expiresAt");
+    (, string[] memory permissions) = access.getAccessDetails(RECORD, PROVIDER);
+    require(permissions.length == 0, "Expired access should have no permissions");
+  }
+
+  function test_AccessWithoutExpiry() public {
+    vm.prank(PATIENT);
+    access.grantAccess(RECORD, PROVIDER, 0, readPermissions());
+
+    vm.warp(block.timestamp + 3650 days);
+    require(access.hasAccess(RECORD, PROVIDER), "Access without expiry should not end");
+  }
+
+  function test_RevokeAccess() public {
+    vm.startPrank(PATIENT);
+    access.grantAccess(RECORD, PROVIDER, 0, readPermissions());
+    access.revokeAccess(RECORD, PROVIDER);
+    vm.stopPrank();
+
+    require(!access.hasAccess(RECORD, PROVIDER), "Revoked access should end");
+
+    vm.prank(PATIENT);
+    vm.expectRevert(abi.encodeWithSelector(MedicalRecordsAccess.AccessNotFound.selector, RECORD, PROVIDER));
+    access.revokeAccess(RECORD, PROVIDER);
+  }
+
+  function test_OnlyOwnerCanRevoke() public {
+    vm.prank(PATIENT);
+    access.grantAccess(RECORD, PROVIDER, 0, readPermissions());
+
+    vm.prank(PROVIDER);
+    vm.expectRevert(abi.encodeWithSelector(MedicalRecordsAccess.NotRecordOwner.selector, RECORD, PROVIDER));
+    access.revokeAccess(RECORD, PROVIDER);
+  }
+
+  function test_TrustedForwarderActsForSigner() public {
+    bytes memory grant = abi.encodeCall(access.grantAccess, (RECORD, PROVIDER, 0, readPermissions()));
+
+    vm.prank(FORWARDER);
+    (bool success, ) = address(access).call(abi.encodePacked(grant, PATIENT));
+    require(success, "Forwarded grant from the owner should succeed");
+    require(access.hasAccess(RECORD, PROVIDER), "Provider should have access");
+  }
+
+  function test_OtherCallersCannotAppendASender() public {
+    bytes memory grant = abi.encodeCall(access.grantAccess, (RECORD, PROVIDER, 0, readPermissions()));
+
+    vm.prank(PROVIDER);
+    (bool success, ) = address(access).call(abi.encodePacked(grant, PATIENT));
+    require(!success, "Only the trusted forwarder can act for another account");
+    require(!access.hasAccess(RECORD, PROVIDER), "Provider should not have access");
+  }
+}
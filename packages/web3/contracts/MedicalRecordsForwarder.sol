@@ -0,0 +1,112 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+/// @title MedicalRecordsForwarder
+/// @notice EIP-2771 trusted forwarder. Executes EIP-712 signed requests on the
+/// signer's behalf, so a relayer pays the gas. Each request carries the
+/// signer's next nonce and a deadline; the domain binds it to this contract
+/// and chain, so a signature cannot be replayed.
+contract MedicalRecordsForwarder {
+  struct ForwardRequest {
+    address from;
+    address to;
+    uint256 value;
+    uint256 gas;
+    uint256 nonce;
+    uint256 deadline;
+    bytes data;
+  }
+
+  string public constant NAME = "MedicalRecordsForwarder";
+  string public constant VERSION = "1";
+
+  bytes32 private constant DOMAIN_TYPEHASH =
+    keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+  bytes32 private constant FORWARD_REQUEST_TYPEHASH =
+    keccak256("ForwardRequest(address from,address to,uint256 value,uint256 gas,uint256 nonce,uint256 deadline,bytes data)");
+  // Half the secp256k1 order: higher `s` values are malleable copies of valid signatures
+  uint256 private constant MAX_S = 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
+
+  mapping(address => uint256) public nonces;
+
+  event Executed(address indexed from, address indexed to, uint256 nonce);
+
+  error ExpiredRequest(uint256 deadline);
+  error InvalidNonce(address from, uint256 nonce);
+  error InvalidSignature();
+  error MismatchedValue(uint256 requested, uint256 sent);
+
+  function domainSeparator() public view returns (bytes32) {
+    return keccak256(abi.encode(DOMAIN_TYPEHASH, keccak256(bytes(NAME)), keccak256(bytes(VERSION)), block.chainid, address(this)));
+  }
+
+  /// @notice Whether `execute` would accept the request and signature now
+  function verify(ForwardRequest calldata request, bytes calldata signature) external view returns (bool) {
+    return request.deadline >= block.timestamp
+      && request.nonce == nonces[request.from]
+      && _isSignedBy(request, signature);
+  }
+
+  /// @notice Execute a signed request, reverting with the target's error if it fails
+  function execute(ForwardRequest calldata request, bytes calldata signature) external payable returns (bytes memory) {
+    if (msg.value != request.value) revert MismatchedValue(request.value, msg.value);
+    if (request.deadline < block.timestamp) revert ExpiredRequest(request.deadline);
+    if (request.nonce != nonces[request.from]) revert InvalidNonce(request.from, request.nonce);
+    if (!_isSignedBy(request, signature)) revert InvalidSignature();
+
+    nonces[request.from] = request.nonce + 1;
+
+    (bool success, bytes memory result) = request.to.call{gas: request.gas, value: request.value}(
+      abi.encodePacked(request.data, request.from)
+    );
+
+    // A relayer that sends too little gas could otherwise make the call fail
+    // on purpose while still using up the nonce (EIP-150 keeps 1/64 back)
+    if (gasleft() <= request.gas / 63) {
+      assembly {
+        invalid()
+      }
+    }
+
+    if (!success) {
+      assembly {
+        revert(add(result, 32), mload(result))
+      }
+    }
+
+    emit Executed(request.from, request.to, request.nonce);
+    return result;
+  }
+
+  function _digest(ForwardRequest calldata request) private view returns (bytes32) {
+    bytes32 structHash = keccak256(abi.encode(
+      FORWARD_REQUEST_TYPEHASH,
+      request.from,
+      request.to,
+      request.value,
+      request.gas,
+      request.nonce,
+      request.deadline,
+      keccak256(request.data)
+    ));
+    return keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+  }
+
+  /// @dev ecrecover yields the zero address for junk signatures, which must
+  /// never count as a signature by `from == address(0)`
+  function _isSignedBy(ForwardRequest calldata request, bytes calldata signature) private view returns (bool) {
+    address signer = _recover(_digest(request), signature);
+    return signer != address(0) && signer == request.from;
+  }
+
+  function _recover(bytes32 digest, bytes calldata signature) private pure returns (address) {
+    if (signature.length != 65) return address(0);
+
+    bytes32 r = bytes32(signature[0:32]);
+    bytes32 s = bytes32(signature[32:64]);
+    uint8 v = uint8(signature[64]);
+    if (uint256(s) > MAX_S || (v != 27 && v != 28)) return address(0);
+
+    return ecrecover(digest, v, r, s);
+  }
+}
@@ -0,0 +1,70 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import {ERC2771Context} from "./ERC2771Context.sol";
+
+/// @title MedicalRecordsStorage
+/// @notice Anchors medical record hashes with the IPFS location of their
+/// encrypted content. The account that stores a record owns it, unless the
+/// registrar stores it on the owner's behalf.
+contract MedicalRecordsStorage is ERC2771Context {
+  struct Record {
+    string ipfsHash;
+    uint256 timestamp;
+    address owner;
+  }
+
+  /// @notice Account allowed to store records for other owners; the zero
+  /// address disables storeRecordFor
+  address public immutable registrar;
+
+  mapping(bytes32 => Record) private records;
+
+  event RecordStored(bytes32 indexed recordHash, address indexed owner, string ipfsHash, uint256 timestamp);
+
+  error InvalidRecordHash();
+  error EmptyIpfsHash();
+  error RecordAlreadyExists(bytes32 recordHash);
+  error RecordNotFound(bytes32 recordHash);
+  error NotRegistrar(address caller);
+  error InvalidOwner();
+
+  constructor(address trustedForwarder_, address registrar_) ERC2771Context(trustedForwarder_) {
+    registrar = registrar_;
+  }
+
+  /// @notice Store a new record hash owned by the caller. Records are write-once.
+  function storeRecord(bytes32 recordHash, string calldata ipfsHash, uint256 timestamp) external {
+    _store(recordHash, ipfsHash, timestamp, _msgSender());
+  }
+
+  /// @notice Store a new record hash owned by `owner`, e.g. a patient whose
+  /// wallet holds no ETH. Only the registrar can.
+  function storeRecordFor(bytes32 recordHash, string calldata ipfsHash, uint256 timestamp, address owner) external {
+    if (registrar == address(0) || _msgSender() != registrar) revert NotRegistrar(_msgSender());
+    if (owner == address(0)) revert InvalidOwner();
+
+    _store(recordHash, ipfsHash, timestamp, owner);
+  }
+
+  function getRecord(bytes32 recordHash) external view returns (string memory ipfsHash, uint256 timestamp, address owner) {
+    Record storage record = records[recordHash];
+    if (record.owner == address(0)) revert RecordNotFound(recordHash);
+
+    return (record.ipfsHash, record.timestamp, record.owner);
+  }
+
+  function recordExists(bytes32 recordHash) external view returns (bool) {
+    return records[recordHash].owner != address(0);
+  }
+
+  function _store(bytes32 recordHash, string calldata ipfsHash, uint256 timestamp, address owner) private {
+    if (recordHash == bytes32(0)) revert InvalidRecordHash();
+    if (bytes(ipfsHash).length == 0) revert EmptyIpfsHash();
+    if (records[recordHash].owner != address(0)) revert RecordAlreadyExists(recordHash);
+
+    records[recordHash] = Record(ipfsHash, timestamp, owner);
+
+    emit RecordStored(recordHash, owner, ipfsHash, timestamp);
+  }
+}
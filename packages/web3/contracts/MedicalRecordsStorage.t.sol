@@ -0,0 +1,69 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import {MedicalRecordsStorage} from "./MedicalRecordsStorage.sol";
+import {Test} from "forge-std/Test.sol";
+
+contract MedicalRecordsStorageTest is Test {
+  MedicalRecordsStorage recordsStorage;
+
+  bytes32 constant RECORD = keccak256("record-1");
+  address constant PATIENT = address(0xA11CE);
+  address constant REGISTRAR = address(0xBEEF);
+
+  function setUp() public {
+    recordsStorage = new MedicalRecordsStorage(address(0), REGISTRAR);
+  }
+
+  function test_StoreRecord() public {
+    vm.prank(PATIENT);
+    recordsStorage.storeRecord(RECORD, "QmRecord", 1700000000);
+
+    (string memory ipfsHash, uint256 timestamp, address owner) = recordsStorage.getRecord(RECORD);
+    require(keccak256(bytes(ipfsHash)) == keccak256("QmRecord"), "IPFS hash should be stored");
+    require(timestamp == 1700000000, "Timestamp should be stored");
+    require(owner == PATIENT, "Caller should own the record");
+    require(recordsStorage.recordExists(RECORD), "Record should exist");
+  }
+
+  function test_RecordsAreWriteOnce() public {
+    recordsStorage.storeRecord(RECORD, "QmRecord", 1700000000);
+
+    vm.prank(PATIENT);
+    vm.expectRevert(abi.encodeWithSelector(MedicalRecordsStorage.RecordAlreadyExists.selector, RECORD));
+    recordsStorage.storeRecord(RECORD, "QmOther", 1700000001);
+  }
+
+  function test_RejectsEmptyInput() public {
+    vm.expectRevert(MedicalRecordsStorage.InvalidRecordHash.selector);
+    recordsStorage.storeRecord(bytes32(0), "QmRecord", 1700000000);
+
+    vm.expectRevert(MedicalRecordsStorage.EmptyIpfsHash.selector);
+    recordsStorage.storeRecord(RECORD, "", 1700000000);
+  }
+
+  function test_RegistrarStoresForOwner() public {
+    vm.prank(REGISTRAR);
+    recordsStorage.storeRecordFor(RECORD, "QmRecord", 1700000000, PATIENT);
+
+    (, , address owner) = recordsStorage.getRecord(RECORD);
+    require(owner == PATIENT, "The given owner should own the record");
+  }
+
+  function test_OnlyRegistrarStoresFor() public {
+    vm.prank(PATIENT);
+    vm.expectRevert(abi.encodeWithSelector(MedicalRecordsStorage.NotRegistrar.selector, PATIENT));
+    recordsStorage.storeRecordFor(RECORD, "QmRecord", 1700000000, PATIENT);
+
+    vm.prank(REGISTRAR);
+    vm.expectRevert(MedicalRecordsStorage.InvalidOwner.selector);
+    recordsStorage.storeRecordFor(RECORD, "QmRecord", 1700000000, address(0));
+  }
+
+  function test_UnknownRecord() public {
+    require(!recordsStorage.recordExists(RECORD), "Record should not exist");
+
+    vm.expectRevert(abi.encodeWithSelector(MedicalRecordsStorage.RecordNotFound.selector, RECORD));
+    recordsStorage.getRecord(RECORD);
+  }
+}
@@ -21,6 +21,10 @@ const config: HardhatUserConfig = {
       },
     },
   },
+  typechain: {
+    // Committed so the API and web builds type-check against the contracts
+    outDir: "src/typechain",
+  },
   networks: {
     hardhatMainnet: {
       type: "edr-simulated",
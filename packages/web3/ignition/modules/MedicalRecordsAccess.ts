@@ -0,0 +1,13 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import MedicalRecordsStorageModule from "./MedicalRecordsStorage.js";
+
+// Deploys the storage contract and forwarder too, since access checks record
+// ownership in the former and trusts the latter
+export default buildModule("MedicalRecordsAccessModule", (m) => {
+  const { forwarder, recordsStorage } = m.useModule(MedicalRecordsStorageModule);
+
+  const recordsAccess = m.contract("MedicalRecordsAccess", [recordsStorage, forwarder]);
+
+  return { forwarder, recordsStorage, recordsAccess };
+});
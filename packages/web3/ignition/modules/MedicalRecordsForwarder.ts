@@ -0,0 +1,7 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+export default buildModule("MedicalRecordsForwarderModule", (m) => {
+  const forwarder = m.contract("MedicalRecordsForwarder");
+
+  return { forwarder };
+});
@@ -0,0 +1,13 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import MedicalRecordsForwarderModule from "./MedicalRecordsForwarder.js";
+
+// The deploying account becomes the registrar that stores records for
+// patients, so deploy with the API's server wallet
+export default buildModule("MedicalRecordsStorageModule", (m) => {
+  const { forwarder } = m.useModule(MedicalRecordsForwarderModule);
+
+  const recordsStorage = m.contract("MedicalRecordsStorage", [forwarder, m.getAccount(0)]);
+
+  return { forwarder, recordsStorage };
+});
@@ -1,46 +1,50 @@
 import { ethers } from 'ethers';
+import {
+  MedicalRecordsAccess__factory,
+  MedicalRecordsStorage__factory,
+  type MedicalRecordsAccess,
+  type MedicalRecordsStorage
+} from './typechain/index.js';
 
-// Smart contract ABI for medical records access control
-export const MEDICAL_RECORDS_ACCESS_ABI = [
-  // Grant access to a medical record
-  'function grantAccess(bytes32 recordHash, address provider, uint256 expiresAt, string[] permissions) external',
-  
-  // Revoke access to a medical record
-  'function revokeAccess(bytes32 recordHash, address provider) external',
-  
-  // Check if provider has access to a record
-  'function hasAccess(bytes32 recordHash, address provider) external view returns (bool)',
-  
-  // Get access details
-  'function getAccessDetails(bytes32 recordHash, address provider) external view returns (uint256 expiresAt, string[] permissions)',
-  
-  // Events
-  'event AccessGranted(bytes32 indexed recordHash, address indexed patient, address indexed provider, uint256 expiresAt)',
-  'event AccessRevoked(bytes32 indexed recordHash, address indexed patient, address indexed provider)',
-];
-
-// Smart contract ABI for record storage hashes
-export const MEDICAL_RECORDS_STORAGE_ABI = [
-  // Store a new medical record hash
-  'function storeRecord(bytes32 recordHash, string ipfsHash, uint256 timestamp) external',
-  
-  // Get record details
-  'function getRecord(bytes32 recordHash) external view returns (string ipfsHash, uint256 timestamp, address owner)',
-  
-  // Check if record exists
-  'function recordExists(bytes32 recordHash) external view returns (bool)',
-  
-  // Events
-  'event RecordStored(bytes32 indexed recordHash, address indexed owner, string ipfsHash, uint256 timestamp)',
-];
+// Smart contract ABIs, generated from the compiled contracts by `npm run build:contracts`
+export const MEDICAL_RECORDS_ACCESS_ABI = MedicalRecordsAccess__factory.abi;
+export const MEDICAL_RECORDS_STORAGE_ABI = MedicalRecordsStorage__factory.abi;
+
+/**
+ * A contract event with its position on chain
+ */
+export interface MedicalRecordsEvent {
+  name: 'RecordStored' | 'AccessGranted' | 'AccessRevoked';
+  contractAddress: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  recordHash: string;
+  // Record owner for RecordStored, the patient for access events
+  account: string;
+  provider?: string;
+  // Unix seconds; 0 for access that never expires
+  expiresAt?: number;
+  ipfsHash?: string;
+  timestamp?: number;
+}
+
+const toEventPosition = (log: ethers.Log) => ({
+  contractAddress: log.address,
+  blockNumber: log.blockNumber,
+  blockHash: log.blockHash,
+  transactionHash: log.transactionHash,
+  logIndex: log.index
+});
 
 /**
  * Contract interaction utilities
  */
 export class MedicalRecordsContract {
   private provider: ethers.Provider;
-  private accessContract?: ethers.Contract;
-  private storageContract?: ethers.Contract;
+  private accessContract?: MedicalRecordsAccess;
+  private storageContract?: MedicalRecordsStorage;
 
   constructor(
     providerUrl: string,
@@ -50,123 +54,201 @@ export class MedicalRecordsContract {
     this.provider = new ethers.JsonRpcProvider(providerUrl);
     
     if (accessContractAddress) {
-      this.accessContract = new ethers.Contract(
-        accessContractAddress,
-        MEDICAL_RECORDS_ACCESS_ABI,
-        this.provider
-      );
+      this.accessContract = MedicalRecordsAccess__factory.connect(accessContractAddress, this.provider);
     }
     
     if (storageContractAddress) {
-      this.storageContract = new ethers.Contract(
-        storageContractAddress,
-        MEDICAL_RECORDS_STORAGE_ABI,
-        this.provider
-      );
+      this.storageContract = MedicalRecordsStorage__factory.connect(storageContractAddress, this.provider);
+    }
+  }
+
+  private getAccessContract(): MedicalRecordsAccess {
+    if (!this.accessContract) {
+      throw new Error('Access contract not initialized');
     }
+    return this.accessContract;
+  }
+
+  private getStorageContract(): MedicalRecordsStorage {
+    if (!this.storageContract) {
+      throw new Error('Storage contract not initialized');
+    }
+    return this.storageContract;
   }
 
   /**
    * Grant access to a medical record
    */
   async grantAccess(
-    recordHash: string,
-    providerAddress: string,
-    expiresAt: number,
+    recordHash: ethers.BytesLike,
+    providerAddress: ethers.AddressLike,
+    expiresAt: ethers.BigNumberish,
     permissions: string[],
     signer: ethers.Signer
   ): Promise<ethers.ContractTransactionResponse> {
-    if (!this.accessContract) {
-      throw new Error('Access contract not initialized');
-    }
-
-    const contractWithSigner = this.accessContract.connect(signer);
-    return await (contractWithSigner as any).grantAccess(
-      recordHash,
-      providerAddress,
-      expiresAt,
-      permissions
-    );
+    return await this.getAccessContract()
+      .connect(signer)
+      .grantAccess(recordHash, providerAddress, expiresAt, permissions);
   }
 
   /**
    * Revoke access to a medical record
    */
   async revokeAccess(
-    recordHash: string,
-    providerAddress: string,
+    recordHash: ethers.BytesLike,
+    providerAddress: ethers.AddressLike,
     signer: ethers.Signer
   ): Promise<ethers.ContractTransactionResponse> {
-    if (!this.accessContract) {
-      throw new Error('Access contract not initialized');
-    }
-
-    const contractWithSigner = this.accessContract.connect(signer);
-    return await (contractWithSigner as any).revokeAccess(recordHash, providerAddress);
+    return await this.getAccessContract().connect(signer).revokeAccess(recordHash, providerAddress);
   }
 
   /**
    * Check if provider has access to a record
    */
   async hasAccess(
-    recordHash: string,
-    providerAddress: string
+    recordHash: ethers.BytesLike,
+    providerAddress: ethers.AddressLike
   ): Promise<boolean> {
-    if (!this.accessContract) {
-      throw new Error('Access contract not initialized');
-    }
+    return await this.getAccessContract().hasAccess(recordHash, providerAddress);
+  }
 
-    return await this.accessContract.hasAccess(recordHash, providerAddress);
+  /**
+   * Get the expiry (0 for none) and permissions of a provider's live access
+   */
+  async getAccessDetails(
+    recordHash: ethers.BytesLike,
+    providerAddress: ethers.AddressLike
+  ): Promise<{
+    expiresAt: number;
+    permissions: string[];
+  }> {
+    const { expiresAt, permissions } = await this.getAccessContract().getAccessDetails(recordHash, providerAddress);
+    return {
+      expiresAt: Number(expiresAt),
+      permissions: [...permissions]
+    };
   }
 
   /**
    * Store a medical record hash on blockchain
    */
   async storeRecord(
-    recordHash: string,
+    recordHash: ethers.BytesLike,
     ipfsHash: string,
-    timestamp: number,
+    timestamp: ethers.BigNumberish,
     signer: ethers.Signer
   ): Promise<ethers.ContractTransactionResponse> {
-    if (!this.storageContract) {
-      throw new Error('Storage contract not initialized');
-    }
+    return await this.getStorageContract().connect(signer).storeRecord(recordHash, ipfsHash, timestamp);
+  }
 
-    const contractWithSigner = this.storageContract.connect(signer);
-    return await (contractWithSigner as any).storeRecord(recordHash, ipfsHash, timestamp);
+  /**
+   * Store a medical record hash on blockchain on behalf of its owner. The
+   * signer must be the storage contract's registrar.
+   */
+  async storeRecordFor(
+    recordHash: ethers.BytesLike,
+    ipfsHash: string,
+    timestamp: ethers.BigNumberish,
+    owner: ethers.AddressLike,
+    signer: ethers.Signer
+  ): Promise<ethers.ContractTransactionResponse> {
+    return await this.getStorageContract().connect(signer).storeRecordFor(recordHash, ipfsHash, timestamp, owner);
   }
 
   /**
    * Get record details from blockchain
    */
-  async getRecord(recordHash: string): Promise<{
+  async getRecord(recordHash: ethers.BytesLike): Promise<{
     ipfsHash: string;
     timestamp: number;
     owner: string;
   }> {
-    if (!this.storageContract) {
-      throw new Error('Storage contract not initialized');
-    }
-
-    const result = await this.storageContract.getRecord(recordHash);
+    const { ipfsHash, timestamp, owner } = await this.getStorageContract().getRecord(recordHash);
     return {
-      ipfsHash: result[0],
-      timestamp: Number(result[1]),
-      owner: result[2]
+      ipfsHash,
+      timestamp: Number(timestamp),
+      owner
     };
   }
 
+  /**
+   * Check if a record hash has been stored on blockchain
+   */
+  async recordExists(recordHash: ethers.BytesLike): Promise<boolean> {
+    return await this.getStorageContract().recordExists(recordHash);
+  }
+
+  /**
+   * Latest block number
+   */
+  async getBlockNumber(): Promise<number> {
+    return await this.provider.getBlockNumber();
+  }
+
+  /**
+   * Hash of a block, or null if the node does not know it
+   */
+  async getBlockHash(blockNumber: number): Promise<string | null> {
+    const block = await this.provider.getBlock(blockNumber);
+    return block?.hash ?? null;
+  }
+
+  /**
+   * Events of the configured contracts in a block range (inclusive), in chain order
+   */
+  async getEvents(fromBlock: number, toBlock: number): Promise<MedicalRecordsEvent[]> {
+    const events: MedicalRecordsEvent[] = [];
+
+    if (this.storageContract) {
+      const stored = await this.storageContract.queryFilter(this.storageContract.filters.RecordStored, fromBlock, toBlock);
+      for (const log of stored) {
+        events.push({
+          name: 'RecordStored',
+          ...toEventPosition(log),
+          recordHash: log.args.recordHash,
+          account: log.args.owner,
+          ipfsHash: log.args.ipfsHash,
+          timestamp: Number(log.args.timestamp)
+        });
+      }
+    }
+
+    if (this.accessContract) {
+      const granted = await this.accessContract.queryFilter(this.accessContract.filters.AccessGranted, fromBlock, toBlock);
+      for (const log of granted) {
+        events.push({
+          name: 'AccessGranted',
+          ...toEventPosition(log),
+          recordHash: log.args.recordHash,
+          account: log.args.patient,
+          provider: log.args.provider,
+          expiresAt: Number(log.args.expiresAt)
+        });
+      }
+
+      const revoked = await this.accessContract.queryFilter(this.accessContract.filters.AccessRevoked, fromBlock, toBlock);
+      for (const log of revoked) {
+        events.push({
+          name: 'AccessRevoked',
+          ...toEventPosition(log),
+          recordHash: log.args.recordHash,
+          account: log.args.patient,
+          provider: log.args.provider
+        });
+      }
+    }
+
+    return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
   /**
    * Listen for access granted events
    */
   onAccessGranted(
     callback: (recordHash: string, patient: string, provider: string, expiresAt: number) => void
   ): void {
-    if (!this.accessContract) {
-      throw new Error('Access contract not initialized');
-    }
-
-    this.accessContract.on('AccessGranted', (recordHash, patient, provider, expiresAt) => {
+    const contract = this.getAccessContract();
+    contract.on(contract.filters.AccessGranted, (recordHash, patient, provider, expiresAt) => {
       callback(recordHash, patient, provider, Number(expiresAt));
     });
   }
@@ -177,11 +259,8 @@ export class MedicalRecordsContract {
   onRecordStored(
     callback: (recordHash: string, owner: string, ipfsHash: string, timestamp: number) => void
   ): void {
-    if (!this.storageContract) {
-      throw new Error('Storage contract not initialized');
-    }
-
-    this.storageContract.on('RecordStored', (recordHash, owner, ipfsHash, timestamp) => {
+    const contract = this.getStorageContract();
+    contract.on(contract.filters.RecordStored, (recordHash, owner, ipfsHash, timestamp) => {
       callback(recordHash, owner, ipfsHash, Number(timestamp));
     });
   }
@@ -0,0 +1,428 @@
+/**
+ * Authenticated file encryption (AES-256-GCM) for medical records.
+ *
+ * Files are split into fixed-size chunks that are sealed independently so that
+ * large files can be streamed and byte ranges decrypted without reading the
+ * whole ciphertext. Layout:
+ *
+ *   header:  magic "AARV" (4) | version (1) | chunk size, uint32 BE (4) | base nonce (12)
+ *   chunks:  AES-GCM(chunk) | tag (16), repeated
+ *
+ * Chunk i uses the base nonce with i XOR-ed into its last four bytes, and is
+ * authenticated together with the header, its index and a final-chunk flag, so
+ * reordered, truncated or extended ciphertexts fail to decrypt.
+ */
+
+const MAGIC = [0x41, 0x41, 0x52, 0x56]; // "AARV"
+const FORMAT_VERSION = 1;
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+export const ENCRYPTION_HEADER_LENGTH = MAGIC.length + 1 + 4 + NONCE_LENGTH;
+export const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+export interface EncryptionHeader {
+  version: number;
+  chunkSize: number;
+  nonce: Uint8Array;
+  bytes: Uint8Array;
+}
+
+export interface EncryptionOptions {
+  chunkSize?: number;
+}
+
+/**
+ * Inclusive plaintext byte range of a file whose plaintext size is known
+ */
+export interface DecryptionRange {
+  start: number;
+  end: number;
+  plaintextSize: number;
+}
+
+// Resolved from the runtime so this compiles against both DOM and Node typings
+type Subtle = typeof globalThis.crypto.subtle;
+type AesKey = Awaited<ReturnType<Subtle['importKey']>>;
+
+const getSubtle = (): Subtle => {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('Web Crypto API is not available in this environment');
+  }
+  return globalThis.crypto.subtle;
+};
+
+const hexToKeyBytes = (hexKey: string): Uint8Array => {
+  if (!/^[0-9a-fA-F]+$/.test(hexKey) || hexKey.length !== KEY_LENGTH * 2) {
+    throw new Error('Encryption key must be 32 bytes encoded as hex');
+  }
+
+  const raw = new Uint8Array(KEY_LENGTH);
+  for (let i = 0; i < KEY_LENGTH; i++) {
+    raw[i] = parseInt(hexKey.slice(i * 2, i * 2 + 2), 16);
+  }
+  return raw;
+};
+
+const importRawKey = (raw: Uint8Array): Promise<AesKey> => {
+  return getSubtle().importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+};
+
+/**
+ * Import the hex key produced by generateEncryptionKey
+ */
+export async function importEncryptionKey(hexKey: string): Promise<AesKey> {
+  return importRawKey(hexToKeyBytes(hexKey));
+}
+
+const createHeader = (chunkSize: number): EncryptionHeader => {
+  const nonce = new Uint8Array(NONCE_LENGTH);
+  globalThis.crypto.getRandomValues(nonce);
+
+  const bytes = new Uint8Array(ENCRYPTION_HEADER_LENGTH);
+  bytes.set(MAGIC, 0);
+  bytes[MAGIC.length] = FORMAT_VERSION;
+  new DataView(bytes.buffer).setUint32(MAGIC.length + 1, chunkSize);
+  bytes.set(nonce, MAGIC.length + 5);
+
+  return { version: FORMAT_VERSION, chunkSize, nonce, bytes };
+};
+
+/**
+ * Parse and validate the header at the start of an encrypted file
+ */
+export function parseEncryptionHeader(bytes: Uint8Array): EncryptionHeader {
+  if (bytes.length < ENCRYPTION_HEADER_LENGTH || MAGIC.some((byte, i) => bytes[i] !== byte)) {
+    throw new Error('Unsupported encryption format');
+  }
+
+  const version = bytes[MAGIC.length];
+  if (version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported encryption format version: ${version}`);
+  }
+
+  const header = bytes.slice(0, ENCRYPTION_HEADER_LENGTH);
+  const chunkSize = new DataView(header.buffer).getUint32(MAGIC.length + 1);
+  if (chunkSize === 0) {
+    throw new Error('Unsupported encryption format');
+  }
+
+  return {
+    version,
+    chunkSize,
+    nonce: header.slice(MAGIC.length + 5),
+    bytes: header
+  };
+}
+
+const chunkNonce = (header: EncryptionHeader, index: number): Uint8Array => {
+  const nonce = header.nonce.slice();
+  const view = new DataView(nonce.buffer);
+  view.setUint32(NONCE_LENGTH - 4, view.getUint32(NONCE_LENGTH - 4) ^ index);
+  return nonce;
+};
+
+const chunkAad = (header: EncryptionHeader, index: number, final: boolean): Uint8Array => {
+  const aad = new Uint8Array(header.bytes.length + 5);
+  aad.set(header.bytes, 0);
+  const view = new DataView(aad.buffer);
+  view.setUint32(header.bytes.length, index);
+  aad[header.bytes.length + 4] = final ? 1 : 0;
+  return aad;
+};
+
+const sealChunk = async (
+  key: AesKey,
+  header: EncryptionHeader,
+  index: number,
+  final: boolean,
+  plaintext: Uint8Array
+): Promise<Uint8Array> => {
+  const sealed = await getSubtle().encrypt(
+    { name: 'AES-GCM', iv: chunkNonce(header, index), additionalData: chunkAad(header, index, final), tagLength: TAG_LENGTH * 8 },
+    key,
+    plaintext
+  );
+  return new Uint8Array(sealed);
+};
+
+/**
+ * Decrypt a single sealed chunk. Throws if it was tampered with.
+ */
+export async function openChunk(
+  key: AesKey,
+  header: EncryptionHeader,
+  index: number,
+  final: boolean,
+  sealed: Uint8Array
+): Promise<Uint8Array> {
+  try {
+    const plaintext = await getSubtle().decrypt(
+      { name: 'AES-GCM', iv: chunkNonce(header, index), additionalData: chunkAad(header, index, final), tagLength: TAG_LENGTH * 8 },
+      key,
+      sealed
+    );
+    return new Uint8Array(plaintext);
+  } catch (error) {
+    throw new Error('Decryption failed: the data was modified or the key is wrong');
+  }
+}
+
+/**
+ * Growable byte queue used to re-chunk incoming stream data
+ */
+class ByteQueue {
+  private parts: Uint8Array[] = [];
+  length = 0;
+
+  push(bytes: Uint8Array): void {
+    if (bytes.length) {
+      this.parts.push(bytes);
+      this.length += bytes.length;
+    }
+  }
+
+  take(count: number): Uint8Array {
+    const out = new Uint8Array(count);
+    let offset = 0;
+    while (offset < count) {
+      const part = this.parts[0];
+      const needed = count - offset;
+      if (part.length <= needed) {
+        out.set(part, offset);
+        offset += part.length;
+        this.parts.shift();
+      } else {
+        out.set(part.subarray(0, needed), offset);
+        this.parts[0] = part.subarray(needed);
+        offset += needed;
+      }
+    }
+    this.length -= count;
+    return out;
+  }
+}
+
+/**
+ * TransformStream that encrypts plaintext bytes into the chunked format
+ */
+export function createEncryptionStream(
+  hexKey: string,
+  options: EncryptionOptions = {}
+): TransformStream<Uint8Array, Uint8Array> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const raw = hexToKeyBytes(hexKey);
+  const header = createHeader(chunkSize);
+  let keyPromise: Promise<AesKey> | undefined;
+  const getKey = () => (keyPromise ??= importRawKey(raw));
+  const queue = new ByteQueue();
+  let index = 0;
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    start(controller) {
+      controller.enqueue(header.bytes);
+    },
+    async transform(bytes, controller) {
+      queue.push(bytes);
+      const key = await getKey();
+      // Keep at least one byte back so the last chunk can be flagged as final
+      while (queue.length > chunkSize) {
+        controller.enqueue(await sealChunk(key, header, index++, false, queue.take(chunkSize)));
+      }
+    },
+    async flush(controller) {
+      const key = await getKey();
+      controller.enqueue(await sealChunk(key, header, index++, true, queue.take(queue.length)));
+    }
+  });
+}
+
+/**
+ * TransformStream that decrypts the chunked format. Errors the stream if any
+ * chunk fails authentication or the ciphertext was truncated.
+ */
+export function createDecryptionStream(hexKey: string): TransformStream<Uint8Array, Uint8Array> {
+  const raw = hexToKeyBytes(hexKey);
+  let keyPromise: Promise<AesKey> | undefined;
+  const getKey = () => (keyPromise ??= importRawKey(raw));
+  const queue = new ByteQueue();
+  let header: EncryptionHeader | undefined;
+  let index = 0;
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(bytes, controller) {
+      queue.push(bytes);
+
+      if (!header) {
+        if (queue.length < ENCRYPTION_HEADER_LENGTH) {
+          return;
+        }
+        header = parseEncryptionHeader(queue.take(ENCRYPTION_HEADER_LENGTH));
+      }
+
+      const key = await getKey();
+      const sealedSize = header.chunkSize + TAG_LENGTH;
+      while (queue.length > sealedSize) {
+        controller.enqueue(await openChunk(key, header, index++, false, queue.take(sealedSize)));
+      }
+    },
+    async flush(controller) {
+      if (!header) {
+        throw new Error('Unsupported encryption format');
+      }
+      if (queue.length < TAG_LENGTH) {
+        throw new Error('Decryption failed: the data was truncated');
+      }
+      const key = await getKey();
+      controller.enqueue(await openChunk(key, header, index++, true, queue.take(queue.length)));
+    }
+  });
+}
+
+const sealedChunkSize = (index: number, chunkSize: number, plaintextSize: number): number => {
+  return Math.min(chunkSize, plaintextSize - index * chunkSize) + TAG_LENGTH;
+};
+
+const chunkBounds = (chunkSize: number, range: DecryptionRange) => {
+  const { start, end, plaintextSize } = range;
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end < start || end >= plaintextSize) {
+    throw new Error('Invalid decryption range');
+  }
+
+  return {
+    firstChunk: Math.floor(start / chunkSize),
+    lastChunk: Math.floor(end / chunkSize),
+    totalChunks: Math.max(1, Math.ceil(plaintextSize / chunkSize))
+  };
+};
+
+/**
+ * Inclusive ciphertext byte range holding the chunks needed to decrypt a
+ * plaintext range. Fetch these bytes and feed them to createRangeDecryptionStream.
+ */
+export function getCiphertextRange(chunkSize: number, range: DecryptionRange): { start: number; end: number } {
+  const { firstChunk, lastChunk } = chunkBounds(chunkSize, range);
+  const sealedSize = chunkSize + TAG_LENGTH;
+
+  return {
+    start: ENCRYPTION_HEADER_LENGTH + firstChunk * sealedSize,
+    end: ENCRYPTION_HEADER_LENGTH + lastChunk * sealedSize + sealedChunkSize(lastChunk, chunkSize, range.plaintextSize) - 1
+  };
+}
+
+/**
+ * TransformStream that decrypts the chunks covering a plaintext range (see
+ * getCiphertextRange) and emits exactly the requested bytes. The header must
+ * be read separately from the start of the file.
+ */
+export function createRangeDecryptionStream(
+  hexKey: string,
+  header: EncryptionHeader,
+  range: DecryptionRange
+): TransformStream<Uint8Array, Uint8Array> {
+  const { chunkSize } = header;
+  const { firstChunk, lastChunk, totalChunks } = chunkBounds(chunkSize, range);
+  const raw = hexToKeyBytes(hexKey);
+  let keyPromise: Promise<AesKey> | undefined;
+  const getKey = () => (keyPromise ??= importRawKey(raw));
+  const queue = new ByteQueue();
+  let index = firstChunk;
+
+  const emit = (plaintext: Uint8Array, chunkIndex: number, controller: TransformStreamDefaultController<Uint8Array>) => {
+    const offset = chunkIndex * chunkSize;
+    const from = Math.max(range.start - offset, 0);
+    const to = Math.min(range.end - offset + 1, plaintext.length);
+    controller.enqueue(plaintext.subarray(from, to));
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(bytes, controller) {
+      queue.push(bytes);
+      const key = await getKey();
+
+      while (index <= lastChunk) {
+        const size = sealedChunkSize(index, chunkSize, range.plaintextSize);
+        if (queue.length < size) {
+          break;
+        }
+        const plaintext = await openChunk(key, header, index, index === totalChunks - 1, queue.take(size));
+        emit(plaintext, index++, controller);
+      }
+    },
+    flush() {
+      if (index <= lastChunk) {
+        throw new Error('Decryption failed: the data was truncated');
+      }
+    }
+  });
+}
+
+/**
+ * Size of the ciphertext produced for a plaintext of the given size
+ */
+export function getEncryptedSize(plaintextSize: number, chunkSize: number = DEFAULT_CHUNK_SIZE): number {
+  const chunks = Math.max(1, Math.ceil(plaintextSize / chunkSize));
+  return ENCRYPTION_HEADER_LENGTH + plaintextSize + chunks * TAG_LENGTH;
+}
+
+/**
+ * Size of the plaintext contained in a ciphertext of the given size
+ */
+export function getDecryptedSize(encryptedSize: number, chunkSize: number): number {
+  const body = encryptedSize - ENCRYPTION_HEADER_LENGTH;
+  const sealedSize = chunkSize + TAG_LENGTH;
+  const chunks = Math.max(1, Math.ceil(body / sealedSize));
+  return body - chunks * TAG_LENGTH;
+}
+
+/**
+ * Adapt any supported byte source into a web ReadableStream
+ */
+export function toReadableStream(
+  source: Blob | Uint8Array | ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>
+): ReadableStream<Uint8Array> {
+  if (source instanceof ReadableStream) {
+    return source;
+  }
+  if (source instanceof Uint8Array) {
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(source);
+        controller.close();
+      }
+    });
+  }
+  if (typeof Blob !== 'undefined' && source instanceof Blob) {
+    return source.stream() as ReadableStream<Uint8Array>;
+  }
+
+  const iterator = (source as AsyncIterable<Uint8Array>)[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel(reason) {
+      await iterator.return?.(reason);
+    }
+  });
+}
+
+/**
+ * Read a stream fully into memory
+ */
+export async function collectStream(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const queue = new ByteQueue();
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    queue.push(value);
+  }
+  return queue.take(queue.length);
+}
@@ -0,0 +1,172 @@
+/**
+ * Envelope encryption for record data keys.
+ *
+ * Each record's data key (see generateEncryptionKey) is wrapped for every
+ * grantee with their P-256 public key: an ephemeral ECDH key agreement, HKDF-SHA256
+ * and AES-GCM. The wrapped form is "v1.<ephemeral public key>.<iv>.<ciphertext>",
+ * each part base64url encoded. Works in browsers and Node (Web Crypto).
+ */
+
+type Subtle = typeof globalThis.crypto.subtle;
+type WebCryptoKey = Awaited<ReturnType<Subtle['importKey']>>;
+
+const WRAP_VERSION = 'v1';
+const HKDF_INFO = 'aarovia/record-key/v1';
+const ECDH_PARAMS = { name: 'ECDH', namedCurve: 'P-256' } as const;
+
+const getSubtle = (): Subtle => {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('Web Crypto API is not available in this environment');
+  }
+  return globalThis.crypto.subtle;
+};
+
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+const hexToBytes = (hex: string): Uint8Array => {
+  if (!/^([0-9a-fA-F]{2})+$/.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  return Uint8Array.from(hex.match(/.{2}/g)!, byte => parseInt(byte, 16));
+};
+
+const bytesToHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const importPublicKey = (publicKey: string): Promise<WebCryptoKey> => {
+  return getSubtle().importKey('raw', fromBase64Url(publicKey), ECDH_PARAMS, true, []);
+};
+
+const deriveWrappingKey = async (
+  privateKey: WebCryptoKey,
+  publicKey: WebCryptoKey,
+  ephemeralPublicKey: Uint8Array,
+  usage: 'encrypt' | 'decrypt'
+): Promise<WebCryptoKey> => {
+  const subtle = getSubtle();
+  const sharedSecret = await subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  const hkdfKey = await subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+
+  return subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: ephemeralPublicKey,
+      info: new TextEncoder().encode(HKDF_INFO)
+    },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  );
+};
+
+/**
+ * Generate a recipient key pair. The public key is the base64url raw P-256
+ * point to register with the API; the private key (base64url PKCS#8) never
+ * leaves the user's device.
+ */
+export async function generateRecipientKeyPair(): Promise<{ publicKey: string; privateKey: string }> {
+  const subtle = getSubtle();
+  const keyPair = await subtle.generateKey(ECDH_PARAMS, true, ['deriveBits']) as { publicKey: WebCryptoKey; privateKey: WebCryptoKey };
+
+  return {
+    publicKey: toBase64Url(new Uint8Array(await subtle.exportKey('raw', keyPair.publicKey))),
+    privateKey: toBase64Url(new Uint8Array(await subtle.exportKey('pkcs8', keyPair.privateKey)))
+  };
+}
+
+/**
+ * Check that a string is a usable recipient public key
+ */
+export async function isValidRecipientPublicKey(publicKey: string): Promise<boolean> {
+  try {
+    await importPublicKey(publicKey);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Short, stable identifier for a recipient public key
+ */
+export async function getPublicKeyFingerprint(publicKey: string): Promise<string> {
+  const digest = await getSubtle().digest('SHA-256', fromBase64Url(publicKey));
+  return bytesToHex(new Uint8Array(digest)).slice(0, 32);
+}
+
+/**
+ * Wrap a hex data key for a recipient. `context` (e.g. the record ID) is
+ * authenticated so a wrapped key cannot be moved to another record.
+ */
+export async function wrapDataKey(
+  dataKey: string,
+  recipientPublicKey: string,
+  context: string = ''
+): Promise<string> {
+  const subtle = getSubtle();
+  const recipient = await importPublicKey(recipientPublicKey);
+  const ephemeral = await subtle.generateKey(ECDH_PARAMS, true, ['deriveBits']) as { publicKey: WebCryptoKey; privateKey: WebCryptoKey };
+  const ephemeralPublicKey = new Uint8Array(await subtle.exportKey('raw', ephemeral.publicKey));
+
+  const wrappingKey = await deriveWrappingKey(ephemeral.privateKey, recipient, ephemeralPublicKey, 'encrypt');
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(context) },
+    wrappingKey,
+    hexToBytes(dataKey)
+  );
+
+  return [
+    WRAP_VERSION,
+    toBase64Url(ephemeralPublicKey),
+    toBase64Url(iv),
+    toBase64Url(new Uint8Array(ciphertext))
+  ].join('.');
+}
+
+/**
+ * Recover a hex data key with the recipient's private key
+ */
+export async function unwrapDataKey(
+  wrappedKey: string,
+  recipientPrivateKey: string,
+  context: string = ''
+): Promise<string> {
+  const [version, ephemeralPart, ivPart, ciphertextPart] = wrappedKey.split('.');
+  if (version !== WRAP_VERSION || !ephemeralPart || !ivPart || !ciphertextPart) {
+    throw new Error('Unsupported wrapped key format');
+  }
+
+  const subtle = getSubtle();
+  const privateKey = await subtle.importKey('pkcs8', fromBase64Url(recipientPrivateKey), ECDH_PARAMS, false, ['deriveBits']);
+  const ephemeralPublicKey = fromBase64Url(ephemeralPart);
+  const ephemeral = await subtle.importKey('raw', ephemeralPublicKey, ECDH_PARAMS, false, []);
+
+  const wrappingKey = await deriveWrappingKey(privateKey, ephemeral, ephemeralPublicKey, 'decrypt');
+
+  try {
+    const dataKey = await subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64Url(ivPart), additionalData: new TextEncoder().encode(context) },
+      wrappingKey,
+      fromBase64Url(ciphertextPart)
+    );
+    return bytesToHex(new Uint8Array(dataKey));
+  } catch (error) {
+    throw new Error('Failed to unwrap data key');
+  }
+}
@@ -1,6 +1,12 @@
 export * from './wallet';
 export * from './contracts';
 export * from './ipfs';
+export * from './encryption';
+export * from './envelope';
+export * from './siwe';
+export * from './merkle';
+export * from './relay';
+export * from './typechain/index.js';
 
 // Re-export commonly used ethers utilities
 export { ethers } from 'ethers';
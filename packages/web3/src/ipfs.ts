@@ -1,3 +1,10 @@
+import {
+  collectStream,
+  createDecryptionStream,
+  createEncryptionStream,
+  toReadableStream
+} from './encryption';
+
 /**
  * IPFS integration utilities for medical record storage
  */
@@ -45,12 +52,7 @@ export async function uploadToIPFS(
     };
   } catch (error) {
     console.error('IPFS upload error:', error);
-    // Return mock data for development
-    return {
-      hash: `Qm${Math.random().toString(36).substring(2)}`,
-      size: file.size,
-      url: `${gatewayUrl}Qm${Math.random().toString(36).substring(2)}`
-    };
+    throw error;
   }
 }
 
@@ -75,6 +77,41 @@ export async function downloadFromIPFS(
   }
 }
 
+/**
+ * Stream a file (or an inclusive byte range of it) from an IPFS gateway.
+ * Gateways that ignore the Range header are handled by slicing the full body.
+ */
+export async function streamFromIPFS(
+  hash: string,
+  gatewayUrl: string = 'https://ipfs.io/ipfs/',
+  range?: { start: number; end: number }
+): Promise<ReadableStream<Uint8Array>> {
+  const response = await fetch(`${gatewayUrl}${hash}`, {
+    headers: range ? { Range: `bytes=${range.start}-${range.end}` } : undefined
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`IPFS download failed: ${response.statusText}`);
+  }
+
+  const body = response.body as ReadableStream<Uint8Array>;
+  if (!range || response.status === 206) {
+    return body;
+  }
+
+  let position = 0;
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(bytes, controller) {
+      const from = Math.max(range.start - position, 0);
+      const to = Math.min(range.end + 1 - position, bytes.length);
+      position += bytes.length;
+      if (to > from) {
+        controller.enqueue(bytes.subarray(from, to));
+      }
+    }
+  }));
+}
+
 /**
  * Pin file to IPFS (using Pinata as example)
  */
@@ -137,38 +174,65 @@ export async function getIPFSFileInfo(
   }
 }
 
+type ByteSource = ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>;
+
 /**
- * Encrypt file before IPFS upload
+ * Encrypt file before IPFS upload (AES-256-GCM, see ./encryption).
+ * Accepts browser File/Blob, Node Buffers and web or Node streams.
  */
+export async function encryptFile(file: File, encryptionKey: string): Promise<File>;
+export async function encryptFile(blob: Blob, encryptionKey: string): Promise<Blob>;
+export async function encryptFile(data: Uint8Array, encryptionKey: string): Promise<Uint8Array>;
+export async function encryptFile(stream: ByteSource, encryptionKey: string): Promise<ReadableStream<Uint8Array>>;
 export async function encryptFile(
-  file: File,
+  input: Blob | Uint8Array | ByteSource,
   encryptionKey: string
-): Promise<File> {
-  // This is a placeholder implementation
-  // In production, you'd use a proper encryption library like crypto-js
-  console.log('Encrypting file with key:', encryptionKey);
-  
-  // For now, just return the original file
-  // TODO: Implement actual encryption
-  return file;
+): Promise<Blob | Uint8Array | ReadableStream<Uint8Array>> {
+  const encrypted = toReadableStream(input).pipeThrough(createEncryptionStream(encryptionKey));
+
+  if (isStreamInput(input)) {
+    return encrypted;
+  }
+
+  const bytes = await collectStream(encrypted);
+  if (input instanceof Uint8Array) {
+    return bytes;
+  }
+  if (typeof File !== 'undefined' && input instanceof File) {
+    return new File([bytes], input.name, { type: 'application/octet-stream' });
+  }
+  return new Blob([bytes], { type: 'application/octet-stream' });
 }
 
 /**
- * Decrypt file after IPFS download
+ * Decrypt file after IPFS download. Buffered inputs are fully authenticated
+ * before anything is returned; streams error as soon as tampering is detected.
  */
+export async function decryptFile(encryptedBlob: Blob, encryptionKey: string, mimeType?: string): Promise<Blob>;
+export async function decryptFile(data: Uint8Array, encryptionKey: string): Promise<Uint8Array>;
+export async function decryptFile(stream: ByteSource, encryptionKey: string): Promise<ReadableStream<Uint8Array>>;
 export async function decryptFile(
-  encryptedBlob: Blob,
-  encryptionKey: string
-): Promise<Blob> {
-  // This is a placeholder implementation
-  // In production, you'd use a proper decryption library
-  console.log('Decrypting file with key:', encryptionKey);
-  
-  // For now, just return the original blob
-  // TODO: Implement actual decryption
-  return encryptedBlob;
+  input: Blob | Uint8Array | ByteSource,
+  encryptionKey: string,
+  mimeType?: string
+): Promise<Blob | Uint8Array | ReadableStream<Uint8Array>> {
+  const decrypted = toReadableStream(input).pipeThrough(createDecryptionStream(encryptionKey));
+
+  if (isStreamInput(input)) {
+    return decrypted;
+  }
+
+  const bytes = await collectStream(decrypted);
+  if (input instanceof Uint8Array) {
+    return bytes;
+  }
+  return new Blob([bytes], { type: mimeType ?? '' });
 }
 
+const isStreamInput = (input: Blob | Uint8Array | ByteSource): input is ByteSource => {
+  return !(input instanceof Uint8Array) && !(typeof Blob !== 'undefined' && input instanceof Blob);
+};
+
 /**
  * Generate encryption key for file
  */
@@ -0,0 +1,75 @@
+import { ethers } from 'ethers';
+
+// Merkle trees over bytes32 leaves, compatible with OpenZeppelin's MerkleProof:
+// pairs are hashed in sorted order, so a proof is just the list of sibling hashes
+
+/**
+ * Hash a piece of data into a leaf (keccak256 applied twice, which rules out
+ * passing an inner node off as a leaf)
+ */
+export function hashMerkleLeaf(data: ethers.BytesLike): string {
+  return ethers.keccak256(ethers.keccak256(data));
+}
+
+const hashPair = (a: string, b: string): string => {
+  return a.toLowerCase() < b.toLowerCase()
+    ? ethers.keccak256(ethers.concat([a, b]))
+    : ethers.keccak256(ethers.concat([b, a]));
+};
+
+/**
+ * Every level of the tree, leaves first. An odd node out is carried up to
+ * the next level unchanged.
+ */
+const buildLevels = (leaves: string[]): string[][] => {
+  if (!leaves.length) {
+    throw new Error('Cannot build a Merkle tree without leaves');
+  }
+
+  const levels = [leaves.map(leaf => ethers.hexlify(leaf))];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+  return levels;
+};
+
+/**
+ * Root of the tree over already hashed leaves, in order
+ */
+export function computeMerkleRoot(leaves: string[]): string {
+  const levels = buildLevels(leaves);
+  return levels[levels.length - 1][0];
+}
+
+/**
+ * Sibling hashes from the leaf at `index` up to the root
+ */
+export function getMerkleProof(leaves: string[], index: number): string[] {
+  if (!Number.isInteger(index) || index < 0 || index >= leaves.length) {
+    throw new Error(`Leaf index ${index} is out of range`);
+  }
+
+  const proof: string[] = [];
+  let position = index;
+  for (const level of buildLevels(leaves).slice(0, -1)) {
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+    if (sibling < level.length) {
+      proof.push(level[sibling]);
+    }
+    position = Math.floor(position / 2);
+  }
+  return proof;
+}
+
+/**
+ * Whether `proof` links `leaf` to `root`
+ */
+export function verifyMerkleProof(leaf: string, proof: string[], root: string): boolean {
+  const computed = proof.reduce((node, sibling) => hashPair(node, sibling), ethers.hexlify(leaf));
+  return computed.toLowerCase() === root.toLowerCase();
+}
@@ -0,0 +1,65 @@
+import { ethers } from 'ethers';
+
+/**
+ * EIP-712 meta-transaction utilities for the MedicalRecordsForwarder
+ */
+
+export interface ForwardRequest {
+  from: string;
+  to: string;
+  value: bigint;
+  gas: bigint;
+  nonce: bigint;
+  // Unix seconds after which the forwarder rejects the request
+  deadline: bigint;
+  data: string;
+}
+
+export const FORWARDER_NAME = 'MedicalRecordsForwarder';
+export const FORWARDER_VERSION = '1';
+
+export const FORWARD_REQUEST_TYPES: Record<string, ethers.TypedDataField[]> = {
+  ForwardRequest: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'gas', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+    { name: 'data', type: 'bytes' }
+  ]
+};
+
+/**
+ * EIP-712 domain of a forwarder deployment
+ */
+export function getForwarderDomain(chainId: ethers.BigNumberish, forwarderAddress: string): ethers.TypedDataDomain {
+  return {
+    name: FORWARDER_NAME,
+    version: FORWARDER_VERSION,
+    chainId,
+    verifyingContract: forwarderAddress
+  };
+}
+
+/**
+ * Sign a request for the forwarder to execute on the signer's behalf
+ */
+export async function signForwardRequest(
+  signer: ethers.Signer,
+  domain: ethers.TypedDataDomain,
+  request: ForwardRequest
+): Promise<string> {
+  return signer.signTypedData(domain, FORWARD_REQUEST_TYPES, request);
+}
+
+/**
+ * Address that signed a forward request
+ */
+export function recoverForwardRequestSigner(
+  domain: ethers.TypedDataDomain,
+  request: ForwardRequest,
+  signature: string
+): string {
+  return ethers.verifyTypedData(domain, FORWARD_REQUEST_TYPES, request, signature);
+}
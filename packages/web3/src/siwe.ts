@@ -0,0 +1,159 @@
+import { ethers } from 'ethers';
+
+/**
+ * Sign-In with Ethereum (EIP-4361) message utilities
+ */
+
+export interface SiweMessage {
+  scheme?: string;
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+const HEADER_PATTERN = /^(?:([a-zA-Z][a-zA-Z0-9+\-.]*):\/\/)?(\S+) wants you to sign in with your Ethereum account:$/;
+const NONCE_PATTERN = /^[a-zA-Z0-9]{8,}$/;
+
+/**
+ * Build an EIP-4361 message ready to be signed with personal_sign
+ */
+export function createSiweMessage(fields: SiweMessage): string {
+  const header = `${fields.scheme ? `${fields.scheme}://` : ''}${fields.domain}${HEADER_SUFFIX}`;
+  const lines = [header, fields.address, ''];
+
+  if (fields.statement) {
+    lines.push(fields.statement, '');
+  } else {
+    lines.push('');
+  }
+
+  lines.push(
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`
+  );
+
+  if (fields.expirationTime) lines.push(`Expiration Time: ${fields.expirationTime}`);
+  if (fields.notBefore) lines.push(`Not Before: ${fields.notBefore}`);
+  if (fields.requestId !== undefined) lines.push(`Request ID: ${fields.requestId}`);
+  if (fields.resources?.length) {
+    lines.push('Resources:', ...fields.resources.map(resource => `- ${resource}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Parse an EIP-4361 message. Throws if the message is malformed.
+ */
+export function parseSiweMessage(message: string): SiweMessage {
+  const lines = message.replace(/\r\n/g, '\n').split('\n');
+  let index = 0;
+
+  const header = HEADER_PATTERN.exec(lines[index++] ?? '');
+  if (!header) {
+    throw new Error('Invalid SIWE message: missing domain header');
+  }
+
+  const address = lines[index++] ?? '';
+  if (!ethers.isAddress(address)) {
+    throw new Error('Invalid SIWE message: invalid address');
+  }
+
+  if (lines[index++] !== '') {
+    throw new Error('Invalid SIWE message: expected blank line after address');
+  }
+
+  // The statement is optional and surrounded by blank lines
+  let statement: string | undefined;
+  if (lines[index] === '') {
+    index++;
+  } else if (!lines[index]?.startsWith('URI: ')) {
+    statement = lines[index++];
+    if (lines[index++] !== '') {
+      throw new Error('Invalid SIWE message: expected blank line after statement');
+    }
+  }
+
+  const readField = (label: string, required: boolean): string | undefined => {
+    const prefix = `${label}: `;
+    const line = lines[index];
+    if (line !== undefined && line.startsWith(prefix)) {
+      index++;
+      return line.slice(prefix.length);
+    }
+    if (required) {
+      throw new Error(`Invalid SIWE message: missing ${label}`);
+    }
+    return undefined;
+  };
+
+  const uri = readField('URI', true)!;
+  const version = readField('Version', true)!;
+  const chainId = readField('Chain ID', true)!;
+  const nonce = readField('Nonce', true)!;
+  const issuedAt = readField('Issued At', true)!;
+  const expirationTime = readField('Expiration Time', false);
+  const notBefore = readField('Not Before', false);
+  const requestId = readField('Request ID', false);
+
+  let resources: string[] | undefined;
+  if (lines[index] === 'Resources:') {
+    index++;
+    resources = [];
+    while (lines[index]?.startsWith('- ')) {
+      resources.push(lines[index++].slice(2));
+    }
+  }
+
+  if (index < lines.length && lines.slice(index).some(line => line !== '')) {
+    throw new Error('Invalid SIWE message: unexpected trailing content');
+  }
+
+  if (version !== '1') {
+    throw new Error('Invalid SIWE message: unsupported version');
+  }
+  if (!/^\d+$/.test(chainId)) {
+    throw new Error('Invalid SIWE message: invalid chain ID');
+  }
+  if (!NONCE_PATTERN.test(nonce)) {
+    throw new Error('Invalid SIWE message: invalid nonce');
+  }
+  for (const [label, value] of [
+    ['Issued At', issuedAt],
+    ['Expiration Time', expirationTime],
+    ['Not Before', notBefore]
+  ] as const) {
+    if (value !== undefined && Number.isNaN(Date.parse(value))) {
+      throw new Error(`Invalid SIWE message: invalid ${label}`);
+    }
+  }
+
+  return {
+    scheme: header[1],
+    domain: header[2],
+    address: ethers.getAddress(address),
+    statement,
+    uri,
+    version,
+    chainId: Number(chainId),
+    nonce,
+    issuedAt,
+    expirationTime,
+    notBefore,
+    requestId,
+    resources
+  };
+}
@@ -0,0 +1,196 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type { BaseContract, BigNumberish, BytesLike, FunctionFragment, Result, Interface, EventFragment, AddressLike, ContractRunner, ContractMethod, Listener } from "ethers"
+import type { TypedContractEvent, TypedDeferredTopicFilter, TypedEventLog, TypedLogDescription, TypedListener, TypedContractMethod } from "./common.js"
+  
+
+  export interface MedicalRecordsAccessInterface extends Interface {
+    getFunction(nameOrSignature: "getAccessDetails" | "grantAccess" | "hasAccess" | "isTrustedForwarder" | "recordsStorage" | "revokeAccess" | "trustedForwarder"): FunctionFragment;
+
+    getEvent(nameOrSignatureOrTopic: "AccessGranted" | "AccessRevoked"): EventFragment;
+
+    encodeFunctionData(functionFragment: 'getAccessDetails', values: [BytesLike, AddressLike]): string;
+encodeFunctionData(functionFragment: 'grantAccess', values: [BytesLike, AddressLike, BigNumberish, string[]]): string;
+encodeFunctionData(functionFragment: 'hasAccess', values: [BytesLike, AddressLike]): string;
+encodeFunctionData(functionFragment: 'isTrustedForwarder', values: [AddressLike]): string;
+encodeFunctionData(functionFragment: 'recordsStorage', values?: undefined): string;
+encodeFunctionData(functionFragment: 'revokeAccess', values: [BytesLike, AddressLike]): string;
+encodeFunctionData(functionFragment: 'trustedForwarder', values?: undefined): string;
+
+    decodeFunctionResult(functionFragment: 'getAccessDetails', data: BytesLike): Result;
+decodeFunctionResult(functionFragment: 'grantAccess', data: BytesLike): Result;
+decodeFunctionResult(functionFragment: 'hasAccess', data: BytesLike): Result;
+decodeFunctionResult(functionFragment: 'isTrustedForwarder', data: BytesLike): Result;
+decodeFunctionResult(functionFragment: 'recordsStorage', data: BytesLike): Result;
+decodeFunctionResult(functionFragment: 'revokeAccess', data: BytesLike): Result;
+decodeFunctionResult(functionFragment: 'trustedForwarder', data: BytesLike): Result;
+  }
+
+  
+    export namespace AccessGrantedEvent {
+      export type InputTuple = [recordHash: BytesLike, patient: AddressLike, provider: AddressLike, expiresAt: BigNumberish];
+      export type OutputTuple = [recordHash: string, patient: string, provider: string, expiresAt: bigint];
+      export interface OutputObject {recordHash: string, patient: string, provider: string, expiresAt: bigint };
+      export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>
+      export type Filter = TypedDeferredTopicFilter<Event>
+      export type Log = TypedEventLog<Event>
+      export type LogDescription = TypedLogDescription<Event>
+    }
+
+  
+
+    export namespace AccessRevokedEvent {
+      export type InputTuple = [recordHash: BytesLike, patient: AddressLike, provider: AddressLike];
+      export type OutputTuple = [recordHash: string, patient: string, provider: string];
+      export interface OutputObject {recordHash: string, patient: string, provider: string };
+      export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>
+      export type Filter = TypedDeferredTopicFilter<Event>
+      export type Log = TypedEventLog<Event>
+      export type LogDescription = TypedLogDescription<Event>
+    }
+
+  
+
+  export interface MedicalRecordsAccess extends BaseContract {
+    
+    connect(runner?: ContractRunner | null): MedicalRecordsAccess;
+    waitForDeployment(): Promise<this>;
+
+    interface: MedicalRecordsAccessInterface;
+
+    
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined,
+  ): Promise<Array<TypedEventLog<TCEvent>>>
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(event: TCEvent, listener: TypedListener<TCEvent>): Promise<this>
+  on<TCEvent extends TypedContractEvent>(filter: TypedDeferredTopicFilter<TCEvent>, listener: TypedListener<TCEvent>): Promise<this>
+  
+  once<TCEvent extends TypedContractEvent>(event: TCEvent, listener: TypedListener<TCEvent>): Promise<this>
+  once<TCEvent extends TypedContractEvent>(filter: TypedDeferredTopicFilter<TCEvent>, listener: TypedListener<TCEvent>): Promise<this>
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>
+  removeAllListeners<TCEvent extends TypedContractEvent>(event?: TCEvent): Promise<this>
+
+
+    
+    
+    getAccessDetails: TypedContractMethod<
+      [recordHash: BytesLike, provider: AddressLike, ],
+      [[bigint, string[]] & {expiresAt: bigint, permissions: string[] }],
+      'view'
+    >
+    
+
+    
+    grantAccess: TypedContractMethod<
+      [recordHash: BytesLike, provider: AddressLike, expiresAt: BigNumberish, permissions: string[], ],
+      [void],
+      'nonpayable'
+    >
+    
+
+    
+    hasAccess: TypedContractMethod<
+      [recordHash: BytesLike, provider: AddressLike, ],
+      [boolean],
+      'view'
+    >
+    
+
+    
+    isTrustedForwarder: TypedContractMethod<
+      [forwarder: AddressLike, ],
+      [boolean],
+      'view'
+    >
+    
+
+    
+    recordsStorage: TypedContractMethod<
+      [],
+      [string],
+      'view'
+    >
+    
+
+    
+    revokeAccess: TypedContractMethod<
+      [recordHash: BytesLike, provider: AddressLike, ],
+      [void],
+      'nonpayable'
+    >
+    
+
+    
+    trustedForwarder: TypedContractMethod<
+      [],
+      [string],
+      'view'
+    >
+    
+
+
+    getFunction<T extends ContractMethod = ContractMethod>(key: string | FunctionFragment): T;
+
+    getFunction(nameOrSignature: 'getAccessDetails'): TypedContractMethod<
+      [recordHash: BytesLike, provider: AddressLike, ],
+      [[bigint, string[]] & {expiresAt: bigint, permissions: string[] }],
+      'view'
+    >;
+getFunction(nameOrSignature: 'grantAccess'): TypedContractMethod<
+      [recordHash: BytesLike, provider: AddressLike, expiresAt: BigNumberish, permissions: string[], ],
+      [void],
+      'nonpayable'
+    >;
+getFunction(nameOrSignature: 'hasAccess'): TypedContractMethod<
+      [recordHash: BytesLike, provider: AddressLike, ],
+      [boolean],
+      'view'
+    >;
+getFunction(nameOrSignature: 'isTrustedForwarder'): TypedContractMethod<
+      [forwarder: AddressLike, ],
+      [boolean],
+      'view'
+    >;
+getFunction(nameOrSignature: 'recordsStorage'): TypedContractMethod<
+      [],
+      [string],
+      'view'
+    >;
+getFunction(nameOrSignature: 'revokeAccess'): TypedContractMethod<
+      [recordHash: BytesLike, provider: AddressLike, ],
+      [void],
+      'nonpayable'
+    >;
+getFunction(nameOrSignature: 'trustedForwarder'): TypedContractMethod<
+      [],
+      [string],
+      'view'
+    >;
+
+    getEvent(key: 'AccessGranted'): TypedContractEvent<AccessGrantedEvent.InputTuple, AccessGrantedEvent.OutputTuple, AccessGrantedEvent.OutputObject>;
+getEvent(key: 'AccessRevoked'): TypedContractEvent<AccessRevokedEvent.InputTuple, AccessRevokedEvent.OutputTuple, AccessRevokedEvent.OutputObject>;
+
+    filters: {
+      
+      'AccessGranted(bytes32,address,address,uint256)': TypedContractEvent<AccessGrantedEvent.InputTuple, AccessGrantedEvent.OutputTuple, AccessGrantedEvent.OutputObject>;
+      AccessGranted: TypedContractEvent<AccessGrantedEvent.InputTuple, AccessGrantedEvent.OutputTuple, AccessGrantedEvent.OutputObject>;
+    
+
+      'AccessRevoked(bytes32,address,address)': TypedContractEvent<AccessRevokedEvent.InputTuple, AccessRevokedEvent.OutputTuple, AccessRevokedEvent.OutputObject>;
+      AccessRevoked: TypedContractEvent<AccessRevokedEvent.InputTuple, AccessRevokedEvent.OutputTuple, AccessRevokedEvent.OutputObject>;
+    
+    };
+  }
\ No newline at end of file
@@ -0,0 +1,171 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type { BaseContract, BigNumberish, BytesLike, FunctionFragment, Result, Interface, EventFragment, AddressLike, ContractRunner, ContractMethod, Listener } from "ethers"
+import type { TypedContractEvent, TypedDeferredTopicFilter, TypedEventLog, TypedLogDescription, TypedListener, TypedContractMethod } from "./common.js"
+  
+export declare namespace MedicalRecordsForwarder {
+      
+    export type ForwardRequestStruct = {from: AddressLike, to: AddressLike, value: BigNumberish, gas: BigNumberish, nonce: BigNumberish, deadline: BigNumberish, data: BytesLike}
+
+    export type ForwardRequestStructOutput = [from: string, to: string, value: bigint, gas: bigint, nonce: bigint, deadline: bigint, data: string] & {from: string, to: string, value: bigint, gas: bigint, nonce: bigint, deadline: bigint, data: string }
+  
+    }
+
+  export interface MedicalRecordsForwarderInterface extends Interface {
+    getFunction(nameOrSignature: "NAME" | "VERSION" | "domainSeparator" | "execute" | "nonces" | "verify"): FunctionFragment;
+
+    getEvent(nameOrSignatureOrTopic: "Executed"): EventFragment;
+
+    encodeFunctionData(functionFragment: 'NAME', values?: undefined): string;
+encodeFunctionData(functionFragment: 'VERSION', values?: undefined): string;
+encodeFunctionData(functionFragment: 'domainSeparator', values?: undefined): string;
+encodeFunctionData(functionFragment: 'execute', values: [MedicalRecordsForwarder.ForwardRequestStruct, BytesLike]): string;
+encodeFunctionData(functionFragment: 'nonces', values: [AddressLike]): string;
+encodeFunctionData(functionFragment: 'verify', values: [MedicalRecordsForwarder.ForwardRequestStruct, BytesLike]): string;
+
+    decodeFunctionResult(functionFragment: 'NAME', data: BytesLike): Result;
+decodeFunctionResult(functionFragment: 'VERSION', data: BytesLike): Result;
+decodeFunctionResult(functionFragment: 'domainSeparator', data: BytesLike): Result;
+decodeFunctionResult(functionFragment: 'execute', data: BytesLike): Result;
+decodeFunctionResult(functionFragment: 'nonces', data: BytesLike): Result;
+decodeFunctionResult(functionFragment: 'verify', data: BytesLike): Result;
+  }
+
+  
+    export namespace ExecutedEvent {
+      export type InputTuple = [from: AddressLike, to: AddressLike, nonce: BigNumberish];
+      export type OutputTuple = [from: string, to: string, nonce: bigint];
+      export interface OutputObject {from: string, to: string, nonce: bigint };
+      export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>
+      export type Filter = TypedDeferredTopicFilter<Event>
+      export type Log = TypedEventLog<Event>
+      export type LogDescription = TypedLogDescription<Event>
+    }
+
+  
+
+  export interface MedicalRecordsForwarder extends BaseContract {
+    
+    connect(runner?: ContractRunner | null): MedicalRecordsForwarder;
+    waitForDeployment(): Promise<this>;
+
+    interface: MedicalRecordsForwarderInterface;
+
+    
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined,
+  ): Promise<Array<TypedEventLog<TCEvent>>>
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(event: TCEvent, listener: TypedListener<TCEvent>): Promise<this>
+  on<TCEvent extends TypedContractEvent>(filter: TypedDeferredTopicFilter<TCEvent>, listener: TypedListener<TCEvent>): Promise<this>
+  
+  once<TCEvent extends TypedContractEvent>(event: TCEvent, listener: TypedListener<TCEvent>): Promise<this>
+  once<TCEvent extends TypedContractEvent>(filter: TypedDeferredTopicFilter<TCEvent>, listener: TypedListener<TCEvent>): Promise<this>
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>
+  removeAllListeners<TCEvent extends TypedContractEvent>(event?: TCEvent): Promise<this>
+
+
+    
+    
+    NAME: TypedContractMethod<
+      [],
+      [string],
+      'view'
+    >
+    
+
+    
+    VERSION: TypedContractMethod<
+      [],
+      [string],
+      'view'
+    >
+    
+
+    
+    domainSeparator: TypedContractMethod<
+      [],
+      [string],
+      'view'
+    >
+    
+
+    
+    execute: TypedContractMethod<
+      [request: MedicalRecordsForwarder.ForwardRequestStruct, signature: BytesLike, ],
+      [string],
+      'payable'
+    >
+    
+
+    
+    nonces: TypedContractMethod<
+      [arg0: AddressLike, ],
+      [bigint],
+      'view'
+    >
+    
+
+    
+    verify: TypedContractMethod<
+      [request: MedicalRecordsForwarder.ForwardRequestStruct, signature: BytesLike, ],
+      [boolean],
+      'view'
+    >
+    
+
+
+    getFunction<T extends ContractMethod = ContractMethod>(key: string | FunctionFragment): T;
+
+    getFunction(nameOrSignature: 'NAME'): TypedContractMethod<
+      [],
+      [string],
+      'view'
+    >;
+getFunction(nameOrSignature: 'VERSION'): TypedContractMethod<
+      [],
+      [string],
+      'view'
+    >;
+getFunction(nameOrSignature: 'domainSeparator'): TypedContractMethod<
+      [],
+      [string],
+      'view'
+    >;
+getFunction(nameOrSignature: 'execute'): TypedContractMethod<
+      [request: MedicalRecordsForwarder.ForwardRequestStruct, signature: BytesLike, ],
+      [string],
+      'payable'
+    >;
+getFunction(nameOrSignature: 'nonces'): TypedContractMethod<
+      [arg0: AddressLike, ],
+      [bigint],
+      'view'
+    >;
+getFunction(nameOrSignature: 'verify'): TypedContractMethod<
+      [request: MedicalRecordsForwarder.ForwardRequestStruct, signature: BytesLike, ],
+      [boolean],
+      'view'
+    >;
+
+    getEvent(key: 'Executed'): TypedContractEvent<ExecutedEvent.InputTuple, ExecutedEvent.OutputTuple, ExecutedEvent.OutputObject>;
+
+    filters: {
+      
+      'Executed(address,address,uint256)': TypedContractEvent<ExecutedEvent.InputTuple, ExecutedEvent.OutputTuple, ExecutedEvent.OutputObject>;
+      Executed: TypedContractEvent<ExecutedEvent.InputTuple, ExecutedEvent.OutputTuple, ExecutedEvent.OutputObject>;
+    
+    };
+  }
\ No newline at end of file
@@ -0,0 +1,179 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type { BaseContract, BigNumberish, BytesLike, FunctionFragment, Result, Interface, EventFragment, AddressLike, ContractRunner, ContractMethod, Listener } from "ethers"
+import type { TypedContractEvent, TypedDeferredTopicFilter, TypedEventLog, TypedLogDescription, TypedListener, TypedContractMethod } from "./common.js"
+  
+
+  export interface MedicalRecordsStorageInterface extends Interface {
+    getFunction(nameOrSignature: "getRecord" | "isTrustedForwarder" | "recordExists" | "registrar" | "storeRecord" | "storeRecordFor" | "trustedForwarder"): FunctionFragment;
+
+    getEvent(nameOrSignatureOrTopic: "RecordStored"): EventFragment;
+
+    encodeFunctionData(functionFragment: 'getRecord', values: [BytesLike]): string;
+encodeFunctionData(functionFragment: 'isTrustedForwarder', values: [AddressLike]): string;
+encodeFunctionData(functionFragment: 'recordExists', values: [BytesLike]): string;
+encodeFunctionData(functionFragment: 'registrar', values?: undefined): string;
+encodeFunctionData(functionFragment: 'storeRecord', values: [BytesLike, string, BigNumberish]): string;
+encodeFunctionData(functionFragment: 'storeRecordFor', values: [BytesLike, string, BigNumberish, AddressLike]): string;
+encodeFunctionData(functionFragment: 'trustedForwarder', values?: undefined): string;
+
+    decodeFunctionResult(functionFragment: 'getRecord', data: BytesLike): Result;
+decodeFunctionResult(functionFragment: 'isTrustedForwarder', data: BytesLike): Result;
+decodeFunctionResult(functionFragment: 'recordExists', data: BytesLike): Result;
+decodeFunctionResult(functionFragment: 'registrar', data: BytesLike): Result;
+decodeFunctionResult(functionFragment: 'storeRecord', data: BytesLike): Result;
+decodeFunctionResult(functionFragment: 'storeRecordFor', data: BytesLike): Result;
+decodeFunctionResult(functionFragment: 'trustedForwarder', data: BytesLike): Result;
+  }
+
+  
+    export namespace RecordStoredEvent {
+      export type InputTuple = [recordHash: BytesLike, owner: AddressLike, ipfsHash: string, timestamp: BigNumberish];
+      export type OutputTuple = [recordHash: string, owner: string, ipfsHash: string, timestamp: bigint];
+      export interface OutputObject {recordHash: string, owner: string, ipfsHash: string, timestamp: bigint };
+      export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>
+      export type Filter = TypedDeferredTopicFilter<Event>
+      export type Log = TypedEventLog<Event>
+      export type LogDescription = TypedLogDescription<Event>
+    }
+
+  
+
+  export interface MedicalRecordsStorage extends BaseContract {
+    
+    connect(runner?: ContractRunner | null): MedicalRecordsStorage;
+    waitForDeployment(): Promise<this>;
+
+    interface: MedicalRecordsStorageInterface;
+
+    
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined,
+  ): Promise<Array<TypedEventLog<TCEvent>>>
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(event: TCEvent, listener: TypedListener<TCEvent>): Promise<this>
+  on<TCEvent extends TypedContractEvent>(filter: TypedDeferredTopicFilter<TCEvent>, listener: TypedListener<TCEvent>): Promise<this>
+  
+  once<TCEvent extends TypedContractEvent>(event: TCEvent, listener: TypedListener<TCEvent>): Promise<this>
+  once<TCEvent extends TypedContractEvent>(filter: TypedDeferredTopicFilter<TCEvent>, listener: TypedListener<TCEvent>): Promise<this>
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>
+  removeAllListeners<TCEvent extends TypedContractEvent>(event?: TCEvent): Promise<this>
+
+
+    
+    
+    getRecord: TypedContractMethod<
+      [recordHash: BytesLike, ],
+      [[string, bigint, string] & {ipfsHash: string, timestamp: bigint, owner: string }],
+      'view'
+    >
+    
+
+    
+    isTrustedForwarder: TypedContractMethod<
+      [forwarder: AddressLike, ],
+      [boolean],
+      'view'
+    >
+    
+
+    
+    recordExists: TypedContractMethod<
+      [recordHash: BytesLike, ],
+      [boolean],
+      'view'
+    >
+    
+
+    
+    registrar: TypedContractMethod<
+      [],
+      [string],
+      'view'
+    >
+    
+
+    
+    storeRecord: TypedContractMethod<
+      [recordHash: BytesLike, ipfsHash: string, timestamp: BigNumberish, ],
+      [void],
+      'nonpayable'
+    >
+    
+
+    
+    storeRecordFor: TypedContractMethod<
+      [recordHash: BytesLike, ipfsHash: string, timestamp: BigNumberish, owner: AddressLike, ],
+      [void],
+      'nonpayable'
+    >
+    
+
+    
+    trustedForwarder: TypedContractMethod<
+      [],
+      [string],
+      'view'
+    >
+    
+
+
+    getFunction<T extends ContractMethod = ContractMethod>(key: string | FunctionFragment): T;
+
+    getFunction(nameOrSignature: 'getRecord'): TypedContractMethod<
+      [recordHash: BytesLike, ],
+      [[string, bigint, string] & {ipfsHash: string, timestamp: bigint, owner: string }],
+      'view'
+    >;
+getFunction(nameOrSignature: 'isTrustedForwarder'): TypedContractMethod<
+      [forwarder: AddressLike, ],
+      [boolean],
+      'view'
+    >;
+getFunction(nameOrSignature: 'recordExists'): TypedContractMethod<
+      [recordHash: BytesLike, ],
+      [boolean],
+      'view'
+    >;
+getFunction(nameOrSignature: 'registrar'): TypedContractMethod<
+      [],
+      [string],
+      'view'
+    >;
+getFunction(nameOrSignature: 'storeRecord'): TypedContractMethod<
+      [recordHash: BytesLike, ipfsHash: string, timestamp: BigNumberish, ],
+      [void],
+      'nonpayable'
+    >;
+getFunction(nameOrSignature: 'storeRecordFor'): TypedContractMethod<
+      [recordHash: BytesLike, ipfsHash: string, timestamp: BigNumberish, owner: AddressLike, ],
+      [void],
+      'nonpayable'
+    >;
+getFunction(nameOrSignature: 'trustedForwarder'): TypedContractMethod<
+      [],
+      [string],
+      'view'
+    >;
+
+    getEvent(key: 'RecordStored'): TypedContractEvent<RecordStoredEvent.InputTuple, RecordStoredEvent.OutputTuple, RecordStoredEvent.OutputObject>;
+
+    filters: {
+      
+      'RecordStored(bytes32,address,string,uint256)': TypedContractEvent<RecordStoredEvent.InputTuple, RecordStoredEvent.OutputTuple, RecordStoredEvent.OutputObject>;
+      RecordStored: TypedContractEvent<RecordStoredEvent.InputTuple, RecordStoredEvent.OutputTuple, RecordStoredEvent.OutputObject>;
+    
+    };
+  }
\ No newline at end of file
@@ -0,0 +1,346 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type { Addressable } from "ethers";
+import { Contract, ContractFactory, ContractTransactionResponse, Interface } from "ethers"
+import type { Signer, AddressLike, ContractDeployTransaction, ContractRunner } from "ethers"
+import type { NonPayableOverrides } from "../common.js"
+  import type { MedicalRecordsAccess, MedicalRecordsAccessInterface } from "../MedicalRecordsAccess.js";
+
+  const _abi = [
+  {
+    "inputs": [
+      {
+        "internalType": "contract MedicalRecordsStorage",
+        "name": "recordsStorage_",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "trustedForwarder_",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "recordHash",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "address",
+        "name": "provider",
+        "type": "address"
+      }
+    ],
+    "name": "AccessNotFound",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "expiresAt",
+        "type": "uint256"
+      }
+    ],
+    "name": "InvalidExpiry",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidProvider",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidStorage",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "NoPermissions",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "recordHash",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "address",
+        "name": "caller",
+        "type": "address"
+      }
+    ],
+    "name": "NotRecordOwner",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "recordHash",
+        "type": "bytes32"
+      }
+    ],
+    "name": "RecordNotFound",
+    "type": "error"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "bytes32",
+        "name": "recordHash",
+        "type": "bytes32"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "patient",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "provider",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "expiresAt",
+        "type": "uint256"
+      }
+    ],
+    "name": "AccessGranted",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "bytes32",
+        "name": "recordHash",
+        "type": "bytes32"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "patient",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "provider",
+        "type": "address"
+      }
+    ],
+    "name": "AccessRevoked",
+    "type": "event"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "recordHash",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "address",
+        "name": "provider",
+        "type": "address"
+      }
+    ],
+    "name": "getAccessDetails",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "expiresAt",
+        "type": "uint256"
+      },
+      {
+        "internalType": "string[]",
+        "name": "permissions",
+        "type": "string[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "recordHash",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "address",
+        "name": "provider",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "expiresAt",
+        "type": "uint256"
+      },
+      {
+        "internalType": "string[]",
+        "name": "permissions",
+        "type": "string[]"
+      }
+    ],
+    "name": "grantAccess",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "recordHash",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "address",
+        "name": "provider",
+        "type": "address"
+      }
+    ],
+    "name": "hasAccess",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "forwarder",
+        "type": "address"
+      }
+    ],
+    "name": "isTrustedForwarder",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "recordsStorage",
+    "outputs": [
+      {
+        "internalType": "contract MedicalRecordsStorage",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "recordHash",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "address",
+        "name": "provider",
+        "type": "address"
+      }
+    ],
+    "name": "revokeAccess",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "trustedForwarder",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+  const _bytecode = "0x60c060405234801561000f575f5ffd5b50604051611bbb380380611bbb833981810160405281019061003191906101a0565b808073ffffffffffffffffffffffffffffffffffffffff1660808173ffffffffffffffffffffffffffffffffffffffff1681525050505f73ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff16036100cc576040517f201a7d4800000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b8173ffffffffffffffffffffffffffffffffffffffff1660a08173ffffffffffffffffffffffffffffffffffffffff168152505050506101de565b5f5ffd5b5f73ffffffffffffffffffffffffffffffffffffffff82169050919050565b5f6101348261010b565b9050919050565b5f6101458261012a565b9050919050565b6101558161013b565b811461015f575f5ffd5b50565b5f815190506101708161014c565b92915050565b61017f8161012a565b8114610189575f5ffd5b50565b5f8151905061019a81610176565b92915050565b5f5f604083850312156101b6576101b5610107565b5b5f6101c385828601610162565b92505060206101d48582860161018c565b9150509250929050565b60805160a0516119996102225f395f818161018701528181610261015281816106b8015281816107920152610a2d01525f81816105dd015261063501526119995ff3fe608060405234801561000f575f5ffd5b506004361061007b575f3560e01c806383177db31161005957806383177db3146100e95780638d53b20814610119578063acd1a33e14610135578063cee3eb30146101535761007b565b80631bb8db001461007f578063572b6c051461009b5780637da0a877146100cb575b5f5ffd5b61009960048036038101906100949190610e9b565b610184565b005b6100b560048036038101906100b09190610f1f565b6105a3565b6040516100c29190610f64565b60405180910390f35b6100d3610632565b6040516100e09190610f8c565b60405180910390f35b61010360048036038101906100fe9190610fa5565b610659565b6040516101109190610f64565b60405180910390f35b610133600480360381019061012e9190610fa5565b6106b5565b005b61013d610a2b565b60405161014a919061103e565b60405180910390f35b61016d60048036038101906101689190610fa5565b610a4f565b60405161017b929190611191565b60405180910390f35b847f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff1663f79fe538826040518263ffffffff1660e01b81526004016101de91906111ce565b602060405180830381865afa1580156101f9573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061021d9190611211565b61025e57806040517f670a7e6a00000000000000000000000000000000000000000000000000000000815260040161025591906111ce565b60405180910390fd5b5f7f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff1663213681cd836040518263ffffffff1660e01b81526004016102b891906111ce565b5f60405180830381865afa1580156102d2573d5f5f3e3d5ffd5b505050506040513d5f823e3d601f19601f820116820180604052508101906102fa919061137e565b92505050610306610be9565b73ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff161461037e5781610341610be9565b6040517f2ae7d6260000000000000000000000000000000000000000000000000000000081526004016103759291906113ea565b60405180910390fd5b5f73ffffffffffffffffffffffffffffffffffffffff168673ffffffffffffffffffffffffffffffffffffffff16036103e3576040517f7626db8200000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b5f85141580156103f35750428511155b1561043557846040517f3accc52b00000000000000000000000000000000000000000000000000000000815260040161042c9190611411565b60405180910390fd5b5f8484905003610471576040517f0e7c058000000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b604051806060016040528086815260200185859061048f9190611557565b8152602001600115158152505f5f8981526020019081526020015f205f8873ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020015f205f820151815f0155602082015181600101908051906020019061050a929190610c79565b506040820151816002015f6101000a81548160ff0219169083151502179055509050508573ffffffffffffffffffffffffffffffffffffffff1661054c610be9565b73ffffffffffffffffffffffffffffffffffffffff16887fe8c34df6c7ca96a04e8dd74d36737b8c1c3def019e8ee13253c0769a094e5970886040516105929190611411565b60405180910390a450505050505050565b5f5f73ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff161415801561062b57507f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff16145b9050919050565b5f7f0000000000000000000000000000000000000000000000000000000000000000905090565b5f6106ad5f5f8581526020019081526020015f205f8473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020015f20610c45565b905092915050565b817f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff1663f79fe538826040518263ffffffff1660e01b815260040161070f91906111ce565b602060405180830381865afa15801561072a573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061074e9190611211565b61078f57806040517f670a7e6a00000000000000000000000000000000000000000000000000000000815260040161078691906111ce565b60405180910390fd5b5f7f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff1663213681cd836040518263ffffffff1660e01b81526004016107e991906111ce565b5f60405180830381865afa158015610803573d5f5f3e3d5ffd5b505050506040513d5f823e3d601f19601f8201168201806040525081019061082b919061137e565b92505050610837610be9565b73ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff16146108af5781610872610be9565b6040517f2ae7d6260000000000000000000000000000000000000000000000000000000081526004016108a69291906113ea565b60405180910390fd5b5f5f8581526020019081526020015f205f8473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020015f206002015f9054906101000a900460ff1661094d5783836040517f4d4523370000000000000000000000000000000000000000000000000000000081526004016109449291906113ea565b60405180910390fd5b5f5f8581526020019081526020015f205f8473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020015f205f5f82015f9055600182015f6109ae9190610cd0565b600282015f6101000a81549060ff021916905550508273ffffffffffffffffffffffffffffffffffffffff166109e2610be9565b73ffffffffffffffffffffffffffffffffffffffff16857ffab19bdeacf1ea13315b1da3f79a3403fe4f16793b6a03eeff9e0bbbea24fe5f60405160405180910390a450505050565b7f000000000000000000000000000000000000000000000000000000000000000081565b5f60605f5f5f8681526020019081526020015f205f8573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020015f209050610aa981610c45565b610b06575f5f67ffffffffffffffff811115610ac857610ac7611240565b5b604051908082528060200260200182016040528015610afb57816020015b6060815260200190600190039081610ae65790505b509250925050610be2565b805f01548160010180805480602002602001604051908101604052809291908181526020015f905b82821015610bd6578382905f5260205f20018054610b4b90611598565b80601f0160208091040260200160405190810160405280929190818152602001828054610b7790611598565b8015610bc25780601f10610b9957610100808354040283529160200191610bc2565b820191905f5260205f20905b815481529060010190602001808311610ba557829003601f168201915b505050505081526020019060010190610b2e565b50505050905092509250505b9250929050565b5f610bf3336105a3565b8015610c03575060145f36905010155b15610c3e575f3660145f369050610c1a91906115f5565b908092610c2993929190611630565b90610c3491906116ab565b60601c9050610c42565b3390505b90565b5f816002015f9054906101000a900460ff168015610c7257505f825f01541480610c71575042825f0154115b5b9050919050565b828054828255905f5260205f20908101928215610cbf579160200282015b82811115610cbe578251829081610cae9190611894565b5091602001919060010190610c97565b5b509050610ccc9190610cee565b5090565b5080545f8255905f5260205f2090810190610ceb9190610cee565b50565b5b80821115610d0d575f8181610d049190610d11565b50600101610cef565b5090565b508054610d1d90611598565b5f825580601f10610d2e5750610d4b565b601f0160209004905f5260205f2090810190610d4a9190610d4e565b5b50565b5b80821115610d65575f815f905550600101610d4f565b5090565b5f604051905090565b5f5ffd5b5f5ffd5b5f819050919050565b610d8c81610d7a565b8114610d96575f5ffd5b50565b5f81359050610da781610d83565b92915050565b5f73ffffffffffffffffffffffffffffffffffffffff82169050919050565b5f610dd682610dad565b9050919050565b610de681610dcc565b8114610df0575f5ffd5b50565b5f81359050610e0181610ddd565b92915050565b5f819050919050565b610e1981610e07565b8114610e23575f5ffd5b50565b5f81359050610e3481610e10565b92915050565b5f5ffd5b5f5ffd5b5f5ffd5b5f5f83601f840112610e5b57610e5a610e3a565b5b8235905067ffffffffffffffff811115610e7857610e77610e3e565b5b602083019150836020820283011115610e9457610e93610e42565b5b9250929050565b5f5f5f5f5f60808688031215610eb457610eb3610d72565b5b5f610ec188828901610d99565b9550506020610ed288828901610df3565b9450506040610ee388828901610e26565b935050606086013567ffffffffffffffff811115610f0457610f03610d76565b5b610f1088828901610e46565b92509250509295509295909350565b5f60208284031215610f3457610f33610d72565b5b5f610f4184828501610df3565b91505092915050565b5f8115159050919050565b610f5e81610f4a565b82525050565b5f602082019050610f775f830184610f55565b92915050565b610f8681610dcc565b82525050565b5f602082019050610f9f5f830184610f7d565b92915050565b5f5f60408385031215610fbb57610fba610d72565b5b5f610fc885828601610d99565b9250506020610fd985828601610df3565b9150509250929050565b5f819050919050565b5f611006611001610ffc84610dad565b610fe3565b610dad565b9050919050565b5f61101782610fec565b9050919050565b5f6110288261100d565b9050919050565b6110388161101e565b82525050565b5f6020820190506110515f83018461102f565b92915050565b61106081610e07565b82525050565b5f81519050919050565b5f82825260208201905092915050565b5f819050602082019050919050565b5f81519050919050565b5f82825260208201905092915050565b8281835e5f83830152505050565b5f601f19601f8301169050919050565b5f6110d18261108f565b6110db8185611099565b93506110eb8185602086016110a9565b6110f4816110b7565b840191505092915050565b5f61110a83836110c7565b905092915050565b5f602082019050919050565b5f61112882611066565b6111328185611070565b93508360208202850161114485611080565b805f5b8581101561117f578484038952815161116085826110ff565b945061116b83611112565b925060208a01995050600181019050611147565b50829750879550505050505092915050565b5f6040820190506111a45f830185611057565b81810360208301526111b6818461111e565b90509392505050565b6111c881610d7a565b82525050565b5f6020820190506111e15f8301846111bf565b92915050565b6111f081610f4a565b81146111fa575f5ffd5b50565b5f8151905061120b816111e7565b92915050565b5f6020828403121561122657611225610d72565b5b5f611233848285016111fd565b91505092915050565b5f5ffd5b7f4e487b71000000000000000000000000000000000000000000000000000000005f52604160045260245ffd5b611276826110b7565b810181811067ffffffffffffffff8211171561129557611294611240565b5b80604052505050565b5f6112a7610d69565b90506112b3828261126d565b919050565b5f67ffffffffffffffff8211156112d2576112d1611240565b5b6112db826110b7565b9050602081019050919050565b5f6112fa6112f5846112b8565b61129e565b9050828152602081018484840111156113165761131561123c565b5b6113218482856110a9565b509392505050565b5f82601f83011261133d5761133c610e3a565b5b815161134d8482602086016112e8565b91505092915050565b5f8151905061136481610e10565b92915050565b5f8151905061137881610ddd565b92915050565b5f5f5f6060848603121561139557611394610d72565b5b5f84015167ffffffffffffffff8111156113b2576113b1610d76565b5b6113be86828701611329565b93505060206113cf86828701611356565b92505060406113e08682870161136a565b9150509250925092565b5f6040820190506113fd5f8301856111bf565b61140a6020830184610f7d565b9392505050565b5f6020820190506114245f830184611057565b92915050565b5f67ffffffffffffffff82111561144457611443611240565b5b602082029050602081019050919050565b828183375f83830152505050565b5f611475611470846112b8565b61129e565b9050828152602081018484840111156114915761149061123c565b5b61149c848285611455565b509392505050565b5f82601f8301126114b8576114b7610e3a565b5b81356114c8848260208601611463565b91505092915050565b5f6114e36114de8461142a565b61129e565b9050808382526020820190506020840283018581111561150657611505610e42565b5b835b8181101561154d57803567ffffffffffffffff81111561152b5761152a610e3a565b5b80860161153889826114a4565b85526020850194505050602081019050611508565b5050509392505050565b5f6115633684846114d1565b905092915050565b7f4e487b71000000000000000000000000000000000000000000000000000000005f52602260045260245ffd5b5f60028204905060018216806115af57607f821691505b6020821081036115c2576115c161156b565b5b50919050565b7f4e487b71000000000000000000000000000000000000000000000000000000005f52601160045260245ffd5b5f6115ff82610e07565b915061160a83610e07565b9250828203905081811115611622576116216115c8565b5b92915050565b5f5ffd5b5f5ffd5b5f5f8585111561164357611642611628565b5b838611156116545761165361162c565b5b6001850283019150848603905094509492505050565b5f82905092915050565b5f7fffffffffffffffffffffffffffffffffffffffff00000000000000000000000082169050919050565b5f82821b905092915050565b5f6116b6838361166a565b826116c18135611674565b92506014821015611701576116fc7fffffffffffffffffffffffffffffffffffffffff0000000000000000000000008360140360080261169f565b831692505b505092915050565b5f819050815f5260205f209050919050565b5f6020601f8301049050919050565b5f600883026117597fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff8261169f565b611763868361169f565b95508019841693508086168417925050509392505050565b5f61179561179061178b84610e07565b610fe3565b610e07565b9050919050565b5f819050919050565b6117ae8361177b565b6117c26117ba8261179c565b84845461172a565b825550505050565b5f5f905090565b6117d96117ca565b6117e48184846117a5565b505050565b5b81811015611807576117fc5f826117d1565b6001810190506117ea565b5050565b601f82111561184c5761181d81611709565b6118268461171b565b81016020851015611835578190505b6118496118418561171b565b8301826117e9565b50505b505050565b5f82821c905092915050565b5f61186c5f1984600802611851565b1980831691505092915050565b5f611884838361185d565b9150826002028217905092915050565b61189d8261108f565b67ffffffffffffffff8111156118b6576118b5611240565b5b6118c08254611598565b6118cb82828561180b565b5f60209050601f8311600181146118fc575f84156118ea578287015190505b6118f48582611879565b86555061195b565b601f19841661190a86611709565b5f5b828110156119315784890151825560018201915060208501945060208101905061190c565b8683101561194e578489015161194a601f89168261185d565b8355505b6001600288020188555050505b50505050505056fea264697066735822122041b6b9f037ed9d87957e9ffbe62cbd3cb818364b4a1657d2af5e5d6e8c22a2c464736f6c634300081c0033";
+
+  
+      type MedicalRecordsAccessConstructorParams = [signer?: Signer] | ConstructorParameters<typeof ContractFactory>;
+
+      const isSuperArgs = (xs: MedicalRecordsAccessConstructorParams): xs is ConstructorParameters<typeof ContractFactory> =>
+        xs.length > 1
+    
+
+  export class MedicalRecordsAccess__factory extends ContractFactory {
+    
+      constructor(...args: MedicalRecordsAccessConstructorParams) {
+        if (isSuperArgs(args)) {
+          super(...args);
+        } else {
+          super(_abi, _bytecode, args[0]);
+        }
+        
+      }
+    
+    override getDeployTransaction(recordsStorage_: AddressLike, trustedForwarder_: AddressLike, overrides?: NonPayableOverrides & { from?: string }): Promise<ContractDeployTransaction> {
+      return super.getDeployTransaction(recordsStorage_, trustedForwarder_, overrides || {});
+    };
+    override deploy(recordsStorage_: AddressLike, trustedForwarder_: AddressLike, overrides?: NonPayableOverrides & { from?: string }) {
+      return super.deploy(recordsStorage_, trustedForwarder_, overrides || {}) as Promise<MedicalRecordsAccess & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }>;
+    }
+    override connect(runner: ContractRunner | null): MedicalRecordsAccess__factory {
+      return super.connect(runner) as MedicalRecordsAccess__factory;
+    }
+    
+    
+    static readonly bytecode = _bytecode;
+    static readonly abi = _abi;
+    static createInterface(): MedicalRecordsAccessInterface {
+      return new Interface(_abi) as MedicalRecordsAccessInterface;
+    }
+    
+    override attach(address: string | Addressable): MedicalRecordsAccess {
+      return super.attach(address) as MedicalRecordsAccess;
+    }
+  static connect(address: string, runner?: ContractRunner | null): MedicalRecordsAccess {
+      return new Contract(address, _abi, runner) as unknown as MedicalRecordsAccess;
+    }
+  }
+
+  
+  
\ No newline at end of file
@@ -0,0 +1,314 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type { Addressable } from "ethers";
+import { Contract, ContractFactory, ContractTransactionResponse, Interface } from "ethers"
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers"
+import type { NonPayableOverrides } from "../common.js"
+  import type { MedicalRecordsForwarder, MedicalRecordsForwarderInterface } from "../MedicalRecordsForwarder.js";
+
+  const _abi = [
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "deadline",
+        "type": "uint256"
+      }
+    ],
+    "name": "ExpiredRequest",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "from",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "nonce",
+        "type": "uint256"
+      }
+    ],
+    "name": "InvalidNonce",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidSignature",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "requested",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "sent",
+        "type": "uint256"
+      }
+    ],
+    "name": "MismatchedValue",
+    "type": "error"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "from",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "nonce",
+        "type": "uint256"
+      }
+    ],
+    "name": "Executed",
+    "type": "event"
+  },
+  {
+    "inputs": [],
+    "name": "NAME",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "VERSION",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "domainSeparator",
+    "outputs": [
+      {
+        "internalType": "bytes32",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "components": [
+          {
+            "internalType": "address",
+            "name": "from",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "value",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "gas",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "nonce",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "deadline",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bytes",
+            "name": "data",
+            "type": "bytes"
+          }
+        ],
+        "internalType": "struct MedicalRecordsForwarder.ForwardRequest",
+        "name": "request",
+        "type": "tuple"
+      },
+      {
+        "internalType": "bytes",
+        "name": "signature",
+        "type": "bytes"
+      }
+    ],
+    "name": "execute",
+    "outputs": [
+      {
+        "internalType": "bytes",
+        "name": "",
+        "type": "bytes"
+      }
+    ],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "nonces",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "components": [
+          {
+            "internalType": "address",
+            "name": "from",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "value",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "gas",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "nonce",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "deadline",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bytes",
+            "name": "data",
+            "type": "bytes"
+          }
+        ],
+        "internalType": "struct MedicalRecordsForwarder.ForwardRequest",
+        "name": "request",
+        "type": "tuple"
+      },
+      {
+        "internalType": "bytes",
+        "name": "signature",
+        "type": "bytes"
+      }
+    ],
+    "name": "verify",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+  const _bytecode = "0x6080604052348015600e575f5ffd5b5061120e8061001c5f395ff3fe608060405260043610610054575f3560e01c80630d9ede451461005857806312342287146100885780637ecebe00146100c4578063a3f4df7e14610100578063f698da251461012a578063ffa1ad7414610154575b5f5ffd5b610072600480360381019061006d91906109fb565b61017e565b60405161007f9190610ae4565b60405180910390f35b348015610093575f5ffd5b506100ae60048036038101906100a991906109fb565b6104f2565b6040516100bb9190610b1e565b60405180910390f35b3480156100cf575f5ffd5b506100ea60048036038101906100e59190610b91565b610573565b6040516100f79190610bd4565b60405180910390f35b34801561010b575f5ffd5b50610114610587565b6040516101219190610c3f565b60405180910390f35b348015610135575f5ffd5b5061013e6105c0565b60405161014b9190610c77565b60405180910390f35b34801561015f575f5ffd5b5061016861068d565b6040516101759190610c3f565b60405180910390f35b6060836040013534146101ce578360400135346040517f3f9ba4380000000000000000000000000000000000000000000000000000000081526004016101c5929190610c90565b60405180910390fd5b428460a00135101561021b578360a001356040517f596064340000000000000000000000000000000000000000000000000000000081526004016102129190610bd4565b60405180910390fd5b5f5f855f01602081019061022f9190610b91565b73ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020015f20548460800135146102c757835f0160208101906102859190610b91565b84608001356040517fdbc205b10000000000000000000000000000000000000000000000000000000081526004016102be929190610cc6565b60405180910390fd5b6102d28484846106c6565b610308576040517f8baa579f00000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b600184608001356103199190610d1a565b5f5f865f01602081019061032d9190610b91565b73ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020015f20819055505f5f85602001602081019061037f9190610b91565b73ffffffffffffffffffffffffffffffffffffffff1686606001358760400135888060c001906103af9190610d59565b8a5f0160208101906103c19190610b91565b6040516020016103d393929190610e3c565b6040516020818303038152906040526040516103ef9190610e95565b5f60405180830381858888f193505050503d805f811461042a576040519150601f19603f3d011682016040523d82523d5f602084013e61042f565b606091505b5091509150603f86606001356104459190610ed8565b5a1161044d57fe5b8161045a57805160208201fd5b85602001602081019061046d9190610b91565b73ffffffffffffffffffffffffffffffffffffffff16865f0160208101906104959190610b91565b73ffffffffffffffffffffffffffffffffffffffff167ff31c54e12bd5cb0ca8f0e668e61d5643a09b0c8f4ad37de794f7b863818fed1288608001356040516104de9190610bd4565b60405180910390a380925050509392505050565b5f428460a001351015801561055757505f5f855f0160208101906105169190610b91565b73ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020015f20548460800135145b801561056a57506105698484846106c6565b5b90509392505050565b5f602052805f5260405f205f915090505481565b6040518060400160405280601781526020017f4d65646963616c5265636f726473466f7277617264657200000000000000000081525081565b5f7f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f6040518060400160405280601781526020017f4d65646963616c5265636f726473466f72776172646572000000000000000000815250805190602001206040518060400160405280600181526020017f3100000000000000000000000000000000000000000000000000000000000000815250805190602001204630604051602001610672959493929190610f08565b60405160208183030381529060405280519060200120905090565b6040518060400160405280600181526020017f310000000000000000000000000000000000000000000000000000000000000081525081565b5f5f6106db6106d48661075f565b8585610848565b90505f73ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff16141580156107555750845f0160208101906107269190610b91565b73ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff16145b9150509392505050565b5f5f7fca55ce0307ac53917d02c1387bc157c21729fef42093fa6ec5e3cb506dd1fa82835f0160208101906107949190610b91565b8460200160208101906107a79190610b91565b8560400135866060013587608001358860a00135898060c001906107cb9190610d59565b6040516107d9929190610f59565b60405180910390206040516020016107f8989796959493929190610f71565b6040516020818303038152906040528051906020012090506108186105c0565b8160405160200161082a929190611061565b60405160208183030381529060405280519060200120915050919050565b5f6041838390501461085c575f9050610969565b5f83835f906020926108709392919061109f565b9061087b91906110ef565b90505f84846020906040926108929392919061109f565b9061089d91906110ef565b90505f858560408181106108b4576108b361114d565b5b9050013560f81c60f81b60f81c90507f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0825f1c11806109075750601b8160ff16141580156109065750601c8160ff1614155b5b15610917575f9350505050610969565b6001878285856040515f81526020016040526040516109399493929190611195565b6020604051602081039080840390855afa158015610959573d5f5f3e3d5ffd5b5050506020604051035193505050505b9392505050565b5f5ffd5b5f5ffd5b5f5ffd5b5f60e0828403121561099157610990610978565b5b81905092915050565b5f5ffd5b5f5ffd5b5f5ffd5b5f5f83601f8401126109bb576109ba61099a565b5b8235905067ffffffffffffffff8111156109d8576109d761099e565b5b6020830191508360018202830111156109f4576109f36109a2565b5b9250929050565b5f5f5f60408486031215610a1257610a11610970565b5b5f84013567ffffffffffffffff811115610a2f57610a2e610974565b5b610a3b8682870161097c565b935050602084013567ffffffffffffffff811115610a5c57610a5b610974565b5b610a68868287016109a6565b92509250509250925092565b5f81519050919050565b5f82825260208201905092915050565b8281835e5f83830152505050565b5f601f19601f8301169050919050565b5f610ab682610a74565b610ac08185610a7e565b9350610ad0818560208601610a8e565b610ad981610a9c565b840191505092915050565b5f6020820190508181035f830152610afc8184610aac565b905092915050565b5f8115159050919050565b610b1881610b04565b82525050565b5f602082019050610b315f830184610b0f565b92915050565b5f73ffffffffffffffffffffffffffffffffffffffff82169050919050565b5f610b6082610b37565b9050919050565b610b7081610b56565b8114610b7a575f5ffd5b50565b5f81359050610b8b81610b67565b92915050565b5f60208284031215610ba657610ba5610970565b5b5f610bb384828501610b7d565b91505092915050565b5f819050919050565b610bce81610bbc565b82525050565b5f602082019050610be75f830184610bc5565b92915050565b5f81519050919050565b5f82825260208201905092915050565b5f610c1182610bed565b610c1b8185610bf7565b9350610c2b818560208601610a8e565b610c3481610a9c565b840191505092915050565b5f6020820190508181035f830152610c578184610c07565b905092915050565b5f819050919050565b610c7181610c5f565b82525050565b5f602082019050610c8a5f830184610c68565b92915050565b5f604082019050610ca35f830185610bc5565b610cb06020830184610bc5565b9392505050565b610cc081610b56565b82525050565b5f604082019050610cd95f830185610cb7565b610ce66020830184610bc5565b9392505050565b7f4e487b71000000000000000000000000000000000000000000000000000000005f52601160045260245ffd5b5f610d2482610bbc565b9150610d2f83610bbc565b9250828201905080821115610d4757610d46610ced565b5b92915050565b5f5ffd5b5f5ffd5b5f5ffd5b5f5f83356001602003843603038112610d7557610d74610d4d565b5b80840192508235915067ffffffffffffffff821115610d9757610d96610d51565b5b602083019250600182023603831315610db357610db2610d55565b5b509250929050565b5f81905092915050565b828183375f83830152505050565b5f610dde8385610dbb565b9350610deb838584610dc5565b82840190509392505050565b5f8160601b9050919050565b5f610e0d82610df7565b9050919050565b5f610e1e82610e03565b9050919050565b610e36610e3182610b56565b610e14565b82525050565b5f610e48828587610dd3565b9150610e548284610e25565b601482019150819050949350505050565b5f610e6f82610a74565b610e798185610dbb565b9350610e89818560208601610a8e565b80840191505092915050565b5f610ea08284610e65565b915081905092915050565b7f4e487b71000000000000000000000000000000000000000000000000000000005f52601260045260245ffd5b5f610ee282610bbc565b9150610eed83610bbc565b925082610efd57610efc610eab565b5b828204905092915050565b5f60a082019050610f1b5f830188610c68565b610f286020830187610c68565b610f356040830186610c68565b610f426060830185610bc5565b610f4f6080830184610cb7565b9695505050505050565b5f610f65828486610dd3565b91508190509392505050565b5f61010082019050610f855f83018b610c68565b610f92602083018a610cb7565b610f9f6040830189610cb7565b610fac6060830188610bc5565b610fb96080830187610bc5565b610fc660a0830186610bc5565b610fd360c0830185610bc5565b610fe060e0830184610c68565b9998505050505050505050565b5f81905092915050565b7f19010000000000000000000000000000000000000000000000000000000000005f82015250565b5f61102b600283610fed565b915061103682610ff7565b600282019050919050565b5f819050919050565b61105b61105682610c5f565b611041565b82525050565b5f61106b8261101f565b9150611077828561104a565b602082019150611087828461104a565b6020820191508190509392505050565b5f5ffd5b5f5ffd5b5f5f858511156110b2576110b1611097565b5b838611156110c3576110c261109b565b5b6001850283019150848603905094509492505050565b5f82905092915050565b5f82821b905092915050565b5f6110fa83836110d9565b826111058135610c5f565b92506020821015611145576111407fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff836020036008026110e3565b831692505b505092915050565b7f4e487b71000000000000000000000000000000000000000000000000000000005f52603260045260245ffd5b5f60ff82169050919050565b61118f8161117a565b82525050565b5f6080820190506111a85f830187610c68565b6111b56020830186611186565b6111c26040830185610c68565b6111cf6060830184610c68565b9594505050505056fea264697066735822122008e6cdbd8315b37b03c7065b4f36ebd89f395048979cfdbc7e084fbdb9215db864736f6c634300081c0033";
+
+  
+      type MedicalRecordsForwarderConstructorParams = [signer?: Signer] | ConstructorParameters<typeof ContractFactory>;
+
+      const isSuperArgs = (xs: MedicalRecordsForwarderConstructorParams): xs is ConstructorParameters<typeof ContractFactory> =>
+        xs.length > 1
+    
+
+  export class MedicalRecordsForwarder__factory extends ContractFactory {
+    
+      constructor(...args: MedicalRecordsForwarderConstructorParams) {
+        if (isSuperArgs(args)) {
+          super(...args);
+        } else {
+          super(_abi, _bytecode, args[0]);
+        }
+        
+      }
+    
+    override getDeployTransaction(overrides?: NonPayableOverrides & { from?: string }): Promise<ContractDeployTransaction> {
+      return super.getDeployTransaction(overrides || {});
+    };
+    override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+      return super.deploy(overrides || {}) as Promise<MedicalRecordsForwarder & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }>;
+    }
+    override connect(runner: ContractRunner | null): MedicalRecordsForwarder__factory {
+      return super.connect(runner) as MedicalRecordsForwarder__factory;
+    }
+    
+    
+    static readonly bytecode = _bytecode;
+    static readonly abi = _abi;
+    static createInterface(): MedicalRecordsForwarderInterface {
+      return new Interface(_abi) as MedicalRecordsForwarderInterface;
+    }
+    
+    override attach(address: string | Addressable): MedicalRecordsForwarder {
+      return super.attach(address) as MedicalRecordsForwarder;
+    }
+  static connect(address: string, runner?: ContractRunner | null): MedicalRecordsForwarder {
+      return new Contract(address, _abi, runner) as unknown as MedicalRecordsForwarder;
+    }
+  }
+
+  
+  
\ No newline at end of file
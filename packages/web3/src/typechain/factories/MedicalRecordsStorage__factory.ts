@@ -0,0 +1,300 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type { Addressable } from "ethers";
+import { Contract, ContractFactory, ContractTransactionResponse, Interface } from "ethers"
+import type { Signer, AddressLike, ContractDeployTransaction, ContractRunner } from "ethers"
+import type { NonPayableOverrides } from "../common.js"
+  import type { MedicalRecordsStorage, MedicalRecordsStorageInterface } from "../MedicalRecordsStorage.js";
+
+  const _abi = [
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "trustedForwarder_",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "registrar_",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "inputs": [],
+    "name": "EmptyIpfsHash",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidOwner",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidRecordHash",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "caller",
+        "type": "address"
+      }
+    ],
+    "name": "NotRegistrar",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "recordHash",
+        "type": "bytes32"
+      }
+    ],
+    "name": "RecordAlreadyExists",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "recordHash",
+        "type": "bytes32"
+      }
+    ],
+    "name": "RecordNotFound",
+    "type": "error"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "bytes32",
+        "name": "recordHash",
+        "type": "bytes32"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "owner",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "ipfsHash",
+        "type": "string"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "RecordStored",
+    "type": "event"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "recordHash",
+        "type": "bytes32"
+      }
+    ],
+    "name": "getRecord",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "ipfsHash",
+        "type": "string"
+      },
+      {
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "owner",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "forwarder",
+        "type": "address"
+      }
+    ],
+    "name": "isTrustedForwarder",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "recordHash",
+        "type": "bytes32"
+      }
+    ],
+    "name": "recordExists",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "registrar",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "recordHash",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "string",
+        "name": "ipfsHash",
+        "type": "string"
+      },
+      {
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "storeRecord",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "recordHash",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "string",
+        "name": "ipfsHash",
+        "type": "string"
+      },
+      {
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "owner",
+        "type": "address"
+      }
+    ],
+    "name": "storeRecordFor",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "trustedForwarder",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+  const _bytecode = "0x60c060405234801561000f575f5ffd5b5060405161126e38038061126e83398181016040528101906100319190610100565b818073ffffffffffffffffffffffffffffffffffffffff1660808173ffffffffffffffffffffffffffffffffffffffff1681525050508073ffffffffffffffffffffffffffffffffffffffff1660a08173ffffffffffffffffffffffffffffffffffffffff1681525050505061013e565b5f5ffd5b5f73ffffffffffffffffffffffffffffffffffffffff82169050919050565b5f6100cf826100a6565b9050919050565b6100df816100c5565b81146100e9575f5ffd5b50565b5f815190506100fa816100d6565b92915050565b5f5f60408385031215610116576101156100a2565b5b5f610123858286016100ec565b9250506020610134858286016100ec565b9150509250929050565b60805160a0516110fa6101745f395f81816102f501528181610400015261043e01525f818161035101526103a901526110fa5ff3fe608060405234801561000f575f5ffd5b506004361061007b575f3560e01c80637da0a877116100595780637da0a877146100ff578063a78cfba71461011d578063de79e89f14610139578063f79fe538146101555761007b565b8063213681cd1461007f5780632b20e397146100b1578063572b6c05146100cf575b5f5ffd5b610099600480360381019061009491906108b5565b610185565b6040516100a8939291906109a7565b60405180910390f35b6100b96102f3565b6040516100c691906109e3565b60405180910390f35b6100e960048036038101906100e49190610a26565b610317565b6040516100f69190610a6b565b60405180910390f35b6101076103a6565b60405161011491906109e3565b60405180910390f35b61013760048036038101906101329190610b0f565b6103cd565b005b610153600480360381019061014e9190610b80565b6103e7565b005b61016f600480360381019061016a91906108b5565b610556565b60405161017c9190610a6b565b60405180910390f35b60605f5f5f5f5f8681526020019081526020015f2090505f73ffffffffffffffffffffffffffffffffffffffff16816002015f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff160361022f57846040517f670a7e6a0000000000000000000000000000000000000000000000000000000081526004016102269190610c13565b60405180910390fd5b805f018160010154826002015f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff1682805461026790610c59565b80601f016020809104026020016040519081016040528092919081815260200182805461029390610c59565b80156102de5780601f106102b5576101008083540402835291602001916102de565b820191905f5260205f20905b8154815290600101906020018083116102c157829003601f168201915b50505050509250935093509350509193909250565b7f000000000000000000000000000000000000000000000000000000000000000081565b5f5f73ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff161415801561039f57507f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff16145b9050919050565b5f7f0000000000000000000000000000000000000000000000000000000000000000905090565b6103e1848484846103dc6105c0565b61061c565b50505050565b5f73ffffffffffffffffffffffffffffffffffffffff167f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff16148061049457507f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff1661047b6105c0565b73ffffffffffffffffffffffffffffffffffffffff1614155b156104dd576104a16105c0565b6040517f53ac4f070000000000000000000000000000000000000000000000000000000081526004016104d491906109e3565b60405180910390fd5b5f73ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff1603610542576040517f49e27cff00000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b61054f858585858561061c565b5050505050565b5f5f73ffffffffffffffffffffffffffffffffffffffff165f5f8481526020019081526020015f206002015f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1614159050919050565b5f6105ca33610317565b80156105da575060145f36905010155b15610615575f3660145f3690506105f19190610cb6565b90809261060093929190610cf1565b9061060b9190610d6c565b60601c9050610619565b3390505b90565b5f5f1b8503610657576040517fd1267aa600000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b5f8484905003610693576040517f504d123500000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b5f73ffffffffffffffffffffffffffffffffffffffff165f5f8781526020019081526020015f206002015f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff161461073557846040517f268888cc00000000000000000000000000000000000000000000000000000000815260040161072c9190610c13565b60405180910390fd5b604051806060016040528085858080601f0160208091040260200160405190810160405280939291908181526020018383808284375f81840152601f19601f8201169050808301925050505050505081526020018381526020018273ffffffffffffffffffffffffffffffffffffffff168152505f5f8781526020019081526020015f205f820151815f0190816107cc9190610f8b565b50602082015181600101556040820151816002015f6101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055509050508073ffffffffffffffffffffffffffffffffffffffff16857ff3cc1ada5584aa33e757ed57169682ac1b2f48c276af94a61aab40b6c34af10f86868660405161086b93929190611094565b60405180910390a35050505050565b5f5ffd5b5f5ffd5b5f819050919050565b61089481610882565b811461089e575f5ffd5b50565b5f813590506108af8161088b565b92915050565b5f602082840312156108ca576108c961087a565b5b5f6108d7848285016108a1565b91505092915050565b5f81519050919050565b5f82825260208201905092915050565b8281835e5f83830152505050565b5f601f19601f8301169050919050565b5f610922826108e0565b61092c81856108ea565b935061093c8185602086016108fa565b61094581610908565b840191505092915050565b5f819050919050565b61096281610950565b82525050565b5f73ffffffffffffffffffffffffffffffffffffffff82169050919050565b5f61099182610968565b9050919050565b6109a181610987565b82525050565b5f6060820190508181035f8301526109bf8186610918565b90506109ce6020830185610959565b6109db6040830184610998565b949350505050565b5f6020820190506109f65f830184610998565b92915050565b610a0581610987565b8114610a0f575f5ffd5b50565b5f81359050610a20816109fc565b92915050565b5f60208284031215610a3b57610a3a61087a565b5b5f610a4884828501610a12565b91505092915050565b5f8115159050919050565b610a6581610a51565b82525050565b5f602082019050610a7e5f830184610a5c565b92915050565b5f5ffd5b5f5ffd5b5f5ffd5b5f5f83601f840112610aa557610aa4610a84565b5b8235905067ffffffffffffffff811115610ac257610ac1610a88565b5b602083019150836001820283011115610ade57610add610a8c565b5b9250929050565b610aee81610950565b8114610af8575f5ffd5b50565b5f81359050610b0981610ae5565b92915050565b5f5f5f5f60608587031215610b2757610b2661087a565b5b5f610b34878288016108a1565b945050602085013567ffffffffffffffff811115610b5557610b5461087e565b5b610b6187828801610a90565b93509350506040610b7487828801610afb565b91505092959194509250565b5f5f5f5f5f60808688031215610b9957610b9861087a565b5b5f610ba6888289016108a1565b955050602086013567ffffffffffffffff811115610bc757610bc661087e565b5b610bd388828901610a90565b94509450506040610be688828901610afb565b9250506060610bf788828901610a12565b9150509295509295909350565b610c0d81610882565b82525050565b5f602082019050610c265f830184610c04565b92915050565b7f4e487b71000000000000000000000000000000000000000000000000000000005f52602260045260245ffd5b5f6002820490506001821680610c7057607f821691505b602082108103610c8357610c82610c2c565b5b50919050565b7f4e487b71000000000000000000000000000000000000000000000000000000005f52601160045260245ffd5b5f610cc082610950565b9150610ccb83610950565b9250828203905081811115610ce357610ce2610c89565b5b92915050565b5f5ffd5b5f5ffd5b5f5f85851115610d0457610d03610ce9565b5b83861115610d1557610d14610ced565b5b6001850283019150848603905094509492505050565b5f82905092915050565b5f7fffffffffffffffffffffffffffffffffffffffff00000000000000000000000082169050919050565b5f82821b905092915050565b5f610d778383610d2b565b82610d828135610d35565b92506014821015610dc257610dbd7fffffffffffffffffffffffffffffffffffffffff00000000000000000000000083601403600802610d60565b831692505b505092915050565b7f4e487b71000000000000000000000000000000000000000000000000000000005f52604160045260245ffd5b5f819050815f5260205f209050919050565b5f6020601f8301049050919050565b5f60088302610e477fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff82610d60565b610e518683610d60565b95508019841693508086168417925050509392505050565b5f819050919050565b5f610e8c610e87610e8284610950565b610e69565b610950565b9050919050565b5f819050919050565b610ea583610e72565b610eb9610eb182610e93565b848454610e18565b825550505050565b5f5f905090565b610ed0610ec1565b610edb818484610e9c565b505050565b5b81811015610efe57610ef35f82610ec8565b600181019050610ee1565b5050565b601f821115610f4357610f1481610df7565b610f1d84610e09565b81016020851015610f2c578190505b610f40610f3885610e09565b830182610ee0565b50505b505050565b5f82821c905092915050565b5f610f635f1984600802610f48565b1980831691505092915050565b5f610f7b8383610f54565b9150826002028217905092915050565b610f94826108e0565b67ffffffffffffffff811115610fad57610fac610dca565b5b610fb78254610c59565b610fc2828285610f02565b5f60209050601f831160018114610ff3575f8415610fe1578287015190505b610feb8582610f70565b865550611052565b601f19841661100186610df7565b5f5b8281101561102857848901518255600182019150602085019450602081019050611003565b868310156110455784890151611041601f891682610f54565b8355505b6001600288020188555050505b505050505050565b828183375f83830152505050565b5f61107383856108ea565b935061108083858461105a565b61108983610908565b840190509392505050565b5f6040820190508181035f8301526110ad818587611068565b90506110bc6020830184610959565b94935050505056fea2646970667358221220e3f2ab7dccc1a04ceb5bf5083fc45762afce102a1e29295580ecb350fc3d889364736f6c634300081c0033";
+
+  
+      type MedicalRecordsStorageConstructorParams = [signer?: Signer] | ConstructorParameters<typeof ContractFactory>;
+
+      const isSuperArgs = (xs: MedicalRecordsStorageConstructorParams): xs is ConstructorParameters<typeof ContractFactory> =>
+        xs.length > 1
+    
+
+  export class MedicalRecordsStorage__factory extends ContractFactory {
+    
+      constructor(...args: MedicalRecordsStorageConstructorParams) {
+        if (isSuperArgs(args)) {
+          super(...args);
+        } else {
+          super(_abi, _bytecode, args[0]);
+        }
+        
+      }
+    
+    override getDeployTransaction(trustedForwarder_: AddressLike, registrar_: AddressLike, overrides?: NonPayableOverrides & { from?: string }): Promise<ContractDeployTransaction> {
+      return super.getDeployTransaction(trustedForwarder_, registrar_, overrides || {});
+    };
+    override deploy(trustedForwarder_: AddressLike, registrar_: AddressLike, overrides?: NonPayableOverrides & { from?: string }) {
+      return super.deploy(trustedForwarder_, registrar_, overrides || {}) as Promise<MedicalRecordsStorage & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }>;
+    }
+    override connect(runner: ContractRunner | null): MedicalRecordsStorage__factory {
+      return super.connect(runner) as MedicalRecordsStorage__factory;
+    }
+    
+    
+    static readonly bytecode = _bytecode;
+    static readonly abi = _abi;
+    static createInterface(): MedicalRecordsStorageInterface {
+      return new Interface(_abi) as MedicalRecordsStorageInterface;
+    }
+    
+    override attach(address: string | Addressable): MedicalRecordsStorage {
+      return super.attach(address) as MedicalRecordsStorage;
+    }
+  static connect(address: string, runner?: ContractRunner | null): MedicalRecordsStorage {
+      return new Contract(address, _abi, runner) as unknown as MedicalRecordsStorage;
+    }
+  }
+
+  
+  
\ No newline at end of file
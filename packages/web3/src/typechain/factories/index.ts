@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { ERC2771Context__factory } from './ERC2771Context__factory.js';
+export { MedicalRecordsAccess__factory } from './MedicalRecordsAccess__factory.js';
+export { MedicalRecordsForwarder__factory } from './MedicalRecordsForwarder__factory.js';
+export { MedicalRecordsStorage__factory } from './MedicalRecordsStorage__factory.js';
\ No newline at end of file
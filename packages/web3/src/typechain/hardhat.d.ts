@@ -0,0 +1,59 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+
+import { ethers } from 'ethers'
+import { DeployContractOptions, FactoryOptions, HardhatEthersHelpers as HardhatEthersHelpersBase} from "@nomicfoundation/hardhat-ethers/types";
+
+import * as Contracts from "./index.js";
+
+declare module "@nomicfoundation/hardhat-ethers/types" {
+  interface HardhatEthersHelpers extends HardhatEthersHelpersBase {
+  getContractFactory(name: 'ERC2771Context', signerOrOptions?: ethers.Signer | FactoryOptions): Promise<Contracts.ERC2771Context__factory>
+getContractFactory(name: 'MedicalRecordsAccess', signerOrOptions?: ethers.Signer | FactoryOptions): Promise<Contracts.MedicalRecordsAccess__factory>
+getContractFactory(name: 'MedicalRecordsForwarder', signerOrOptions?: ethers.Signer | FactoryOptions): Promise<Contracts.MedicalRecordsForwarder__factory>
+getContractFactory(name: 'MedicalRecordsStorage', signerOrOptions?: ethers.Signer | FactoryOptions): Promise<Contracts.MedicalRecordsStorage__factory>
+
+  getContractAt(name: 'ERC2771Context', address: string | ethers.Addressable, signer?: ethers.Signer): Promise<Contracts.ERC2771Context>
+getContractAt(name: 'MedicalRecordsAccess', address: string | ethers.Addressable, signer?: ethers.Signer): Promise<Contracts.MedicalRecordsAccess>
+getContractAt(name: 'MedicalRecordsForwarder', address: string | ethers.Addressable, signer?: ethers.Signer): Promise<Contracts.MedicalRecordsForwarder>
+getContractAt(name: 'MedicalRecordsStorage', address: string | ethers.Addressable, signer?: ethers.Signer): Promise<Contracts.MedicalRecordsStorage>
+
+  deployContract(name: 'ERC2771Context', signerOrOptions?: ethers.Signer | DeployContractOptions): Promise<Contracts.ERC2771Context>
+deployContract(name: 'MedicalRecordsAccess', signerOrOptions?: ethers.Signer | DeployContractOptions): Promise<Contracts.MedicalRecordsAccess>
+deployContract(name: 'MedicalRecordsForwarder', signerOrOptions?: ethers.Signer | DeployContractOptions): Promise<Contracts.MedicalRecordsForwarder>
+deployContract(name: 'MedicalRecordsStorage', signerOrOptions?: ethers.Signer | DeployContractOptions): Promise<Contracts.MedicalRecordsStorage>
+
+  deployContract(name: 'ERC2771Context', args: any[], signerOrOptions?: ethers.Signer | DeployContractOptions): Promise<Contracts.ERC2771Context>
+deployContract(name: 'MedicalRecordsAccess', args: any[], signerOrOptions?: ethers.Signer | DeployContractOptions): Promise<Contracts.MedicalRecordsAccess>
+deployContract(name: 'MedicalRecordsForwarder', args: any[], signerOrOptions?: ethers.Signer | DeployContractOptions): Promise<Contracts.MedicalRecordsForwarder>
+deployContract(name: 'MedicalRecordsStorage', args: any[], signerOrOptions?: ethers.Signer | DeployContractOptions): Promise<Contracts.MedicalRecordsStorage>
+
+    // default types
+    getContractFactory(
+      name: string,
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<ethers.ContractFactory>;
+    getContractFactory(
+      abi: any[],
+      bytecode: ethers.BytesLike,
+      signer?: ethers.Signer
+    ): Promise<ethers.ContractFactory>;
+    getContractAt(
+      nameOrAbi: string | any[],
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<ethers.Contract>;
+    deployContract(
+      name: string,
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<ethers.Contract>;
+    deployContract(
+      name: string,
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<ethers.Contract>;
+  }
+}
+  
\ No newline at end of file
@@ -0,0 +1,12 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { ERC2771Context } from './ERC2771Context.js';
+export type { MedicalRecordsAccess } from './MedicalRecordsAccess.js';
+export type { MedicalRecordsForwarder } from './MedicalRecordsForwarder.js';
+export type { MedicalRecordsStorage } from './MedicalRecordsStorage.js';
+export * as factories from './factories/index.js';
+export { ERC2771Context__factory } from './factories/ERC2771Context__factory.js';
+export { MedicalRecordsAccess__factory } from './factories/MedicalRecordsAccess__factory.js';
+export { MedicalRecordsForwarder__factory } from './factories/MedicalRecordsForwarder__factory.js';
+export { MedicalRecordsStorage__factory } from './factories/MedicalRecordsStorage__factory.js';
\ No newline at end of file
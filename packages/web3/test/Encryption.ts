@@ -0,0 +1,239 @@
+import { expect } from "chai";
+import { Readable } from "node:stream";
+
+import {
+  decryptFile,
+  encryptFile,
+  generateEncryptionKey,
+} from "../src/ipfs.js";
+import {
+  collectStream,
+  createDecryptionStream,
+  createEncryptionStream,
+  createRangeDecryptionStream,
+  ENCRYPTION_HEADER_LENGTH,
+  getCiphertextRange,
+  getDecryptedSize,
+  getEncryptedSize,
+  parseEncryptionHeader,
+  toReadableStream,
+} from "../src/encryption.js";
+
+const randomBytes = (length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  for (let offset = 0; offset < length; offset += 65536) {
+    crypto.getRandomValues(bytes.subarray(offset, Math.min(offset + 65536, length)));
+  }
+  return bytes;
+};
+
+const expectRejection = async (promise: Promise<unknown>, message: string) => {
+  try {
+    await promise;
+  } catch (error) {
+    expect((error as Error).message).to.include(message);
+    return;
+  }
+  expect.fail(`Expected rejection with "${message}"`);
+};
+
+const encryptWithChunkSize = async (
+  plaintext: Uint8Array,
+  key: string,
+  chunkSize: number,
+): Promise<Uint8Array> => {
+  return collectStream(
+    toReadableStream(plaintext).pipeThrough(createEncryptionStream(key, { chunkSize })),
+  );
+};
+
+describe("File encryption", function () {
+  describe("round trips", function () {
+    it("Should round-trip a Node buffer", async function () {
+      const key = generateEncryptionKey();
+      const plaintext = Buffer.from("Complete Blood Count: all values within range");
+
+      const encrypted = await encryptFile(plaintext, key);
+      expect(Buffer.from(encrypted).includes(plaintext)).to.equal(false);
+
+      const decrypted = await decryptFile(encrypted, key);
+      expect(Buffer.from(decrypted).equals(plaintext)).to.equal(true);
+    });
+
+    it("Should round-trip a File and keep its name", async function () {
+      const key = generateEncryptionKey();
+      const plaintext = randomBytes(200_000);
+      const file = new File([plaintext], "chest-xray.png", { type: "image/png" });
+
+      const encrypted = await encryptFile(file, key);
+      expect(encrypted.name).to.equal("chest-xray.png");
+      expect(encrypted.size).to.equal(getEncryptedSize(plaintext.length));
+
+      const decrypted = await decryptFile(encrypted, key, "image/png");
+      expect(decrypted.type).to.equal("image/png");
+      expect(new Uint8Array(await decrypted.arrayBuffer())).to.deep.equal(plaintext);
+    });
+
+    it("Should round-trip an empty file", async function () {
+      const key = generateEncryptionKey();
+
+      const encrypted = await encryptFile(new Uint8Array(0), key);
+      const decrypted = await decryptFile(encrypted, key);
+
+      expect(decrypted.length).to.equal(0);
+    });
+
+    it("Should round-trip Node streams across many chunks", async function () {
+      const key = generateEncryptionKey();
+      const plaintext = randomBytes(300_001);
+      const source = Readable.from(
+        Array.from({ length: 10 }, (_, i) => Buffer.from(plaintext.subarray(i * 30_001, (i + 1) * 30_001))),
+      );
+
+      const encrypted = await collectStream(await encryptFile(source, key));
+      const decrypted = await collectStream(await decryptFile(Readable.from([Buffer.from(encrypted)]), key));
+
+      expect(decrypted).to.deep.equal(plaintext);
+    });
+
+    it("Should honour the chunk size recorded in the header", async function () {
+      const key = generateEncryptionKey();
+      const plaintext = randomBytes(1000);
+
+      const encrypted = await encryptWithChunkSize(plaintext, key, 64);
+      expect(encrypted.length).to.equal(getEncryptedSize(plaintext.length, 64));
+      expect(getDecryptedSize(encrypted.length, 64)).to.equal(plaintext.length);
+
+      expect(await decryptFile(encrypted, key)).to.deep.equal(plaintext);
+    });
+
+    it("Should use a fresh nonce for every encryption", async function () {
+      const key = generateEncryptionKey();
+      const plaintext = Buffer.from("same input");
+
+      const first = await encryptFile(plaintext, key);
+      const second = await encryptFile(plaintext, key);
+
+      expect(Buffer.from(first).equals(Buffer.from(second))).to.equal(false);
+    });
+  });
+
+  describe("tamper detection", function () {
+    it("Should reject a modified ciphertext byte", async function () {
+      const key = generateEncryptionKey();
+      const encrypted = await encryptFile(randomBytes(1000), key);
+
+      encrypted[ENCRYPTION_HEADER_LENGTH + 10] ^= 0x01;
+
+      await expectRejection(decryptFile(encrypted, key), "Decryption failed");
+    });
+
+    it("Should reject a modified header", async function () {
+      const key = generateEncryptionKey();
+      const encrypted = await encryptFile(randomBytes(1000), key);
+
+      encrypted[ENCRYPTION_HEADER_LENGTH - 1] ^= 0x01;
+
+      await expectRejection(decryptFile(encrypted, key), "Decryption failed");
+    });
+
+    it("Should reject a truncated ciphertext", async function () {
+      const key = generateEncryptionKey();
+      const chunkSize = 64;
+      const encrypted = await encryptWithChunkSize(randomBytes(1000), key, chunkSize);
+
+      const withoutLastChunk = encrypted.subarray(0, encrypted.length - (1000 % chunkSize) - 16);
+
+      await expectRejection(decryptFile(withoutLastChunk, key), "Decryption failed");
+    });
+
+    it("Should reject reordered chunks", async function () {
+      const key = generateEncryptionKey();
+      const chunkSize = 64;
+      const sealedSize = chunkSize + 16;
+      const encrypted = await encryptWithChunkSize(randomBytes(1000), key, chunkSize);
+
+      const swapped = encrypted.slice();
+      swapped.set(encrypted.subarray(ENCRYPTION_HEADER_LENGTH + sealedSize, ENCRYPTION_HEADER_LENGTH + 2 * sealedSize), ENCRYPTION_HEADER_LENGTH);
+      swapped.set(encrypted.subarray(ENCRYPTION_HEADER_LENGTH, ENCRYPTION_HEADER_LENGTH + sealedSize), ENCRYPTION_HEADER_LENGTH + sealedSize);
+
+      await expectRejection(decryptFile(swapped, key), "Decryption failed");
+    });
+
+    it("Should reject the wrong key", async function () {
+      const encrypted = await encryptFile(randomBytes(100), generateEncryptionKey());
+
+      await expectRejection(decryptFile(encrypted, generateEncryptionKey()), "Decryption failed");
+    });
+
+    it("Should reject data that was never encrypted", async function () {
+      const plaintext = new Blob(["%PDF-1.7 plain file"]);
+
+      await expectRejection(decryptFile(plaintext, generateEncryptionKey()), "Unsupported encryption format");
+    });
+
+    it("Should error a decryption stream when tampering is detected", async function () {
+      const key = generateEncryptionKey();
+      const encrypted = await encryptWithChunkSize(randomBytes(500), key, 64);
+      encrypted[encrypted.length - 1] ^= 0x01;
+
+      const stream = toReadableStream(encrypted).pipeThrough(createDecryptionStream(key));
+
+      await expectRejection(collectStream(stream), "Decryption failed");
+    });
+
+    it("Should refuse malformed keys", function () {
+      expect(() => createEncryptionStream("not-a-key")).to.throw("Encryption key must be 32 bytes");
+    });
+  });
+
+  describe("range decryption", function () {
+    const decryptRange = async (encrypted: Uint8Array, key: string, plaintextSize: number, start: number, end: number) => {
+      const header = parseEncryptionHeader(encrypted);
+      const range = { start, end, plaintextSize };
+      const span = getCiphertextRange(header.chunkSize, range);
+
+      return collectStream(
+        toReadableStream(encrypted.slice(span.start, span.end + 1))
+          .pipeThrough(createRangeDecryptionStream(key, header, range)),
+      );
+    };
+
+    it("Should decrypt ranges within, across and at the ends of chunks", async function () {
+      const key = generateEncryptionKey();
+      const plaintext = randomBytes(1000);
+      const encrypted = await encryptWithChunkSize(plaintext, key, 64);
+
+      for (const [start, end] of [[0, 0], [10, 20], [60, 130], [0, 999], [960, 999], [999, 999]]) {
+        const decrypted = await decryptRange(encrypted, key, plaintext.length, start, end);
+        expect(Buffer.from(decrypted).equals(Buffer.from(plaintext.subarray(start, end + 1)))).to.equal(true);
+      }
+    });
+
+    it("Should only need the chunks covering the range", async function () {
+      const span = getCiphertextRange(64, { start: 70, end: 140, plaintextSize: 1000 });
+
+      expect(span.start).to.equal(ENCRYPTION_HEADER_LENGTH + 80);
+      expect(span.end).to.equal(ENCRYPTION_HEADER_LENGTH + 3 * 80 - 1);
+    });
+
+    it("Should reject a range with a tampered chunk", async function () {
+      const key = generateEncryptionKey();
+      const encrypted = await encryptWithChunkSize(randomBytes(500), key, 64);
+      encrypted[ENCRYPTION_HEADER_LENGTH + 90] ^= 0x01;
+
+      await expectRejection(decryptRange(encrypted, key, 500, 100, 120), "Decryption failed");
+    });
+
+    it("Should reject a range that claims the wrong file size", async function () {
+      const key = generateEncryptionKey();
+      const encrypted = await encryptWithChunkSize(randomBytes(500), key, 64);
+
+      await expectRejection(decryptRange(encrypted, key, 400, 390, 399), "Decryption failed");
+    });
+
+    it("Should refuse ranges outside the file", function () {
+      expect(() => getCiphertextRange(64, { start: 10, end: 500, plaintextSize: 500 })).to.throw("Invalid decryption range");
+    });
+  });
+});
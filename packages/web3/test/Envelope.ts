@@ -0,0 +1,68 @@
+import { expect } from "chai";
+
+import { generateEncryptionKey } from "../src/ipfs.js";
+import {
+  generateRecipientKeyPair,
+  getPublicKeyFingerprint,
+  isValidRecipientPublicKey,
+  unwrapDataKey,
+  wrapDataKey,
+} from "../src/envelope.js";
+
+const expectRejection = async (promise: Promise<unknown>, message: string) => {
+  try {
+    await promise;
+  } catch (error) {
+    expect((error as Error).message).to.include(message);
+    return;
+  }
+  expect.fail(`Expected rejection with "${message}"`);
+};
+
+describe("Envelope encryption", function () {
+  it("Should wrap and unwrap a data key for a recipient", async function () {
+    const recipient = await generateRecipientKeyPair();
+    const dataKey = generateEncryptionKey();
+
+    const wrapped = await wrapDataKey(dataKey, recipient.publicKey, "record-1");
+
+    expect(wrapped.startsWith("v1.")).to.equal(true);
+    expect(await unwrapDataKey(wrapped, recipient.privateKey, "record-1")).to.equal(dataKey);
+  });
+
+  it("Should use a fresh ephemeral key for every wrap", async function () {
+    const recipient = await generateRecipientKeyPair();
+    const dataKey = generateEncryptionKey();
+
+    const first = await wrapDataKey(dataKey, recipient.publicKey, "record-1");
+    const second = await wrapDataKey(dataKey, recipient.publicKey, "record-1");
+
+    expect(first).to.not.equal(second);
+  });
+
+  it("Should reject a wrapped key moved to another record", async function () {
+    const recipient = await generateRecipientKeyPair();
+    const wrapped = await wrapDataKey(generateEncryptionKey(), recipient.publicKey, "record-1");
+
+    await expectRejection(unwrapDataKey(wrapped, recipient.privateKey, "record-2"), "Failed to unwrap");
+  });
+
+  it("Should reject unwrapping with another recipient's private key", async function () {
+    const recipient = await generateRecipientKeyPair();
+    const other = await generateRecipientKeyPair();
+    const wrapped = await wrapDataKey(generateEncryptionKey(), recipient.publicKey, "record-1");
+
+    await expectRejection(unwrapDataKey(wrapped, other.privateKey, "record-1"), "Failed to unwrap");
+  });
+
+  it("Should validate and fingerprint public keys", async function () {
+    const recipient = await generateRecipientKeyPair();
+
+    expect(await isValidRecipientPublicKey(recipient.publicKey)).to.equal(true);
+    expect(await isValidRecipientPublicKey("not-a-key")).to.equal(false);
+
+    const fingerprint = await getPublicKeyFingerprint(recipient.publicKey);
+    expect(fingerprint).to.match(/^[0-9a-f]{32}$/);
+    expect(await getPublicKeyFingerprint(recipient.publicKey)).to.equal(fingerprint);
+  });
+});
@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import type { Contract, Signer } from "ethers";
+import { artifacts, network } from "hardhat";
+
+import MedicalRecordsAccessModule from "../ignition/modules/MedicalRecordsAccess.js";
+import { MedicalRecordsAccess__factory } from "../src/typechain/index.js";
+
+const { ethers, ignition, networkHelpers } = await network.connect({ network: "hardhatMainnet" });
+
+const RECORD = ethers.id("record-1");
+const HOUR = 60 * 60;
+
+// Contract.connect() loses the ABI-derived methods in its return type
+const connectAs = (contract: Contract, signer: Signer) => contract.connect(signer) as Contract;
+
+const deploy = async () => {
+  const [, patient, provider, stranger] = await ethers.getSigners();
+  const { recordsStorage, recordsAccess } = await ignition.deploy(MedicalRecordsAccessModule);
+
+  await connectAs(recordsStorage, patient).storeRecord(RECORD, "QmRecord", BigInt(await networkHelpers.time.latest()));
+
+  return { recordsStorage, recordsAccess, patient, provider, stranger };
+};
+
+describe("MedicalRecordsAccess", function () {
+  it("Should have bindings generated from the current build", async function () {
+    // Stale bindings: run `npm run build:contracts` and commit src/typechain
+    const artifact = await artifacts.readArtifact("MedicalRecordsAccess");
+
+    expect(MedicalRecordsAccess__factory.createInterface().formatJson()).to.equal(new ethers.Interface(artifact.abi).formatJson());
+    expect(MedicalRecordsAccess__factory.bytecode).to.equal(artifact.bytecode);
+  });
+
+  it("Should let the record owner grant access and emit AccessGranted", async function () {
+    const { recordsAccess, patient, provider } = await deploy();
+    const expiresAt = BigInt((await networkHelpers.time.latest()) + HOUR);
+
+    await expect(connectAs(recordsAccess, patient).grantAccess(RECORD, provider.address, expiresAt, ["read", "write"]))
+      .to.emit(recordsAccess, "AccessGranted")
+      .withArgs(RECORD, patient.address, provider.address, expiresAt);
+
+    expect(await recordsAccess.hasAccess(RECORD, provider.address)).to.equal(true);
+    expect(await recordsAccess.getAccessDetails(RECORD, provider.address)).to.deep.equal([expiresAt, ["read", "write"]]);
+  });
+
+  it("Should only let the record owner grant and revoke", async function () {
+    const { recordsAccess, patient, provider, stranger } = await deploy();
+
+    await expect(connectAs(recordsAccess, stranger).grantAccess(RECORD, provider.address, 0n, ["read"]))
+      .to.be.revertedWithCustomError(recordsAccess, "NotRecordOwner")
+      .withArgs(RECORD, stranger.address);
+
+    await connectAs(recordsAccess, patient).grantAccess(RECORD, provider.address, 0n, ["read"]);
+
+    await expect(connectAs(recordsAccess, provider).revokeAccess(RECORD, provider.address))
+      .to.be.revertedWithCustomError(recordsAccess, "NotRecordOwner")
+      .withArgs(RECORD, provider.address);
+  });
+
+  it("Should reject grants for records that were never stored", async function () {
+    const { recordsAccess, patient, provider } = await deploy();
+    const unknown = ethers.id("unknown");
+
+    await expect(connectAs(recordsAccess, patient).grantAccess(unknown, provider.address, 0n, ["read"]))
+      .to.be.revertedWithCustomError(recordsAccess, "RecordNotFound")
+      .withArgs(unknown);
+  });
+
+  it("Should enforce the expiry in hasAccess", async function () {
+    const { recordsAccess, patient, provider } = await deploy();
+    const expiresAt = (await networkHelpers.time.latest()) + HOUR;
+
+    await connectAs(recordsAccess, patient).grantAccess(RECORD, provider.address, BigInt(expiresAt), ["read"]);
+    expect(await recordsAccess.hasAccess(RECORD, provider.address)).to.equal(true);
+
+    await networkHelpers.time.increaseTo(expiresAt);
+
+    expect(await recordsAccess.hasAccess(RECORD, provider.address)).to.equal(false);
+    expect(await recordsAccess.getAccessDetails(RECORD, provider.address)).to.deep.equal([0n, []]);
+  });
+
+  it("Should reject an expiry in the past", async function () {
+    const { recordsAccess, patient, provider } = await deploy();
+    const expiresAt = BigInt(await networkHelpers.time.latest());
+
+    await expect(connectAs(recordsAccess, patient).grantAccess(RECORD, provider.address, expiresAt, ["read"]))
+      .to.be.revertedWithCustomError(recordsAccess, "InvalidExpiry")
+      .withArgs(expiresAt);
+  });
+
+  it("Should revoke access and emit AccessRevoked", async function () {
+    const { recordsAccess, patient, provider } = await deploy();
+    await connectAs(recordsAccess, patient).grantAccess(RECORD, provider.address, 0n, ["read"]);
+
+    await expect(connectAs(recordsAccess, patient).revokeAccess(RECORD, provider.address))
+      .to.emit(recordsAccess, "AccessRevoked")
+      .withArgs(RECORD, patient.address, provider.address);
+
+    expect(await recordsAccess.hasAccess(RECORD, provider.address)).to.equal(false);
+    await expect(connectAs(recordsAccess, patient).revokeAccess(RECORD, provider.address))
+      .to.be.revertedWithCustomError(recordsAccess, "AccessNotFound")
+      .withArgs(RECORD, provider.address);
+  });
+});
@@ -0,0 +1,165 @@
+import { expect } from "chai";
+import type { Contract, Signer } from "ethers";
+import { artifacts, network } from "hardhat";
+
+import MedicalRecordsAccessModule from "../ignition/modules/MedicalRecordsAccess.js";
+import { getForwarderDomain, recoverForwardRequestSigner, signForwardRequest, type ForwardRequest } from "../src/relay.js";
+import { MedicalRecordsForwarder__factory } from "../src/typechain/index.js";
+
+const { ethers, ignition, networkHelpers } = await network.connect({ network: "hardhatMainnet" });
+
+const RECORD = ethers.id("record-1");
+const HOUR = 60 * 60;
+
+// Contract.connect() loses the ABI-derived methods in its return type
+const connectAs = (contract: Contract, signer: Signer) => contract.connect(signer) as Contract;
+
+const deploy = async () => {
+  const [registrar, provider, relayer, stranger] = await ethers.getSigners();
+  const { forwarder, recordsStorage, recordsAccess } = await ignition.deploy(MedicalRecordsAccessModule);
+
+  // A patient wallet that never holds any ETH
+  const patient = ethers.Wallet.createRandom(ethers.provider);
+
+  await connectAs(recordsStorage, registrar).storeRecordFor(RECORD, "QmRecord", BigInt(await networkHelpers.time.latest()), patient.address);
+
+  const domain = getForwarderDomain((await ethers.provider.getNetwork()).chainId, await forwarder.getAddress());
+
+  // The patient's next request to `target`, signed with their wallet
+  const sign = async (target: Contract, data: string, overrides: Partial<ForwardRequest> = {}, signer: Signer = patient) => {
+    const request: ForwardRequest = {
+      from: patient.address,
+      to: await target.getAddress(),
+      value: 0n,
+      gas: 300000n,
+      nonce: await forwarder.nonces(patient.address),
+      deadline: BigInt((await networkHelpers.time.latest()) + HOUR),
+      data,
+      ...overrides
+    };
+    return { request, signature: await signForwardRequest(signer, domain, request) };
+  };
+
+  const grantData = (permissions: string[] = ["read"]) =>
+    recordsAccess.interface.encodeFunctionData("grantAccess", [RECORD, provider.address, 0n, permissions]);
+
+  return { forwarder, recordsStorage, recordsAccess, patient, provider, relayer, stranger, domain, sign, grantData };
+};
+
+describe("MedicalRecordsForwarder", function () {
+  it("Should have bindings generated from the current build", async function () {
+    // Stale bindings: run `npm run build:contracts` and commit src/typechain
+    const artifact = await artifacts.readArtifact("MedicalRecordsForwarder");
+
+    expect(MedicalRecordsForwarder__factory.createInterface().formatJson()).to.equal(new ethers.Interface(artifact.abi).formatJson());
+    expect(MedicalRecordsForwarder__factory.bytecode).to.equal(artifact.bytecode);
+  });
+
+  it("Should sign requests the forwarder and the off-chain helpers both verify", async function () {
+    const { forwarder, recordsAccess, patient, domain, sign, grantData } = await deploy();
+    const { request, signature } = await sign(recordsAccess, grantData());
+
+    expect(recoverForwardRequestSigner(domain, request, signature)).to.equal(patient.address);
+    expect(await forwarder.verify(request, signature)).to.equal(true);
+  });
+
+  it("Should let a patient without ETH grant access through a relayer", async function () {
+    const { forwarder, recordsAccess, patient, provider, relayer, sign, grantData } = await deploy();
+    const { request, signature } = await sign(recordsAccess, grantData(["read", "write"]));
+
+    await expect(connectAs(forwarder, relayer).execute(request, signature))
+      .to.emit(recordsAccess, "AccessGranted")
+      .withArgs(RECORD, patient.address, provider.address, 0n)
+      .and.to.emit(forwarder, "Executed")
+      .withArgs(patient.address, await recordsAccess.getAddress(), 0n);
+
+    expect(await recordsAccess.hasAccess(RECORD, provider.address)).to.equal(true);
+    expect(await ethers.provider.getBalance(patient.address)).to.equal(0n);
+    expect(await forwarder.nonces(patient.address)).to.equal(1n);
+  });
+
+  it("Should let the patient revoke access through a relayer", async function () {
+    const { forwarder, recordsAccess, patient, provider, relayer, sign, grantData } = await deploy();
+
+    const grant = await sign(recordsAccess, grantData());
+    await connectAs(forwarder, relayer).execute(grant.request, grant.signature);
+
+    const revoke = await sign(recordsAccess, recordsAccess.interface.encodeFunctionData("revokeAccess", [RECORD, provider.address]));
+    await expect(connectAs(forwarder, relayer).execute(revoke.request, revoke.signature))
+      .to.emit(recordsAccess, "AccessRevoked")
+      .withArgs(RECORD, patient.address, provider.address);
+
+    expect(await recordsAccess.hasAccess(RECORD, provider.address)).to.equal(false);
+  });
+
+  it("Should reject a replayed request", async function () {
+    const { forwarder, recordsAccess, patient, relayer, sign, grantData } = await deploy();
+    const { request, signature } = await sign(recordsAccess, grantData());
+
+    await connectAs(forwarder, relayer).execute(request, signature);
+
+    expect(await forwarder.verify(request, signature)).to.equal(false);
+    await expect(connectAs(forwarder, relayer).execute(request, signature))
+      .to.be.revertedWithCustomError(forwarder, "InvalidNonce")
+      .withArgs(patient.address, 0n);
+  });
+
+  it("Should reject requests signed by someone else or changed after signing", async function () {
+    const { forwarder, recordsAccess, relayer, stranger, sign, grantData } = await deploy();
+
+    const forged = await sign(recordsAccess, grantData(), {}, stranger);
+    await expect(connectAs(forwarder, relayer).execute(forged.request, forged.signature))
+      .to.be.revertedWithCustomError(forwarder, "InvalidSignature");
+
+    const { request, signature } = await sign(recordsAccess, grantData());
+    const changed = { ...request, data: grantData(["read", "write", "share"]) };
+    expect(await forwarder.verify(changed, signature)).to.equal(false);
+    await expect(connectAs(forwarder, relayer).execute(changed, signature))
+      .to.be.revertedWithCustomError(forwarder, "InvalidSignature");
+  });
+
+  it("Should not treat junk signatures as signed by the zero address", async function () {
+    const { forwarder, recordsAccess, relayer, sign, grantData } = await deploy();
+    const { request } = await sign(recordsAccess, grantData(), { from: ethers.ZeroAddress, nonce: 0n });
+    const junk = `0x${"00".repeat(64)}1b`;
+
+    expect(await forwarder.verify(request, junk)).to.equal(false);
+    await expect(connectAs(forwarder, relayer).execute(request, junk))
+      .to.be.revertedWithCustomError(forwarder, "InvalidSignature");
+  });
+
+  it("Should reject expired requests", async function () {
+    const { forwarder, recordsAccess, relayer, sign, grantData } = await deploy();
+    const { request, signature } = await sign(recordsAccess, grantData());
+
+    await networkHelpers.time.increaseTo(request.deadline + 1n);
+
+    await expect(connectAs(forwarder, relayer).execute(request, signature))
+      .to.be.revertedWithCustomError(forwarder, "ExpiredRequest")
+      .withArgs(request.deadline);
+  });
+
+  it("Should revert with the target's error and keep the nonce", async function () {
+    const { forwarder, recordsAccess, patient, provider, relayer, sign } = await deploy();
+    const unknown = ethers.id("unknown");
+    const data = recordsAccess.interface.encodeFunctionData("grantAccess", [unknown, provider.address, 0n, ["read"]]);
+    const { request, signature } = await sign(recordsAccess, data);
+
+    await expect(connectAs(forwarder, relayer).execute(request, signature))
+      .to.be.revertedWithCustomError(recordsAccess, "RecordNotFound")
+      .withArgs(unknown);
+
+    expect(await forwarder.nonces(patient.address)).to.equal(0n);
+  });
+
+  it("Should only let the registrar store records for another owner", async function () {
+    const { recordsStorage, patient, stranger } = await deploy();
+    const other = ethers.id("record-2");
+
+    await expect(connectAs(recordsStorage, stranger).storeRecordFor(other, "QmOther", 1700000000n, patient.address))
+      .to.be.revertedWithCustomError(recordsStorage, "NotRegistrar")
+      .withArgs(stranger.address);
+
+    expect((await recordsStorage.getRecord(RECORD))[2]).to.equal(patient.address);
+  });
+});
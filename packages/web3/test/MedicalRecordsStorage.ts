@@ -0,0 +1,58 @@
+import { expect } from "chai";
+import type { Contract, Signer } from "ethers";
+import { artifacts, network } from "hardhat";
+
+import MedicalRecordsStorageModule from "../ignition/modules/MedicalRecordsStorage.js";
+import { MedicalRecordsStorage__factory } from "../src/typechain/index.js";
+
+const { ethers, ignition } = await network.connect({ network: "hardhatMainnet" });
+
+const RECORD = ethers.id("record-1");
+
+// Contract.connect() loses the ABI-derived methods in its return type
+const connectAs = (contract: Contract, signer: Signer) => contract.connect(signer) as Contract;
+
+const deploy = async () => {
+  const { recordsStorage } = await ignition.deploy(MedicalRecordsStorageModule);
+  return recordsStorage;
+};
+
+describe("MedicalRecordsStorage", function () {
+  it("Should have bindings generated from the current build", async function () {
+    // Stale bindings: run `npm run build:contracts` and commit src/typechain
+    const artifact = await artifacts.readArtifact("MedicalRecordsStorage");
+
+    expect(MedicalRecordsStorage__factory.createInterface().formatJson()).to.equal(new ethers.Interface(artifact.abi).formatJson());
+    expect(MedicalRecordsStorage__factory.bytecode).to.equal(artifact.bytecode);
+  });
+
+  it("Should store a record owned by the caller and emit RecordStored", async function () {
+    const recordsStorage = await deploy();
+    const [, patient] = await ethers.getSigners();
+
+    await expect(connectAs(recordsStorage, patient).storeRecord(RECORD, "QmRecord", 1700000000n))
+      .to.emit(recordsStorage, "RecordStored")
+      .withArgs(RECORD, patient.address, "QmRecord", 1700000000n);
+
+    expect(await recordsStorage.recordExists(RECORD)).to.equal(true);
+    expect(await recordsStorage.getRecord(RECORD)).to.deep.equal(["QmRecord", 1700000000n, patient.address]);
+  });
+
+  it("Should keep records write-once", async function () {
+    const recordsStorage = await deploy();
+    await recordsStorage.storeRecord(RECORD, "QmRecord", 1700000000n);
+
+    await expect(recordsStorage.storeRecord(RECORD, "QmOther", 1700000001n))
+      .to.be.revertedWithCustomError(recordsStorage, "RecordAlreadyExists")
+      .withArgs(RECORD);
+  });
+
+  it("Should reject unknown records", async function () {
+    const recordsStorage = await deploy();
+
+    expect(await recordsStorage.recordExists(RECORD)).to.equal(false);
+    await expect(recordsStorage.getRecord(RECORD))
+      .to.be.revertedWithCustomError(recordsStorage, "RecordNotFound")
+      .withArgs(RECORD);
+  });
+});
@@ -0,0 +1,63 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import {
+  computeMerkleRoot,
+  getMerkleProof,
+  hashMerkleLeaf,
+  verifyMerkleProof,
+} from "../src/merkle.js";
+
+const leavesFor = (count: number) =>
+  Array.from({ length: count }, (_, i) => hashMerkleLeaf(ethers.toUtf8Bytes(`entry-${i}`)));
+
+describe("Merkle trees", function () {
+  it("Should use the leaf itself as the root of a single-leaf tree", function () {
+    const [leaf] = leavesFor(1);
+
+    expect(computeMerkleRoot([leaf])).to.equal(leaf);
+    expect(getMerkleProof([leaf], 0)).to.deep.equal([]);
+    expect(verifyMerkleProof(leaf, [], leaf)).to.equal(true);
+  });
+
+  it("Should hash pairs in sorted order", function () {
+    const [a, b] = leavesFor(2);
+    const [low, high] = a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a];
+
+    expect(computeMerkleRoot([a, b])).to.equal(ethers.keccak256(ethers.concat([low, high])));
+    expect(computeMerkleRoot([b, a])).to.equal(computeMerkleRoot([a, b]));
+  });
+
+  it("Should prove every leaf of trees with even and odd sizes", function () {
+    for (const size of [2, 3, 5, 8, 13]) {
+      const leaves = leavesFor(size);
+      const root = computeMerkleRoot(leaves);
+
+      leaves.forEach((leaf, index) => {
+        expect(verifyMerkleProof(leaf, getMerkleProof(leaves, index), root)).to.equal(true);
+      });
+    }
+  });
+
+  it("Should reject a proof for a different leaf or root", function () {
+    const leaves = leavesFor(7);
+    const root = computeMerkleRoot(leaves);
+    const proof = getMerkleProof(leaves, 3);
+
+    expect(verifyMerkleProof(leaves[4], proof, root)).to.equal(false);
+    expect(verifyMerkleProof(leaves[3], proof, computeMerkleRoot(leaves.slice(1)))).to.equal(false);
+  });
+
+  it("Should change the root when any leaf changes", function () {
+    const leaves = leavesFor(6);
+    const tampered = [...leaves];
+    tampered[5] = hashMerkleLeaf(ethers.toUtf8Bytes("tampered"));
+
+    expect(computeMerkleRoot(tampered)).to.not.equal(computeMerkleRoot(leaves));
+  });
+
+  it("Should reject empty trees and out of range indexes", function () {
+    expect(() => computeMerkleRoot([])).to.throw("without leaves");
+    expect(() => getMerkleProof(leavesFor(3), 3)).to.throw("out of range");
+  });
+});